@@ -0,0 +1,41 @@
+// Helpers shared by the command line tools
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseValue as parseNumber } from '../engine/autograder';
+
+// A mistake in how a command was called; reported with a pointer to --help
+export class UsageError extends Error {}
+
+// A file's text; '-' reads stdin
+export function readText(file: string): string {
+    try {
+        return readFileSync(file === '-' ? 0 : file, 'utf8');
+    } catch (e: any) {
+        throw new UsageError(`cannot read ${file}: ${e.message}`);
+    }
+}
+
+export function writeText(file: string, text: string): void {
+    try {
+        writeFileSync(file, text);
+    } catch (e: any) {
+        throw new UsageError(`cannot write ${file}: ${e.message}`);
+    }
+}
+
+export function parseValue(text: string, what: string): number {
+    const value = parseNumber(text);
+    if (value === null) throw new UsageError(`${what}: '${text}' is not a number`);
+    return value;
+}
+
+// Run a command's main(), turning usage errors into exit status 2
+export function run(command: string, main: (argv: string[]) => number): void {
+    try {
+        process.exitCode = main(process.argv.slice(2));
+    } catch (e) {
+        if (!(e instanceof UsageError)) throw e;
+        console.error(`${command}: ${e.message}\nRun ${command} --help for usage.`);
+        process.exitCode = 2;
+    }
+}
@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+const dir = mkdtempSync(join(tmpdir(), 'mcu-eval-'));
+
+function file(name: string, text: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, text);
+    return path;
+}
+
+// Run the command as `mcu-eval ...args`, returning its exit status and output
+async function mcuEval(...args: string[]): Promise<{ status: number; out: string; err: string }> {
+    const out: string[] = [];
+    const err: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation(text => void out.push(String(text)));
+    vi.spyOn(console, 'error').mockImplementation(text => void err.push(String(text)));
+    vi.resetModules();
+    process.argv = ['node', 'mcu-eval', ...args];
+    await import('./mcu-eval');
+    return { status: Number(process.exitCode ?? 0), out: out.join('\n'), err: err.join('\n') };
+}
+
+const argv = process.argv;
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    process.argv = argv;
+    process.exitCode = undefined;
+});
+
+afterAll(() => rmSync(dir, { recursive: true }));
+
+describe('mcu-eval', () => {
+    const answer = file('answer.c', 'DDRB |= (1<<DDB5);\nPORTB |= (1<<PB5);\n');
+
+    it('prints the final registers and the steps as JSON', async () => {
+        const { status, out } = await mcuEval(answer, '--device', 'atmega328p', '--set', 'PORTB=0x01', '--format', 'json');
+        expect(status).toBe(0);
+        const report = JSON.parse(out);
+        expect(report.registers).toMatchObject({ DDRB: 0x20, PORTB: 0x21 });
+        expect(report.steps.map((s: { line: number; register: string }) => [s.line, s.register])).toEqual([[1, 'DDRB'], [2, 'PORTB']]);
+    });
+
+    it('prints a table by default', async () => {
+        const { status, out } = await mcuEval(answer, '--device', 'atmega328p');
+        expect(status).toBe(0);
+        expect(out).toContain('Registers');
+        expect(out).toMatch(/PORTB\s+0x00\s+0x20\s+00100000\s+changed/);
+    });
+
+    it('exits 1 when the result does not match the expected states', async () => {
+        const expected = file('expected.json', '{"PORTB": "0x20", "DDRB": "0x20"}');
+        expect((await mcuEval(answer, '--device', 'atmega328p', '--expect', expected)).status).toBe(0);
+
+        const wrong = file('wrong.json', '{"PORTB": "0x20"}');
+        const { status, out } = await mcuEval(answer, '--device', 'atmega328p', '--expect', wrong);
+        expect(status).toBe(1);
+        expect(out).toContain('MISMATCH: DDRB changed from 0x00 to 0x20');
+    });
+
+    it('exits 1 when the code does not run', async () => {
+        const broken = file('broken.c', 'PORTB |= (1<<;');
+        const { status, out } = await mcuEval(broken, '--device', 'atmega328p');
+        expect(status).toBe(1);
+        expect(out).toContain(`${broken}:1:`);
+    });
+
+    it('exits 2 on bad usage, naming the register meant', async () => {
+        const { status, err } = await mcuEval(answer, '--device', 'atmega328p', '--set', 'PORTBB=1');
+        expect(status).toBe(2);
+        expect(err).toContain('ATmega328P has no register PORTBB — did you mean `PORTB`?');
+        expect(err).toContain('Run mcu-eval --help for usage.');
+        expect((await mcuEval(answer, '--format', 'xml')).status).toBe(2);
+    });
+});
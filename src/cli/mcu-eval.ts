@@ -0,0 +1,276 @@
+// mcu-eval — run an answer from the command line, as the app grades it.
+// Prints the final register states and the steps as a table or JSON; with
+// an expected-state file it exits 1 when the result does not match.
+
+import { parseArgs } from 'node:util';
+import { registerWidth, type DeviceProfile } from '../data/device';
+import { devices, getDevice, loadAtdfDevice, setActiveDevice } from '../data/devices';
+import { compileAnswer, type CompiledProgram } from '../engine/compiler';
+import { didYouMean, type Diagnostic } from '../engine/diagnostics';
+import { checkAnswer, evaluate, type AnswerLanguage, type BitNameCheck, type CpuState, type EvalResult, type RegisterDifference } from '../engine/evaluator';
+import { parseValue, readText, run, UsageError } from './common';
+
+const USAGE = `Usage: mcu-eval <answer.c | answer.s | -> [options]
+
+  --device <id>        device to run on (default atmega2560)
+  --atdf <file>        add a device from a Microchip .atdf file (repeatable)
+  --init <file>        starting register values, a JSON object: {"PORTB": "0x84"}
+  --set <REG=value>    a starting register value (repeatable, overrides --init)
+  --expect <file>      expected register values; exit 1 unless they match and
+                       no register outside the file changes
+  --bit-names <check>  bit names used with the wrong register: off, warn, error
+  --language <lang>    c (default) or asm, for an answer in AVR assembly
+  --asm                also list the AVR instructions for each statement, with
+                       cycles and whether the write is atomic (C answers)
+  --format <format>    table (default) or json
+  -h, --help           show this help
+
+Values are decimal, hex (0x84) or binary (0b10000100).
+Exit status: 0 ok, 1 the code fails or does not match, 2 bad usage.`;
+
+const BIT_NAME_CHECKS: BitNameCheck[] = ['off', 'warn', 'error'];
+const LANGUAGES: AnswerLanguage[] = ['c', 'asm'];
+
+interface Report {
+    device: string;
+    success: boolean;
+    error?: string;
+    correct?: boolean;                  // only with --expect
+    registers: Record<string, number>;  // starting values and every register written
+    variables: Record<string, number>;
+    steps: { line: number; register: string; op: string; operand: number; before: number; after: number; note?: string }[];
+    diagnostics: { severity: string; code: string; line: number; column: number; message: string; fix?: string }[];
+    differences?: RegisterDifference[];
+    assembly?: CompiledProgram;         // only with --asm
+    cpu?: CpuState;                     // only with --language asm
+}
+
+function checkRegister(name: string, device: DeviceProfile, where: string): void {
+    if (device.allRegisterNames.has(name)) return;
+    const hint = didYouMean(name, device.allRegisterNames);
+    throw new UsageError(`${where}: ${device.name} has no register ${name}${hint ? ` — ${hint}` : ''}`);
+}
+
+// A JSON object of register names to values
+function readStates(file: string, device: DeviceProfile): Record<string, number> {
+    let json: unknown;
+    try {
+        json = JSON.parse(readText(file));
+    } catch (e: any) {
+        if (e instanceof UsageError) throw e;
+        throw new UsageError(`${file} is not valid JSON: ${e.message}`);
+    }
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+        throw new UsageError(`${file} should hold an object of register values, e.g. {"PORTB": "0x84"}`);
+    }
+    const states: Record<string, number> = {};
+    for (const [name, value] of Object.entries(json)) {
+        checkRegister(name, device, file);
+        states[name] = parseValue(String(value), `${file} ${name}`);
+    }
+    return states;
+}
+
+// --set PORTB=0x84
+function parseSettings(settings: string[], device: DeviceProfile): Record<string, number> {
+    const states: Record<string, number> = {};
+    for (const setting of settings) {
+        const [name, value] = setting.split('=').map(s => s.trim());
+        if (!name || value === undefined) throw new UsageError(`--set ${setting}: expected REG=value`);
+        checkRegister(name, device, '--set');
+        states[name] = parseValue(value, `--set ${name}`);
+    }
+    return states;
+}
+
+function hex(value: number, width: 8 | 16): string {
+    const mask = width === 16 ? 0xFFFF : 0xFF;
+    return '0x' + (value & mask).toString(16).toUpperCase().padStart(width / 4, '0');
+}
+
+// Columns padded to their widest cell
+function table(rows: string[][]): string {
+    const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+    return rows.map(row => '  ' + row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+function toReport(device: DeviceProfile, result: EvalResult, initial: Record<string, number>): Report {
+    return {
+        device: device.id,
+        success: result.success,
+        ...(result.error ? { error: result.error } : {}),
+        registers: { ...initial, ...result.registerStates },
+        variables: result.variables,
+        steps: result.steps.map(step => ({
+            line: step.span.line, register: step.register, op: step.op,
+            operand: step.exprValue, before: step.before, after: step.after,
+            ...(step.note ? { note: step.note } : {}),
+        })),
+        diagnostics: result.diagnostics.map((d: Diagnostic) => ({
+            severity: d.severity, code: d.code, line: d.span.line, column: d.span.column,
+            message: d.message, ...(d.fix ? { fix: d.fix } : {}),
+        })),
+        ...(result.cpu ? { cpu: result.cpu } : {}),
+    };
+}
+
+// Each statement, then its instructions with their cycles
+function formatAssembly(compiled: CompiledProgram, code: string): string {
+    const out: string[] = [];
+    for (const statement of compiled.statements) {
+        const source = code.slice(statement.span.start, statement.span.end).replace(/\s+/g, ' ').trim();
+        const summary = statement.instructions.length > 0
+            ? ` — ${statement.cycles} cycle${statement.cycles === 1 ? '' : 's'}, ${statement.atomic ? 'atomic' : 'not atomic'}`
+            : '';
+        out.push(`  ${statement.span.line}: ${source}${summary}`);
+        if (statement.instructions.length > 0) {
+            out.push(table(statement.instructions.map(i => [
+                '  ' + i.mnemonic, i.operands.join(', '), i.comment ? `; ${i.comment}` : '', String(i.cycles),
+            ])));
+        }
+        out.push(`      ${statement.note}`);
+    }
+    if (compiled.cycles !== null) out.push(`  ${compiled.cycles} cycle${compiled.cycles === 1 ? '' : 's'} in total`);
+    return out.join('\n');
+}
+
+function formatTable(report: Report, device: DeviceProfile, initial: Record<string, number>, code: string, file: string, expectFile?: string): string {
+    const widthOf = (name: string, ...values: number[]): 8 | 16 => device.allRegisterNames.has(name)
+        ? registerWidth(device, name)
+        : values.some(v => v < 0 || v > 0xFF) ? 16 : 8;
+    const out: string[] = [];
+
+    if (report.steps.length > 0) {
+        out.push('Steps', table([
+            ['#', 'line', 'register', 'op', 'operand', 'before', 'after', 'note'],
+            ...report.steps.map((step, i) => {
+                const width = widthOf(step.register, step.before, step.after, step.operand);
+                return [String(i + 1), String(step.line), step.register, step.op,
+                    hex(step.operand, width), hex(step.before, width), hex(step.after, width), step.note ?? ''];
+            }),
+        ]), '');
+    }
+
+    const start = (name: string) => initial[name] ?? device.registerMap[name]?.resetValue ?? 0;
+    out.push('Registers', table([
+        ['register', 'start', 'final', 'bits', ''],
+        ...Object.entries(report.registers).map(([name, value]) => {
+            const width = registerWidth(device, name);
+            return [name, hex(start(name), width), hex(value, width), value.toString(2).padStart(width, '0'),
+                value !== start(name) ? 'changed' : ''];
+        }),
+    ]));
+
+    if (report.assembly) out.push('', 'Instructions', formatAssembly(report.assembly, code));
+
+    // SREG and the CPU registers the answer left non-zero
+    if (report.cpu) {
+        const used = report.cpu.registers.flatMap((value, n) => value !== 0 ? [[`r${n}`, hex(value, 8), value.toString(2).padStart(8, '0'), '']] : []);
+        out.push('', 'CPU', table([
+            ['SREG', hex(report.cpu.sreg, 8), report.cpu.sreg.toString(2).padStart(8, '0'), 'ITHSVNZC'],
+            ...used,
+        ]));
+    }
+
+    // An assembly answer's registers are listed under CPU
+    const variables = Object.entries(report.variables);
+    if (variables.length > 0 && !report.cpu) {
+        out.push('', 'Variables', table(variables.map(([name, value]) => [name, String(value)])));
+    }
+
+    if (report.diagnostics.length > 0) out.push('');
+    for (const d of report.diagnostics) {
+        out.push(`${file}:${d.line}:${d.column}: ${d.severity}: ${d.message}${d.fix ? ` (${d.fix})` : ''}`);
+    }
+
+    if (report.differences && report.success) {
+        out.push('');
+        if (report.correct) out.push(`OK: matches ${expectFile}`);
+        for (const d of report.differences) {
+            const width = registerWidth(device, d.register);
+            out.push(d.unintended
+                ? `MISMATCH: ${d.register} changed from ${hex(start(d.register), width)} to ${hex(d.actual, width)} but is not in ${expectFile}`
+                : `MISMATCH: ${d.register} is ${hex(d.actual, width)}, expected ${hex(d.expected, width)}`);
+        }
+    }
+    return out.join('\n');
+}
+
+function main(argv: string[]): number {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                device: { type: 'string', default: 'atmega2560' },
+                atdf: { type: 'string', multiple: true, default: [] },
+                init: { type: 'string' },
+                set: { type: 'string', multiple: true, default: [] },
+                expect: { type: 'string' },
+                'bit-names': { type: 'string', default: 'warn' },
+                language: { type: 'string', default: 'c' },
+                asm: { type: 'boolean' },
+                format: { type: 'string', default: 'table' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (e: any) {
+        throw new UsageError(e.message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 1) throw new UsageError('expected one answer file');
+    if (values.format !== 'table' && values.format !== 'json') throw new UsageError(`--format ${values.format}: use table or json`);
+    const bitNameCheck = values['bit-names'] as BitNameCheck;
+    if (!BIT_NAME_CHECKS.includes(bitNameCheck)) throw new UsageError(`--bit-names ${bitNameCheck}: use ${BIT_NAME_CHECKS.join(', ')}`);
+    const language = values.language as AnswerLanguage;
+    if (!LANGUAGES.includes(language)) throw new UsageError(`--language ${language}: use ${LANGUAGES.join(' or ')}`);
+    if (values.asm && language === 'asm') throw new UsageError('--asm lists the instructions of a C answer; this answer is already assembly');
+
+    for (const file of values.atdf) {
+        try {
+            loadAtdfDevice(readText(file));
+        } catch (e: any) {
+            if (e instanceof UsageError) throw e;
+            throw new UsageError(`${file}: ${e.message}`);
+        }
+    }
+    const device = getDevice(values.device);
+    if (!device) throw new UsageError(`unknown device ${values.device}; known: ${devices.map(d => d.id).join(', ')}`);
+    // Anything that falls back to the active device sees the same one
+    setActiveDevice(device.id);
+
+    const file = positionals[0];
+    const code = readText(file);
+    const initial = { ...(values.init ? readStates(values.init, device) : {}), ...parseSettings(values.set, device) };
+
+    let report: Report;
+    if (values.expect) {
+        const expected = readStates(values.expect, device);
+        const [target] = Object.keys(expected);
+        if (!target) throw new UsageError(`${values.expect} lists no registers`);
+        const start = initial[target] ?? device.registerMap[target]?.resetValue ?? 0;
+        // The verdict is the grader's; the run is reported as without --expect
+        const check = checkAnswer(code, target, start, expected[target], device,
+            { bitNameCheck, language, initialStates: initial, expectedStates: expected });
+        const result = evaluate(code, initial, device, { bitNameCheck, language });
+        report = { ...toReport(device, result, initial), correct: check.correct, differences: check.differences };
+    } else {
+        report = toReport(device, evaluate(code, initial, device, { bitNameCheck, language }), initial);
+    }
+    if (values.asm) {
+        const assembly = compileAnswer(code, device);
+        if (assembly) report.assembly = assembly;
+    }
+
+    console.log(values.format === 'json'
+        ? JSON.stringify(report, null, 2)
+        : formatTable(report, device, initial, code, file === '-' ? '<stdin>' : file, values.expect));
+    return report.success && report.correct !== false ? 0 : 1;
+}
+
+run('mcu-eval', main);
@@ -0,0 +1,91 @@
+// mcu-grade — grade a CSV of student submissions against a question spec
+// file, offline, as the app would. Writes the results as CSV and as a
+// standalone HTML report.
+
+import { parseArgs } from 'node:util';
+import { loadAtdfDevice } from '../data/devices';
+import {
+    gradeSubmissions, parseQuestionSpecs, parseSubmissions, resultsToCsv, resultsToHtml,
+    type BatchQuestion, type Submission,
+} from '../engine/autograder';
+import { readText, run, UsageError, writeText } from './common';
+
+const USAGE = `Usage: mcu-grade <questions.json> <submissions.csv | -> [options]
+
+  --csv <file>     results, one row per submission (default results.csv)
+  --html <file>    HTML report (default report.html)
+  --title <text>   title of the HTML report
+  --atdf <file>    add a device from a Microchip .atdf file (repeatable)
+  -h, --help       show this help
+
+questions.json: {"device": "atmega328p", "questions": [{"id": "q1",
+  "register": "PORTB", "initialValue": "0x84", "sampleAnswer": "PORTB |= (1<<PB2);"}]}
+  Each question gives expectedValue or a sampleAnswer to take it from;
+  "language": "asm" grades AVR assembly answers.
+submissions.csv: a header row with the columns student, questionId and code.
+
+Exit status: 0 graded, 2 bad usage or input.`;
+
+function main(argv: string[]): number {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                csv: { type: 'string', default: 'results.csv' },
+                html: { type: 'string', default: 'report.html' },
+                title: { type: 'string' },
+                atdf: { type: 'string', multiple: true, default: [] },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (e: any) {
+        throw new UsageError(e.message);
+    }
+    const { values, positionals } = parsed;
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (positionals.length !== 2) throw new UsageError('expected a question spec file and a submissions CSV');
+    const [specFile, csvFile] = positionals;
+
+    for (const file of values.atdf) {
+        try {
+            loadAtdfDevice(readText(file));
+        } catch (e: any) {
+            if (e instanceof UsageError) throw e;
+            throw new UsageError(`${file}: ${e.message}`);
+        }
+    }
+
+    let questions: BatchQuestion[];
+    let submissions: Submission[];
+    try {
+        questions = parseQuestionSpecs(readText(specFile));
+    } catch (e: any) {
+        if (e instanceof UsageError) throw e;
+        throw new UsageError(`${specFile}: ${e.message}`);
+    }
+    try {
+        submissions = parseSubmissions(readText(csvFile));
+    } catch (e: any) {
+        if (e instanceof UsageError) throw e;
+        throw new UsageError(`${csvFile}: ${e.message}`);
+    }
+
+    const results = gradeSubmissions(questions, submissions);
+    writeText(values.csv, resultsToCsv(results));
+    writeText(values.html, resultsToHtml(results, questions, values.title));
+
+    const students = new Set(results.map(r => r.student)).size;
+    const correct = results.filter(r => r.correct).length;
+    const errors = results.filter(r => r.error).length;
+    console.log(`Graded ${results.length} submission${results.length === 1 ? '' : 's'} from ${students} student${students === 1 ? '' : 's'}: `
+        + `${correct} correct, ${results.length - correct} incorrect${errors ? ` (${errors} with errors)` : ''}`);
+    console.log(`Wrote ${values.csv} and ${values.html}`);
+    return 0;
+}
+
+run('mcu-grade', main);
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { atdfToDeviceProfile, parseAtdf } from './atdf';
+import xml from './__fixtures__/ATtiny13A.atdf?raw';
+
+describe('ATDF import', () => {
+  const atdf = parseAtdf(xml);
+  const device = atdfToDeviceProfile(atdf);
+
+  it('reads the device and places each register group at its instance', () => {
+    expect(atdf.name).toBe('ATtiny13A');
+    expect(atdf.instances.map(i => i.name)).toEqual(['PORTB', 'TC0', 'ADC']);
+    expect(device.id).toBe('atdf-attiny13a');
+    expect(device.registerMap.PORTB.dataAddress).toBe(0x38);
+    expect(device.registerMap.PORTB.ioAddress).toBe(0x18);
+  });
+
+  it('sizes the port from its mask and names the pins like avr-libc', () => {
+    expect(device.ports.map(p => p.name)).toEqual(['B']);
+    expect(device.ports[0].bits).toEqual(['PB0', 'PB1', 'PB2', 'PB3', 'PB4', 'PB5']);
+    expect(device.registerMap.PINB.toggles).toBe('PORTB');
+  });
+
+  it('splits multi-bit bitfields into numbered bits', () => {
+    const tccr0b = device.registerMap.TCCR0B;
+    expect(tccr0b.bits).toEqual(['CS00', 'CS01', 'CS02', 'WGM02', null, null, 'FOC0B', 'FOC0A']);
+    expect(tccr0b.access[7]).toBe('w');
+    expect(tccr0b.access[4]).toBe('reserved');
+    expect(device.registerMap.ADMUX.bits.slice(0, 2)).toEqual(['MUX0', 'MUX1']);
+  });
+
+  it('turns a size="2" register into a 16-bit register with L and H halves', () => {
+    const adc = device.registerMap.ADC;
+    expect(adc.width).toBe(16);
+    expect(adc.halves).toEqual({ low: 'ADCL', high: 'ADCH' });
+    expect(device.registerMap.ADCL.dataAddress).toBe(0x24);
+    expect(device.registerMap.ADCH.dataAddress).toBe(0x25);
+    // Only timer registers share a TEMP byte
+    expect(adc.temp).toBeUndefined();
+  });
+
+  it('names field settings from the value-group captions', () => {
+    const cs0 = device.fields.find(f => f.name === 'CS0')!;
+    expect(cs0.parts).toEqual([{ register: 'TCCR0B', lsb: 0, width: 3 }]);
+    expect(cs0.values).toContainEqual({ value: 3, name: 'Running, CLK/64' });
+    const mux = device.fields.find(f => f.name === 'MUX')!;
+    expect(mux.values.map(v => v.name)).toEqual(['ADC0 (PB5)', 'ADC1 (PB2)', 'ADC2 (PB4)', 'ADC3 (PB3)']);
+    // No value-group: the field still exists, without named settings
+    expect(device.fields.find(f => f.name === 'ADPS')?.values).toEqual([]);
+  });
+});
@@ -0,0 +1,316 @@
+// Microchip ATDF (Atmel Device File) loader.
+// Reads the XML device description shipped in Microchip device packs and
+// turns it into a DeviceProfile. Used both at build time (the vite plugin
+// imports *.atdf files as parsed JSON) and at runtime (the file picker).
+
+import { parseXml, childrenNamed, findFirst, type XmlElement } from './xml';
+import {
+  createDeviceProfile, createPort, dataReg, reg16,
+  type BitAccess, type DeviceProfile, type PortInfo, type RegisterInfo,
+} from './device';
+import type { FieldInfo, FieldPart } from './fields';
+
+export interface AtdfBitfield {
+  name: string;
+  caption: string;
+  mask: number;
+  rw: string;            // "RW", "R" or "W" ("" = inherit from the register)
+  values?: string;       // name of the module value-group enumerating this field
+}
+
+export interface AtdfRegister {
+  name: string;
+  caption: string;
+  offset: number;
+  size: number;          // bytes
+  initval: number;
+  mask: number | null;   // implemented bits, null = all
+  rw: string;
+  bitfields: AtdfBitfield[];
+}
+
+export interface AtdfRegisterGroup {
+  name: string;
+  caption: string;
+  registers: AtdfRegister[];
+}
+
+export interface AtdfValue {
+  name: string;
+  caption: string;
+  value: number;
+}
+
+export interface AtdfValueGroup {
+  name: string;
+  caption: string;
+  values: AtdfValue[];
+}
+
+export interface AtdfModule {
+  name: string;
+  caption: string;
+  registerGroups: AtdfRegisterGroup[];
+  valueGroups: AtdfValueGroup[];
+}
+
+// A peripheral instance: which register group of which module, and where
+export interface AtdfInstance {
+  name: string;
+  module: string;
+  registerGroup: string;
+  offset: number;
+}
+
+export interface AtdfDevice {
+  name: string;
+  architecture: string;
+  family: string;
+  modules: AtdfModule[];
+  instances: AtdfInstance[];
+}
+
+function num(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === '') return fallback;
+  const n = value.toLowerCase().startsWith('0x') ? parseInt(value, 16) : parseInt(value, 10);
+  return isNaN(n) ? fallback : n;
+}
+
+function parseModule(el: XmlElement): AtdfModule {
+  return {
+    name: el.attributes.name ?? '',
+    caption: el.attributes.caption ?? '',
+    registerGroups: childrenNamed(el, 'register-group').map(g => ({
+      name: g.attributes.name ?? '',
+      caption: g.attributes.caption ?? '',
+      registers: childrenNamed(g, 'register').map(r => ({
+        name: r.attributes.name ?? '',
+        caption: r.attributes.caption ?? '',
+        offset: num(r.attributes.offset, 0),
+        size: num(r.attributes.size, 1),
+        initval: num(r.attributes.initval, 0),
+        mask: r.attributes.mask !== undefined ? num(r.attributes.mask, 0xFF) : null,
+        rw: r.attributes.rw ?? '',
+        bitfields: childrenNamed(r, 'bitfield').map(b => ({
+          name: b.attributes.name ?? '',
+          caption: b.attributes.caption ?? '',
+          mask: num(b.attributes.mask, 0),
+          rw: b.attributes.rw ?? '',
+          ...(b.attributes.values ? { values: b.attributes.values } : {}),
+        })),
+      })),
+    })),
+    valueGroups: childrenNamed(el, 'value-group').map(g => ({
+      name: g.attributes.name ?? '',
+      caption: g.attributes.caption ?? '',
+      values: childrenNamed(g, 'value').map(v => ({
+        name: v.attributes.name ?? '',
+        caption: v.attributes.caption ?? '',
+        value: num(v.attributes.value, 0),
+      })),
+    })),
+  };
+}
+
+/**
+ * Parse the text of an .atdf file.
+ * Throws an Error if the XML is malformed or is not a device file.
+ */
+export function parseAtdf(xml: string): AtdfDevice {
+  const root = parseXml(xml);
+  if (root.name !== 'avr-tools-device-file') {
+    throw new Error(`Not an ATDF file (root element is <${root.name}>)`);
+  }
+
+  const device = findFirst(root, 'device');
+  if (!device) throw new Error('ATDF file has no <device> element');
+
+  const modulesEl = childrenNamed(root, 'modules')[0];
+  const modules = modulesEl ? childrenNamed(modulesEl, 'module').map(parseModule) : [];
+
+  const instances: AtdfInstance[] = [];
+  const peripherals = childrenNamed(device, 'peripherals')[0];
+  for (const mod of peripherals ? childrenNamed(peripherals, 'module') : []) {
+    for (const inst of childrenNamed(mod, 'instance')) {
+      for (const group of childrenNamed(inst, 'register-group')) {
+        instances.push({
+          name: inst.attributes.name ?? '',
+          module: mod.attributes.name ?? '',
+          registerGroup: group.attributes['name-in-module'] ?? group.attributes.name ?? '',
+          offset: num(group.attributes.offset, 0),
+        });
+      }
+    }
+  }
+
+  return {
+    name: device.attributes.name ?? 'Unknown device',
+    architecture: device.attributes.architecture ?? '',
+    family: device.attributes.family ?? '',
+    modules,
+    instances,
+  };
+}
+
+// ─── CONVERSION TO A DEVICE PROFILE ─────────────────────────────────────
+
+function accessOf(rw: string): BitAccess {
+  const up = rw.toUpperCase();
+  if (up === 'R') return 'r';
+  if (up === 'W') return 'w';
+  return 'rw';
+}
+
+function bitIndices(mask: number): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < 16; i++) {
+    if (mask & (1 << i)) out.push(i);
+  }
+  return out;
+}
+
+// Port registers carry no bitfields in ATDF files; name them like avr-libc
+function portBitName(register: string, bit: number): string | null {
+  const m = /^(PIN|DDR|PORT)([A-Z])$/.exec(register);
+  if (!m) return null;
+  const prefix = m[1] === 'PIN' ? `PIN${m[2]}` : m[1] === 'DDR' ? `DD${m[2]}` : `P${m[2]}`;
+  return `${prefix}${bit}`;
+}
+
+// Build an 8-bit RegisterInfo. Multi-bit fields become NAMEn bits (CS0 → CS00..CS02),
+// matching avr-libc. Bits outside every bitfield are reserved.
+function registerFromAtdf(r: AtdfRegister, address: number, group: string): RegisterInfo {
+  const info = dataReg(r.name, address, group, { reset: r.initval & 0xFF });
+  const implemented = r.mask ?? 0xFF;
+
+  if (r.bitfields.length === 0) {
+    for (let i = 0; i < 8; i++) {
+      if (!(implemented & (1 << i))) {
+        info.access[i] = 'reserved';
+      } else {
+        info.access[i] = accessOf(r.rw);
+        info.bits[i] = portBitName(r.name, i);
+      }
+    }
+    // Writing 1 to a PINx bit toggles PORTx, as on every port-based AVR
+    const pin = /^PIN([A-Z])$/.exec(r.name);
+    if (pin) info.toggles = `PORT${pin[1]}`;
+    return info;
+  }
+
+  info.access = Array(8).fill('reserved');
+  for (const field of r.bitfields) {
+    const indices = bitIndices(field.mask & 0xFF);
+    indices.forEach((bit, k) => {
+      info.bits[bit] = indices.length === 1 ? field.name : `${field.name}${k}`;
+      info.access[bit] = accessOf(field.rw || r.rw);
+    });
+  }
+  return info;
+}
+
+// A multi-bit bitfield becomes a FieldInfo; non-contiguous masks (e.g. WDP in
+// WDTCSR) give one part per run of adjacent bits. Values come from the
+// module's value-group, named by caption.
+function fieldFromAtdf(b: AtdfBitfield, register: string, group: string, mod: AtdfModule | undefined): FieldInfo | null {
+  const indices = bitIndices(b.mask & 0xFF);
+  if (indices.length < 2) return null;
+
+  const parts: FieldPart[] = [];
+  for (const bit of indices) {
+    const last = parts[parts.length - 1];
+    if (last && last.lsb + last.width === bit) {
+      last.width++;
+    } else {
+      parts.push({ register, lsb: bit, width: 1 });
+    }
+  }
+
+  const valueGroup = b.values ? mod?.valueGroups.find(g => g.name === b.values) : undefined;
+  return {
+    name: b.name,
+    caption: b.caption || b.name,
+    group,
+    parts,
+    width: indices.length,
+    values: (valueGroup?.values ?? []).map(v => ({ value: v.value, name: v.caption || v.name })),
+  };
+}
+
+/**
+ * Convert a parsed ATDF device into a DeviceProfile. Arduino pin numbers are
+ * not part of the ATDF format and can be supplied per port letter.
+ */
+export function atdfToDeviceProfile(
+  atdf: AtdfDevice,
+  opts: { board?: string; arduinoPins?: Record<string, (number | null)[]> } = {}
+): DeviceProfile {
+  const registers: RegisterInfo[] = [];
+  const fields: FieldInfo[] = [];
+  const seen = new Set<string>();
+  const ports: PortInfo[] = [];
+
+  // Use the device's peripheral instances when present; otherwise every register group at offset 0
+  const placements = atdf.instances.length > 0
+    ? atdf.instances
+    : atdf.modules.flatMap(m => m.registerGroups.map(g => ({ name: g.name, module: m.name, registerGroup: g.name, offset: 0 })));
+
+  for (const inst of placements) {
+    const mod = atdf.modules.find(m => m.name === inst.module);
+    const group = mod?.registerGroups.find(g => g.name === inst.registerGroup);
+    if (!group) continue;
+
+    for (const r of group.registers) {
+      if (seen.has(r.name)) continue;
+      seen.add(r.name);
+      const address = inst.offset + r.offset;
+
+      if (r.size === 2) {
+        // 16-bit timer registers go through the timer's TEMP byte
+        const temp = inst.module.startsWith('TC') ? inst.name : undefined;
+        registers.push(...reg16(r.name, address, inst.name, { reset: r.initval, temp }));
+      } else {
+        registers.push(registerFromAtdf(r, address, inst.name));
+        for (const b of r.bitfields) {
+          const f = fieldFromAtdf(b, r.name, inst.name, mod);
+          if (f) fields.push(f);
+        }
+      }
+
+      // PORTx registers define the port and its pin count
+      const portMatch = /^PORT([A-Z])$/.exec(r.name);
+      if (inst.module === 'PORT' && portMatch) {
+        const pins = Math.max(1, ...bitIndices((r.mask ?? 0xFF) & 0xFF).map(b => b + 1));
+        const letter = portMatch[1];
+        ports.push(createPort(letter, opts.arduinoPins?.[letter] ?? Array(pins).fill(null)));
+      }
+    }
+  }
+
+  if (registers.length === 0) {
+    throw new Error(`${atdf.name}: no registers found in the ATDF file`);
+  }
+  if (ports.length === 0) {
+    throw new Error(`${atdf.name}: no I/O ports found in the ATDF file`);
+  }
+
+  ports.sort((a, b) => a.name.localeCompare(b.name));
+  registers.sort((a, b) => a.dataAddress - b.dataAddress || a.width - b.width);
+
+  // Named-bit questions use peripheral registers with at least two writable named bits
+  const questionRegisters = registers
+    .filter(r => r.width === 8 && !r.group.startsWith('PORT') && r.group !== 'CPU')
+    .filter(r => r.bits.filter((b, i) => b !== null && r.access[i] === 'rw').length >= 2)
+    .map(r => r.name);
+
+  return createDeviceProfile({
+    id: `atdf-${atdf.name.toLowerCase()}`,
+    name: atdf.name,
+    board: opts.board ?? `${atdf.name} (ATDF)`,
+    ports,
+    commonPorts: ports.slice(0, 4).map(p => p.name),
+    registers,
+    fields,
+    questionRegisters,
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { evaluate } from '../engine/evaluator';
+import { generateQuestion } from '../engine/generator';
+import { atmega2560 } from './atmega2560';
+import { flagMask, formatAddress, writableMask } from './device';
+
+const { registerMap } = atmega2560;
+
+describe('ATmega2560 register metadata', () => {
+  it('places registers at their I/O and data space addresses', () => {
+    expect(registerMap.PORTB).toMatchObject({ dataAddress: 0x25, ioAddress: 0x05, width: 8 });
+    expect(registerMap.SREG).toMatchObject({ dataAddress: 0x5F, ioAddress: 0x3F });
+    // Extended I/O is reached with LDS/STS only
+    expect(registerMap.TCCR1B).toMatchObject({ dataAddress: 0x81, ioAddress: null });
+    expect(registerMap.PORTH.ioAddress).toBeNull();
+    expect(formatAddress(registerMap.PORTB.dataAddress)).toBe('0x25');
+  });
+
+  it('gives registers their datasheet reset values', () => {
+    expect(registerMap.PORTB.resetValue).toBe(0);
+    expect(registerMap.UCSR0A.resetValue).toBe(0x20);
+    expect(registerMap.TWSR.resetValue).toBe(0xF8);
+    expect(registerMap.SP.resetValue).toBe(0x21FF);
+  });
+
+  it('keeps access rights per bit, LSB first', () => {
+    expect(registerMap.TCCR0B.access).toEqual(['rw', 'rw', 'rw', 'rw', 'reserved', 'reserved', 'w', 'w']);
+    expect(registerMap.SPSR.access[7]).toBe('r');
+    expect(registerMap.TIFR0.bits.slice(0, 3)).toEqual(['TOV0', 'OCF0A', 'OCF0B']);
+  });
+
+  it('derives the writable and write-1-to-clear masks from the access rights', () => {
+    expect(writableMask(registerMap.PORTB)).toBe(0xFF);
+    expect(writableMask(registerMap.TCCR0B)).toBe(0xCF);
+    expect(writableMask(registerMap.TIFR0)).toBe(0);
+    expect(flagMask(registerMap.TIFR0)).toBe(0x07);
+    expect(flagMask(registerMap.ADCSRA)).toBe(1 << 4);
+  });
+
+  it('sizes each port to its physical pins', () => {
+    const portG = atmega2560.ports.find(p => p.name === 'G')!;
+    expect(portG.bits).toEqual(['PG0', 'PG1', 'PG2', 'PG3', 'PG4', 'PG5']);
+    expect(registerMap.PORTG.access.slice(6)).toEqual(['reserved', 'reserved']);
+  });
+});
+
+describe('ATmega2560 peripheral coverage', () => {
+  it.each([
+    ['TIMSK4', 0x72], ['TIFR5', 0x3A], ['TCCR5B', 0x121], ['OCR4C', 0xAC],
+    ['UCSR1B', 0xC9], ['UCSR3A', 0x130], ['UDR2', 0xD6],
+    ['TWCR', 0xBC], ['TWSR', 0xB9], ['PCICR', 0x68], ['PCMSK2', 0x6D],
+    ['EICRB', 0x6A], ['ADCSRB', 0x7B], ['DIDR2', 0x7D],
+  ])('places %s at its data space address', (name, address) => {
+    expect(registerMap[name]?.dataAddress).toBe(address);
+  });
+
+  it('names the bits labs use', () => {
+    expect(registerMap.ADCSRB.bits[3]).toBe('MUX5');
+    expect(registerMap.TWCR.bits[7]).toBe('TWINT');
+    expect(registerMap.PCMSK1.bits[0]).toBe('PCINT8');
+    expect(registerMap.TIMSK5.bits[5]).toBe('ICIE5');
+  });
+
+  it('evaluates lab code that uses them', () => {
+    const code = [
+      'TCCR4B = (1<<WGM42) | (1<<CS41);',
+      'TIMSK4 |= (1<<OCIE4A);',
+      'UCSR2B = (1<<RXEN2) | (1<<TXEN2);',
+      'PCICR |= (1<<PCIE2);',
+      'PCMSK2 |= (1<<PCINT18);',
+      'EICRB |= (1<<ISC41);',
+      'ADCSRB |= (1<<MUX5);',
+      'TWCR = (1<<TWINT) | (1<<TWSTA) | (1<<TWEN);',
+    ].join('\n');
+    const result = evaluate(code, {}, atmega2560);
+    expect(result.success).toBe(true);
+    expect(result.registerStates.TIMSK4).toBe(0x02);
+    expect(result.registerStates.ADCSRB).toBe(0x08);
+  });
+
+  it('asks named-bit questions about more than the first few registers', () => {
+    const asked = new Set<string>();
+    for (let i = 0; i < 200; i++) asked.add(generateQuestion(['named_bits'], 10, atmega2560).register);
+    expect(asked.size).toBeGreaterThan(15);
+  });
+});
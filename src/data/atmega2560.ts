@@ -1,20 +1,20 @@
-// ATmega2560 Register, Port, and Pin data for question generation
-
-export interface PortInfo {
-  name: string;       // e.g. "A"
-  ddr: string;        // e.g. "DDRA"
-  port: string;       // e.g. "PORTA"
-  pin: string;        // e.g. "PINA"
-  bits: string[];     // e.g. ["PA0","PA1",...,"PA7"]
-  ddrBits: string[];  // e.g. ["DDA0","DDA1",...,"DDA7"]
-  pinBits: string[];  // e.g. ["PINA0","PINA1",...,"PINA7"]
-  arduinoPins: (number | null)[]; // Arduino Mega pin numbers for bits 0-7
-}
+// ATmega2560 (Arduino Mega 2560) register, port and pin data.
+// Addresses, reset values and bit access rights from the datasheet
+// "Register Summary".
+
+import {
+  createDeviceProfile, createPort, reg, dataReg, reg16, bitRange, portRegisters,
+  timer16Registers, usartRegisters, type RegisterInfo,
+} from './device';
+import {
+  field, timer8Fields, timer16Fields, usartFields, asyncTimerClockSelect,
+  adcPrescaler, interruptSenseControl, spiClockRate, type FieldInfo,
+} from './fields';
 
 const portNames = ['A','B','C','D','E','F','G','H','J','K','L'] as const;
 
 // Arduino Mega 2560 pin mappings (bit index 0-7 for each port)
-// null = not directly exposed on Arduino headers
+// null = not directly exposed on Arduino headers. Port G only has 6 pins.
 const arduinoMappings: Record<string, (number | null)[]> = {
   A: [22, 23, 24, 25, 26, 27, 28, 29],
   B: [53, 52, 51, 50, 10, 11, 12, 13],
@@ -22,92 +22,188 @@ const arduinoMappings: Record<string, (number | null)[]> = {
   D: [21, 20, 19, 18, null, null, null, 38],
   E: [0, 1, null, 5, 2, 3, null, null],
   F: [54, 55, 56, 57, 58, 59, 60, 61], // A0-A7
-  G: [41, 40, 39, null, null, 4, null, null],
+  G: [41, 40, 39, null, null, 4],
   H: [17, 16, null, 6, 7, 8, 9, null],
   J: [15, 14, null, null, null, null, null, null],
   K: [62, 63, 64, 65, 66, 67, 68, 69], // A8-A15
   L: [49, 48, 47, 46, 45, 44, 43, 42],
 };
 
-export const ports: PortInfo[] = portNames.map(name => ({
-  name,
-  ddr: `DDR${name}`,
-  port: `PORT${name}`,
-  pin: `PIN${name}`,
-  bits: Array.from({length: 8}, (_, i) => `P${name}${i}`),
-  ddrBits: Array.from({length: 8}, (_, i) => `DD${name}${i}`),
-  pinBits: Array.from({length: 8}, (_, i) => `PIN${name}${i}`),
-  arduinoPins: arduinoMappings[name] || Array(8).fill(null),
-}));
-
-// Build a lookup of all register bit name → numeric value (0-7)
-export const bitNameMap: Record<string, number> = {};
-for (const port of ports) {
-  for (let i = 0; i < 8; i++) {
-    bitNameMap[port.bits[i]] = i;        // PA0=0, PA1=1, ...
-    bitNameMap[port.ddrBits[i]] = i;     // DDA0=0, DDA1=1, ...
-    bitNameMap[port.pinBits[i]] = i;     // PINA0=0, PINA1=1, ...
-  }
-}
-
-// Common named register bits from the ATmega2560 datasheet
-// These are used in exam/lab questions for configuring peripherals
-export const namedRegisterBits: Record<string, Record<string, number>> = {
-  // USART0
-  UCSR0A: { MPCM0: 0, U2X0: 1, UPE0: 2, DOR0: 3, FE0: 4, UDRE0: 5, TXC0: 6, RXC0: 7 },
-  UCSR0B: { TXB80: 0, RXB80: 1, UCSZ02: 2, TXEN0: 3, RXEN0: 4, UDRIE0: 5, TXCIE0: 6, RXCIE0: 7 },
-  UCSR0C: { UCPOL0: 0, UCSZ00: 1, UCSZ01: 2, USBS0: 3, UPM00: 4, UPM01: 5, UMSEL00: 6, UMSEL01: 7 },
-
-  // Timer/Counter 0
-  TCCR0A: { WGM00: 0, WGM01: 1, COM0B0: 4, COM0B1: 5, COM0A0: 6, COM0A1: 7 },
-  TCCR0B: { CS00: 0, CS01: 1, CS02: 2, WGM02: 3, FOC0B: 6, FOC0A: 7 },
-
-  // Timer/Counter 1
-  TCCR1A: { WGM10: 0, WGM11: 1, COM1C0: 2, COM1C1: 3, COM1B0: 4, COM1B1: 5, COM1A0: 6, COM1A1: 7 },
-  TCCR1B: { CS10: 0, CS11: 1, CS12: 2, WGM12: 3, WGM13: 4, ICES1: 6, ICNC1: 7 },
-
-  // Timer/Counter 3
-  TCCR3A: { WGM30: 0, WGM31: 1, COM3C0: 2, COM3C1: 3, COM3B0: 4, COM3B1: 5, COM3A0: 6, COM3A1: 7 },
-  TCCR3B: { CS30: 0, CS31: 1, CS32: 2, WGM32: 3, WGM33: 4, ICES3: 6, ICNC3: 7 },
-
-  // ADC
-  ADMUX:  { MUX0: 0, MUX1: 1, MUX2: 2, MUX3: 3, MUX4: 4, ADLAR: 5, REFS0: 6, REFS1: 7 },
-  ADCSRA: { ADPS0: 0, ADPS1: 1, ADPS2: 2, ADIE: 3, ADIF: 4, ADATE: 5, ADSC: 6, ADEN: 7 },
-
-  // SPI
-  SPCR: { SPR0: 0, SPR1: 1, CPHA: 2, CPOL: 3, MSTR: 4, DORD: 5, SPE: 6, SPIE: 7 },
-
-  // External Interrupts
-  EICRA: { ISC00: 0, ISC01: 1, ISC10: 2, ISC11: 3, ISC20: 4, ISC21: 5, ISC30: 6, ISC31: 7 },
-  EIMSK: { INT0: 0, INT1: 1, INT2: 2, INT3: 3, INT4: 4, INT5: 5, INT6: 6, INT7: 7 },
+// Data-space address of each port's PINx register (DDRx and PORTx follow)
+const portBase: Record<string, number> = {
+  A: 0x20, B: 0x23, C: 0x26, D: 0x29, E: 0x2C, F: 0x2F, G: 0x32,
+  H: 0x100, J: 0x103, K: 0x106, L: 0x109,
 };
 
-// Flatten all named bits for the evaluator
-export const allNamedBits: Record<string, number> = { ...bitNameMap };
-for (const regBits of Object.values(namedRegisterBits)) {
-  for (const [name, val] of Object.entries(regBits)) {
-    allNamedBits[name] = val;
-  }
-}
-
-// All register names (for validation)
-export const allRegisterNames = new Set<string>();
-for (const port of ports) {
-  allRegisterNames.add(port.ddr);
-  allRegisterNames.add(port.port);
-  allRegisterNames.add(port.pin);
-}
-for (const reg of Object.keys(namedRegisterBits)) {
-  allRegisterNames.add(reg);
-}
-
-// A nice helper to get a random port (for question generation)
-export function getRandomPort(): PortInfo {
-  // Prefer the commonly-used ports A-D for easier questions
-  return ports[Math.floor(Math.random() * ports.length)];
-}
-
-export function getCommonPort(): PortInfo {
-  const common = ports.filter(p => ['A','B','C','D'].includes(p.name));
-  return common[Math.floor(Math.random() * common.length)];
-}
+const registers: RegisterInfo[] = [
+  // I/O ports
+  ...portNames.flatMap(name => portRegisters(name, portBase[name], arduinoMappings[name].length)),
+
+  // CPU core
+  reg('SREG', 0x5F, 'CPU', ['SREG_I', 'SREG_T', 'SREG_H', 'SREG_S', 'SREG_V', 'SREG_N', 'SREG_Z', 'SREG_C']),
+  ...reg16('SP', 0x5D, 'CPU', { reset: 0x21FF }),
+  reg('EIND', 0x5C, 'CPU', [null, null, null, null, null, null, null, 'EIND0']),
+  reg('RAMPZ', 0x5B, 'CPU', bitRange('RAMPZ', 7, 0)),
+  reg('SPMCSR', 0x57, 'CPU', ['SPMIE', 'RWWSB', 'SIGRD', 'RWWSRE', 'BLBSET', 'PGWRT', 'PGERS', 'SPMEN'], { access: 'brbbbbbb' }),
+  reg('MCUCR', 0x55, 'CPU', ['JTD', null, null, 'PUD', null, null, 'IVSEL', 'IVCE']),
+  reg('MCUSR', 0x54, 'CPU', [null, null, null, 'JTRF', 'WDRF', 'BORF', 'EXTRF', 'PORF']),
+  reg('SMCR', 0x53, 'CPU', [null, null, null, null, 'SM2', 'SM1', 'SM0', 'SE']),
+  dataReg('OCDR', 0x51, 'JTAG'),
+  dataReg('GPIOR0', 0x3E, 'CPU'),
+  dataReg('GPIOR1', 0x4A, 'CPU'),
+  dataReg('GPIOR2', 0x4B, 'CPU'),
+
+  // Clock, power and watchdog
+  reg('WDTCSR', 0x60, 'WDT', ['WDIF', 'WDIE', 'WDP3', 'WDCE', 'WDE', 'WDP2', 'WDP1', 'WDP0']),
+  reg('CLKPR', 0x61, 'CPU', ['CLKPCE', null, null, null, 'CLKPS3', 'CLKPS2', 'CLKPS1', 'CLKPS0']),
+  reg('PRR0', 0x64, 'CPU', ['PRTWI', 'PRTIM2', 'PRTIM0', null, 'PRTIM1', 'PRSPI', 'PRUSART0', 'PRADC']),
+  reg('PRR1', 0x65, 'CPU', [null, null, 'PRTIM5', 'PRTIM4', 'PRTIM3', 'PRUSART3', 'PRUSART2', 'PRUSART1']),
+  dataReg('OSCCAL', 0x66, 'CPU'),
+
+  // External memory interface
+  reg('XMCRA', 0x74, 'XMEM', ['SRE', 'SRL2', 'SRL1', 'SRL0', 'SRW11', 'SRW10', 'SRW01', 'SRW00']),
+  reg('XMCRB', 0x75, 'XMEM', ['XMBK', null, null, null, null, 'XMM2', 'XMM1', 'XMM0']),
+
+  // EEPROM
+  reg('EECR', 0x3F, 'EEPROM', [null, null, 'EEPM1', 'EEPM0', 'EERIE', 'EEMPE', 'EEPE', 'EERE']),
+  dataReg('EEDR', 0x40, 'EEPROM'),
+  ...reg16('EEAR', 0x41, 'EEPROM', { access: '----bbbbbbbbbbbb' }),
+
+  // General timer control
+  reg('GTCCR', 0x43, 'CPU', ['TSM', null, null, null, null, null, 'PSRASY', 'PSRSYNC']),
+
+  // Timer/Counter 0 (8-bit)
+  reg('TCCR0A', 0x44, 'TC0', ['COM0A1', 'COM0A0', 'COM0B1', 'COM0B0', null, null, 'WGM01', 'WGM00']),
+  reg('TCCR0B', 0x45, 'TC0', ['FOC0A', 'FOC0B', null, null, 'WGM02', 'CS02', 'CS01', 'CS00'], { access: 'ww--bbbb' }),
+  dataReg('TCNT0', 0x46, 'TC0'),
+  dataReg('OCR0A', 0x47, 'TC0'),
+  dataReg('OCR0B', 0x48, 'TC0'),
+  reg('TIMSK0', 0x6E, 'TC0', [null, null, null, null, null, 'OCIE0B', 'OCIE0A', 'TOIE0']),
+  reg('TIFR0', 0x35, 'TC0', [null, null, null, null, null, 'OCF0B', 'OCF0A', 'TOV0'], { access: '-----ccc' }),
+
+  // Timer/Counter 2 (8-bit, asynchronous)
+  reg('TCCR2A', 0xB0, 'TC2', ['COM2A1', 'COM2A0', 'COM2B1', 'COM2B0', null, null, 'WGM21', 'WGM20']),
+  reg('TCCR2B', 0xB1, 'TC2', ['FOC2A', 'FOC2B', null, null, 'WGM22', 'CS22', 'CS21', 'CS20'], { access: 'ww--bbbb' }),
+  dataReg('TCNT2', 0xB2, 'TC2'),
+  dataReg('OCR2A', 0xB3, 'TC2'),
+  dataReg('OCR2B', 0xB4, 'TC2'),
+  reg('ASSR', 0xB6, 'TC2', [null, 'EXCLK', 'AS2', 'TCN2UB', 'OCR2AUB', 'OCR2BUB', 'TCR2AUB', 'TCR2BUB'], { access: '-bbrrrrr' }),
+  reg('TIMSK2', 0x70, 'TC2', [null, null, null, null, null, 'OCIE2B', 'OCIE2A', 'TOIE2']),
+  reg('TIFR2', 0x37, 'TC2', [null, null, null, null, null, 'OCF2B', 'OCF2A', 'TOV2'], { access: '-----ccc' }),
+
+  // Timer/Counter 1, 3, 4 and 5 (16-bit)
+  ...([[1, 0x80, 0x6F, 0x36], [3, 0x90, 0x71, 0x38], [4, 0xA0, 0x72, 0x39], [5, 0x120, 0x73, 0x3A]] as const)
+    .flatMap(([t, base, timsk, tifr]) => [
+      ...timer16Registers(t, base, 'ABC'),
+      reg(`TIMSK${t}`, timsk, `TC${t}`, [null, null, `ICIE${t}`, null, `OCIE${t}C`, `OCIE${t}B`, `OCIE${t}A`, `TOIE${t}`]),
+      reg(`TIFR${t}`, tifr, `TC${t}`, [null, null, `ICF${t}`, null, `OCF${t}C`, `OCF${t}B`, `OCF${t}A`, `TOV${t}`], { access: '--c-cccc' }),
+    ]),
+
+  // SPI
+  reg('SPCR', 0x4C, 'SPI', ['SPIE', 'SPE', 'DORD', 'MSTR', 'CPOL', 'CPHA', 'SPR1', 'SPR0']),
+  reg('SPSR', 0x4D, 'SPI', ['SPIF', 'WCOL', null, null, null, null, null, 'SPI2X'], { access: 'rr-----b' }),
+  dataReg('SPDR', 0x4E, 'SPI'),
+
+  // TWI
+  dataReg('TWBR', 0xB8, 'TWI'),
+  reg('TWSR', 0xB9, 'TWI', ['TWS7', 'TWS6', 'TWS5', 'TWS4', 'TWS3', null, 'TWPS1', 'TWPS0'], { reset: 0xF8, access: 'rrrrr-bb' }),
+  reg('TWAR', 0xBA, 'TWI', ['TWA6', 'TWA5', 'TWA4', 'TWA3', 'TWA2', 'TWA1', 'TWA0', 'TWGCE'], { reset: 0xFE }),
+  dataReg('TWDR', 0xBB, 'TWI', { reset: 0xFF }),
+  reg('TWCR', 0xBC, 'TWI', ['TWINT', 'TWEA', 'TWSTA', 'TWSTO', 'TWWC', 'TWEN', null, 'TWIE'], { access: 'cbbbrb-b' }),
+  reg('TWAMR', 0xBD, 'TWI', ['TWAM6', 'TWAM5', 'TWAM4', 'TWAM3', 'TWAM2', 'TWAM1', 'TWAM0', null]),
+
+  // Analog comparator
+  reg('ACSR', 0x50, 'AC', ['ACD', 'ACBG', 'ACO', 'ACI', 'ACIE', 'ACIC', 'ACIS1', 'ACIS0'], { access: 'bbrcbbbb' }),
+  reg('DIDR1', 0x7F, 'AC', [null, null, null, null, null, null, 'AIN1D', 'AIN0D']),
+
+  // External and pin change interrupts
+  reg('EIFR', 0x3C, 'EXINT', bitRange('INTF', 7, 0), { access: 'cccccccc' }),
+  reg('EIMSK', 0x3D, 'EXINT', bitRange('INT', 7, 0)),
+  reg('EICRA', 0x69, 'EXINT', ['ISC31', 'ISC30', 'ISC21', 'ISC20', 'ISC11', 'ISC10', 'ISC01', 'ISC00']),
+  reg('EICRB', 0x6A, 'EXINT', ['ISC71', 'ISC70', 'ISC61', 'ISC60', 'ISC51', 'ISC50', 'ISC41', 'ISC40']),
+  reg('PCIFR', 0x3B, 'EXINT', [null, null, null, null, null, 'PCIF2', 'PCIF1', 'PCIF0'], { access: '-----ccc' }),
+  reg('PCICR', 0x68, 'EXINT', [null, null, null, null, null, 'PCIE2', 'PCIE1', 'PCIE0']),
+  reg('PCMSK0', 0x6B, 'EXINT', bitRange('PCINT', 7, 0)),
+  reg('PCMSK1', 0x6C, 'EXINT', bitRange('PCINT', 15, 8)),
+  reg('PCMSK2', 0x6D, 'EXINT', bitRange('PCINT', 23, 16)),
+
+  // ADC — the result registers are read-only. MUX5 lives in ADCSRB.
+  ...reg16('ADC', 0x78, 'ADC', { access: 'rrrrrrrrrrrrrrrr' }),
+  reg('ADCSRA', 0x7A, 'ADC', ['ADEN', 'ADSC', 'ADATE', 'ADIF', 'ADIE', 'ADPS2', 'ADPS1', 'ADPS0'], { access: 'bbbcbbbb' }),
+  reg('ADCSRB', 0x7B, 'ADC', [null, 'ACME', null, null, 'MUX5', 'ADTS2', 'ADTS1', 'ADTS0']),
+  reg('ADMUX', 0x7C, 'ADC', ['REFS1', 'REFS0', 'ADLAR', 'MUX4', 'MUX3', 'MUX2', 'MUX1', 'MUX0']),
+  reg('DIDR0', 0x7E, 'ADC', bitRange('ADC', 7, 0).map(b => `${b}D`)),
+  reg('DIDR2', 0x7D, 'ADC', bitRange('ADC', 15, 8).map(b => `${b}D`)),
+
+  // USART0-3
+  ...usartRegisters(0, 0xC0),
+  ...usartRegisters(1, 0xC8),
+  ...usartRegisters(2, 0xD0),
+  ...usartRegisters(3, 0x130),
+];
+
+const fields: FieldInfo[] = [
+  ...timer8Fields(0),
+  ...timer16Fields(1, 'ABC'),
+  ...timer8Fields(2, asyncTimerClockSelect),
+  ...timer16Fields(3, 'ABC'),
+  ...timer16Fields(4, 'ABC'),
+  ...timer16Fields(5, 'ABC'),
+  ...[0, 1, 2, 3].flatMap(usartFields),
+  field('REFS', 'ADC voltage reference', 'ADC', [['ADMUX', 7, 6]], {
+    0: 'AREF',
+    1: 'AVCC',
+    2: 'internal 1.1V',
+    3: 'internal 2.56V',
+  }),
+  // Single-ended channels only; the differential gain combinations are left unnamed
+  field('MUX', 'ADC input channel', 'ADC', [['ADMUX', 4, 0], ['ADCSRB', 3, 3]], {
+    0: 'ADC0', 1: 'ADC1', 2: 'ADC2', 3: 'ADC3', 4: 'ADC4', 5: 'ADC5', 6: 'ADC6', 7: 'ADC7',
+    0x1E: '1.1V (VBG)',
+    0x1F: '0V (GND)',
+    0x20: 'ADC8', 0x21: 'ADC9', 0x22: 'ADC10', 0x23: 'ADC11',
+    0x24: 'ADC12', 0x25: 'ADC13', 0x26: 'ADC14', 0x27: 'ADC15',
+  }),
+  field('ADPS', 'ADC prescaler', 'ADC', [['ADCSRA', 2, 0]], adcPrescaler),
+  field('ADTS', 'ADC auto trigger source', 'ADC', [['ADCSRB', 2, 0]], {
+    0: 'free running', 1: 'analog comparator', 2: 'INT0', 3: 'Timer0 compare A',
+    4: 'Timer0 overflow', 5: 'Timer1 compare B', 6: 'Timer1 overflow', 7: 'Timer1 capture',
+  }),
+  field('SPR', 'SPI clock rate', 'SPI', [['SPCR', 1, 0]], spiClockRate),
+  field('TWPS', 'TWI prescaler', 'TWI', [['TWSR', 1, 0]], { 0: '1', 1: '4', 2: '16', 3: '64' }),
+  field('ISC0', 'INT0 sense control', 'EXINT', [['EICRA', 1, 0]], interruptSenseControl),
+  field('ISC1', 'INT1 sense control', 'EXINT', [['EICRA', 3, 2]], interruptSenseControl),
+  field('ISC2', 'INT2 sense control', 'EXINT', [['EICRA', 5, 4]], interruptSenseControl),
+  field('ISC3', 'INT3 sense control', 'EXINT', [['EICRA', 7, 6]], interruptSenseControl),
+  ...[4, 5, 6, 7].map(n => {
+    const lsb = (n - 4) * 2;
+    return field(`ISC${n}`, `INT${n} sense control`, 'EXINT', [['EICRB', lsb + 1, lsb]], interruptSenseControl);
+  }),
+  field('SM', 'Sleep mode', 'CPU', [['SMCR', 3, 1]], {
+    0: 'Idle', 1: 'ADC noise reduction', 2: 'Power-down', 3: 'Power-save', 6: 'Standby', 7: 'Extended standby',
+  }),
+];
+
+export const atmega2560 = createDeviceProfile({
+  id: 'atmega2560',
+  name: 'ATmega2560',
+  board: 'Arduino Mega 2560',
+  ports: portNames.map(name => createPort(name, arduinoMappings[name])),
+  commonPorts: ['A', 'B', 'C', 'D'],
+  registers,
+  fields,
+  questionRegisters: [
+    'UCSR0A', 'UCSR0B', 'UCSR0C',
+    'UCSR1B', 'UCSR1C', 'UCSR2B', 'UCSR2C', 'UCSR3B', 'UCSR3C',
+    'TCCR0A', 'TCCR0B', 'TIMSK0', 'TIFR0',
+    'TCCR1A', 'TCCR1B', 'TIMSK1', 'TIFR1',
+    'TCCR2A', 'TCCR2B', 'TIMSK2', 'ASSR',
+    'TCCR3A', 'TCCR3B', 'TIMSK3',
+    'TCCR4A', 'TCCR4B', 'TIMSK4',
+    'TCCR5A', 'TCCR5B', 'TIMSK5',
+    'ADMUX', 'ADCSRA', 'ADCSRB', 'DIDR0', 'DIDR2',
+    'SPCR', 'TWCR',
+    'EICRA', 'EICRB', 'EIMSK',
+    'PCICR', 'PCMSK0', 'PCMSK1', 'PCMSK2',
+  ],
+});
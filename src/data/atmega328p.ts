@@ -0,0 +1,163 @@
+// ATmega328P (Arduino Uno) register, port and pin data.
+// Addresses, reset values and bit access rights from the datasheet
+// "Register Summary".
+
+import {
+  createDeviceProfile, createPort, reg, dataReg, reg16, bitRange, portRegisters,
+  timer16Registers, usartRegisters, type RegisterInfo,
+} from './device';
+import {
+  field, timer8Fields, timer16Fields, usartFields, asyncTimerClockSelect,
+  adcPrescaler, interruptSenseControl, spiClockRate, type FieldInfo,
+} from './fields';
+
+// Arduino Uno pin mappings. PB6/PB7 carry the crystal and PC6 is RESET,
+// so they are not on the headers; port C only has 7 pins.
+const arduinoMappings: Record<string, (number | null)[]> = {
+  B: [8, 9, 10, 11, 12, 13, null, null],
+  C: [14, 15, 16, 17, 18, 19, null], // A0-A5
+  D: [0, 1, 2, 3, 4, 5, 6, 7],
+};
+
+const registers: RegisterInfo[] = [
+  // I/O ports
+  ...portRegisters('B', 0x23),
+  ...portRegisters('C', 0x26, 7),
+  ...portRegisters('D', 0x29),
+
+  // CPU core
+  reg('SREG', 0x5F, 'CPU', ['SREG_I', 'SREG_T', 'SREG_H', 'SREG_S', 'SREG_V', 'SREG_N', 'SREG_Z', 'SREG_C']),
+  ...reg16('SP', 0x5D, 'CPU', { reset: 0x08FF, access: '-----bbbbbbbbbbb' }),
+  reg('SPMCSR', 0x57, 'CPU', ['SPMIE', 'RWWSB', 'SIGRD', 'RWWSRE', 'BLBSET', 'PGWRT', 'PGERS', 'SPMEN'], { access: 'brbbbbbb' }),
+  reg('MCUCR', 0x55, 'CPU', [null, 'BODS', 'BODSE', 'PUD', null, null, 'IVSEL', 'IVCE']),
+  reg('MCUSR', 0x54, 'CPU', [null, null, null, null, 'WDRF', 'BORF', 'EXTRF', 'PORF']),
+  reg('SMCR', 0x53, 'CPU', [null, null, null, null, 'SM2', 'SM1', 'SM0', 'SE']),
+  dataReg('GPIOR0', 0x3E, 'CPU'),
+  dataReg('GPIOR1', 0x4A, 'CPU'),
+  dataReg('GPIOR2', 0x4B, 'CPU'),
+
+  // Clock, power and watchdog
+  reg('WDTCSR', 0x60, 'WDT', ['WDIF', 'WDIE', 'WDP3', 'WDCE', 'WDE', 'WDP2', 'WDP1', 'WDP0']),
+  reg('CLKPR', 0x61, 'CPU', ['CLKPCE', null, null, null, 'CLKPS3', 'CLKPS2', 'CLKPS1', 'CLKPS0']),
+  reg('PRR', 0x64, 'CPU', ['PRTWI', 'PRTIM2', 'PRTIM0', null, 'PRTIM1', 'PRSPI', 'PRUSART0', 'PRADC']),
+  dataReg('OSCCAL', 0x66, 'CPU'),
+
+  // EEPROM
+  reg('EECR', 0x3F, 'EEPROM', [null, null, 'EEPM1', 'EEPM0', 'EERIE', 'EEMPE', 'EEPE', 'EERE']),
+  dataReg('EEDR', 0x40, 'EEPROM'),
+  ...reg16('EEAR', 0x41, 'EEPROM', { access: '------bbbbbbbbbb' }),
+
+  // General timer control
+  reg('GTCCR', 0x43, 'CPU', ['TSM', null, null, null, null, null, 'PSRASY', 'PSRSYNC']),
+
+  // Timer/Counter 0 (8-bit)
+  reg('TCCR0A', 0x44, 'TC0', ['COM0A1', 'COM0A0', 'COM0B1', 'COM0B0', null, null, 'WGM01', 'WGM00']),
+  reg('TCCR0B', 0x45, 'TC0', ['FOC0A', 'FOC0B', null, null, 'WGM02', 'CS02', 'CS01', 'CS00'], { access: 'ww--bbbb' }),
+  dataReg('TCNT0', 0x46, 'TC0'),
+  dataReg('OCR0A', 0x47, 'TC0'),
+  dataReg('OCR0B', 0x48, 'TC0'),
+  reg('TIMSK0', 0x6E, 'TC0', [null, null, null, null, null, 'OCIE0B', 'OCIE0A', 'TOIE0']),
+  reg('TIFR0', 0x35, 'TC0', [null, null, null, null, null, 'OCF0B', 'OCF0A', 'TOV0'], { access: '-----ccc' }),
+
+  // Timer/Counter 1 (16-bit)
+  ...timer16Registers(1, 0x80, 'AB'),
+  reg('TIMSK1', 0x6F, 'TC1', [null, null, 'ICIE1', null, null, 'OCIE1B', 'OCIE1A', 'TOIE1']),
+  reg('TIFR1', 0x36, 'TC1', [null, null, 'ICF1', null, null, 'OCF1B', 'OCF1A', 'TOV1'], { access: '--c--ccc' }),
+
+  // Timer/Counter 2 (8-bit, asynchronous)
+  reg('TCCR2A', 0xB0, 'TC2', ['COM2A1', 'COM2A0', 'COM2B1', 'COM2B0', null, null, 'WGM21', 'WGM20']),
+  reg('TCCR2B', 0xB1, 'TC2', ['FOC2A', 'FOC2B', null, null, 'WGM22', 'CS22', 'CS21', 'CS20'], { access: 'ww--bbbb' }),
+  dataReg('TCNT2', 0xB2, 'TC2'),
+  dataReg('OCR2A', 0xB3, 'TC2'),
+  dataReg('OCR2B', 0xB4, 'TC2'),
+  reg('ASSR', 0xB6, 'TC2', [null, 'EXCLK', 'AS2', 'TCN2UB', 'OCR2AUB', 'OCR2BUB', 'TCR2AUB', 'TCR2BUB'], { access: '-bbrrrrr' }),
+  reg('TIMSK2', 0x70, 'TC2', [null, null, null, null, null, 'OCIE2B', 'OCIE2A', 'TOIE2']),
+  reg('TIFR2', 0x37, 'TC2', [null, null, null, null, null, 'OCF2B', 'OCF2A', 'TOV2'], { access: '-----ccc' }),
+
+  // SPI
+  reg('SPCR', 0x4C, 'SPI', ['SPIE', 'SPE', 'DORD', 'MSTR', 'CPOL', 'CPHA', 'SPR1', 'SPR0']),
+  reg('SPSR', 0x4D, 'SPI', ['SPIF', 'WCOL', null, null, null, null, null, 'SPI2X'], { access: 'rr-----b' }),
+  dataReg('SPDR', 0x4E, 'SPI'),
+
+  // TWI
+  dataReg('TWBR', 0xB8, 'TWI'),
+  reg('TWSR', 0xB9, 'TWI', ['TWS7', 'TWS6', 'TWS5', 'TWS4', 'TWS3', null, 'TWPS1', 'TWPS0'], { reset: 0xF8, access: 'rrrrr-bb' }),
+  reg('TWAR', 0xBA, 'TWI', ['TWA6', 'TWA5', 'TWA4', 'TWA3', 'TWA2', 'TWA1', 'TWA0', 'TWGCE'], { reset: 0xFE }),
+  dataReg('TWDR', 0xBB, 'TWI', { reset: 0xFF }),
+  reg('TWCR', 0xBC, 'TWI', ['TWINT', 'TWEA', 'TWSTA', 'TWSTO', 'TWWC', 'TWEN', null, 'TWIE'], { access: 'cbbbrb-b' }),
+  reg('TWAMR', 0xBD, 'TWI', ['TWAM6', 'TWAM5', 'TWAM4', 'TWAM3', 'TWAM2', 'TWAM1', 'TWAM0', null]),
+
+  // Analog comparator
+  reg('ACSR', 0x50, 'AC', ['ACD', 'ACBG', 'ACO', 'ACI', 'ACIE', 'ACIC', 'ACIS1', 'ACIS0'], { access: 'bbrcbbbb' }),
+  reg('DIDR1', 0x7F, 'AC', [null, null, null, null, null, null, 'AIN1D', 'AIN0D']),
+
+  // External and pin change interrupts
+  reg('EIFR', 0x3C, 'EXINT', [null, null, null, null, null, null, 'INTF1', 'INTF0'], { access: '------cc' }),
+  reg('EIMSK', 0x3D, 'EXINT', [null, null, null, null, null, null, 'INT1', 'INT0']),
+  reg('EICRA', 0x69, 'EXINT', [null, null, null, null, 'ISC11', 'ISC10', 'ISC01', 'ISC00']),
+  reg('PCIFR', 0x3B, 'EXINT', [null, null, null, null, null, 'PCIF2', 'PCIF1', 'PCIF0'], { access: '-----ccc' }),
+  reg('PCICR', 0x68, 'EXINT', [null, null, null, null, null, 'PCIE2', 'PCIE1', 'PCIE0']),
+  reg('PCMSK0', 0x6B, 'EXINT', bitRange('PCINT', 7, 0)),
+  reg('PCMSK1', 0x6C, 'EXINT', [null, ...bitRange('PCINT', 14, 8)]),
+  reg('PCMSK2', 0x6D, 'EXINT', bitRange('PCINT', 23, 16)),
+
+  // ADC — the result registers are read-only
+  ...reg16('ADC', 0x78, 'ADC', { access: 'rrrrrrrrrrrrrrrr' }),
+  reg('ADCSRA', 0x7A, 'ADC', ['ADEN', 'ADSC', 'ADATE', 'ADIF', 'ADIE', 'ADPS2', 'ADPS1', 'ADPS0'], { access: 'bbbcbbbb' }),
+  reg('ADCSRB', 0x7B, 'ADC', [null, 'ACME', null, null, null, 'ADTS2', 'ADTS1', 'ADTS0']),
+  reg('ADMUX', 0x7C, 'ADC', ['REFS1', 'REFS0', 'ADLAR', null, 'MUX3', 'MUX2', 'MUX1', 'MUX0']),
+  reg('DIDR0', 0x7E, 'ADC', [null, null, 'ADC5D', 'ADC4D', 'ADC3D', 'ADC2D', 'ADC1D', 'ADC0D']),
+
+  // USART0
+  ...usartRegisters(0, 0xC0),
+];
+
+const fields: FieldInfo[] = [
+  ...timer8Fields(0),
+  ...timer16Fields(1, 'AB'),
+  ...timer8Fields(2, asyncTimerClockSelect),
+  ...usartFields(0),
+  field('REFS', 'ADC voltage reference', 'ADC', [['ADMUX', 7, 6]], {
+    0: 'AREF',
+    1: 'AVCC',
+    3: 'internal 1.1V',
+  }),
+  field('MUX', 'ADC input channel', 'ADC', [['ADMUX', 3, 0]], {
+    0: 'ADC0', 1: 'ADC1', 2: 'ADC2', 3: 'ADC3', 4: 'ADC4', 5: 'ADC5', 6: 'ADC6', 7: 'ADC7',
+    8: 'temperature sensor',
+    14: '1.1V (VBG)',
+    15: '0V (GND)',
+  }),
+  field('ADPS', 'ADC prescaler', 'ADC', [['ADCSRA', 2, 0]], adcPrescaler),
+  field('ADTS', 'ADC auto trigger source', 'ADC', [['ADCSRB', 2, 0]], {
+    0: 'free running', 1: 'analog comparator', 2: 'INT0', 3: 'Timer0 compare A',
+    4: 'Timer0 overflow', 5: 'Timer1 compare B', 6: 'Timer1 overflow', 7: 'Timer1 capture',
+  }),
+  field('SPR', 'SPI clock rate', 'SPI', [['SPCR', 1, 0]], spiClockRate),
+  field('TWPS', 'TWI prescaler', 'TWI', [['TWSR', 1, 0]], { 0: '1', 1: '4', 2: '16', 3: '64' }),
+  field('ISC0', 'INT0 sense control', 'EXINT', [['EICRA', 1, 0]], interruptSenseControl),
+  field('ISC1', 'INT1 sense control', 'EXINT', [['EICRA', 3, 2]], interruptSenseControl),
+  field('SM', 'Sleep mode', 'CPU', [['SMCR', 3, 1]], {
+    0: 'Idle', 1: 'ADC noise reduction', 2: 'Power-down', 3: 'Power-save', 6: 'Standby', 7: 'Extended standby',
+  }),
+];
+
+export const atmega328p = createDeviceProfile({
+  id: 'atmega328p',
+  name: 'ATmega328P',
+  board: 'Arduino Uno',
+  ports: ['B', 'C', 'D'].map(name => createPort(name, arduinoMappings[name])),
+  commonPorts: ['B', 'C', 'D'],
+  registers,
+  fields,
+  questionRegisters: [
+    'UCSR0A', 'UCSR0B', 'UCSR0C',
+    'TCCR0A', 'TCCR0B',
+    'TCCR1A', 'TCCR1B',
+    'TCCR2A', 'TCCR2B',
+    'TIMSK0', 'TIMSK1', 'TIMSK2',
+    'ADMUX', 'ADCSRA',
+    'SPCR', 'TWCR',
+    'EICRA', 'EIMSK', 'PCICR',
+  ],
+});
@@ -0,0 +1,135 @@
+// ATtiny85 register, port and pin data.
+// Addresses, reset values and bit access rights from the datasheet
+// "Register Summary". Every register sits in the I/O space.
+
+import {
+  createDeviceProfile, createPort, reg, dataReg, reg16, portRegisters,
+  type RegisterInfo,
+} from './device';
+import {
+  field, timer8Fields, compareOutputModes, adcPrescaler, interruptSenseControl, type FieldInfo,
+} from './fields';
+
+// ATtiny core pin numbering: digital pin n = PBn. PB5 is RESET unless
+// the RSTDISBL fuse is programmed, so it is left off the headers.
+const arduinoMappings: Record<string, (number | null)[]> = {
+  B: [0, 1, 2, 3, 4, null],
+};
+
+const registers: RegisterInfo[] = [
+  // I/O port
+  ...portRegisters('B', 0x36, 6),
+
+  // CPU core
+  reg('SREG', 0x5F, 'CPU', ['SREG_I', 'SREG_T', 'SREG_H', 'SREG_S', 'SREG_V', 'SREG_N', 'SREG_Z', 'SREG_C']),
+  ...reg16('SP', 0x5D, 'CPU', { reset: 0x025F, access: '------bbbbbbbbbb' }),
+  reg('SPMCSR', 0x57, 'CPU', [null, null, 'RSIG', 'CTPB', 'RFLB', 'PGWRT', 'PGERS', 'SPMEN']),
+  reg('MCUCR', 0x55, 'CPU', ['BODS', 'PUD', 'SE', 'SM1', 'SM0', 'BODSE', 'ISC01', 'ISC00']),
+  reg('MCUSR', 0x54, 'CPU', [null, null, null, null, 'WDRF', 'BORF', 'EXTRF', 'PORF']),
+  dataReg('OSCCAL', 0x51, 'CPU'),
+  reg('CLKPR', 0x46, 'CPU', ['CLKPCE', null, null, null, 'CLKPS3', 'CLKPS2', 'CLKPS1', 'CLKPS0']),
+  reg('PRR', 0x40, 'CPU', [null, null, null, null, 'PRTIM1', 'PRTIM0', 'PRUSI', 'PRADC']),
+  dataReg('GPIOR0', 0x31, 'CPU'),
+  dataReg('GPIOR1', 0x32, 'CPU'),
+  dataReg('GPIOR2', 0x33, 'CPU'),
+  dataReg('DWDR', 0x42, 'CPU'),
+
+  // Watchdog
+  reg('WDTCR', 0x41, 'WDT', ['WDIF', 'WDIE', 'WDP3', 'WDCE', 'WDE', 'WDP2', 'WDP1', 'WDP0']),
+
+  // EEPROM
+  reg('EECR', 0x3C, 'EEPROM', [null, null, 'EEPM1', 'EEPM0', 'EERIE', 'EEMPE', 'EEPE', 'EERE']),
+  dataReg('EEDR', 0x3D, 'EEPROM'),
+  ...reg16('EEAR', 0x3E, 'EEPROM', { access: '-------bbbbbbbbb' }),
+
+  // Interrupts
+  reg('GIMSK', 0x5B, 'EXINT', [null, 'INT0', 'PCIE', null, null, null, null, null]),
+  reg('GIFR', 0x5A, 'EXINT', [null, 'INTF0', 'PCIF', null, null, null, null, null], { access: '-cc-----' }),
+  reg('PCMSK', 0x35, 'EXINT', [null, null, 'PCINT5', 'PCINT4', 'PCINT3', 'PCINT2', 'PCINT1', 'PCINT0']),
+
+  // Timer/Counter 0 and 1 share the interrupt mask/flag registers
+  reg('TIMSK', 0x59, 'TC', [null, 'OCIE1A', 'OCIE1B', 'OCIE0A', 'OCIE0B', 'TOIE1', 'TOIE0', null]),
+  reg('TIFR', 0x58, 'TC', [null, 'OCF1A', 'OCF1B', 'OCF0A', 'OCF0B', 'TOV1', 'TOV0', null], { access: '-cccccc-' }),
+  reg('GTCCR', 0x4C, 'TC', ['TSM', 'PWM1B', 'COM1B1', 'COM1B0', 'FOC1B', 'FOC1A', 'PSR1', 'PSR0'], { access: 'bbbbwwbb' }),
+
+  // Timer/Counter 0 (8-bit)
+  reg('TCCR0A', 0x4A, 'TC0', ['COM0A1', 'COM0A0', 'COM0B1', 'COM0B0', null, null, 'WGM01', 'WGM00']),
+  reg('TCCR0B', 0x53, 'TC0', ['FOC0A', 'FOC0B', null, null, 'WGM02', 'CS02', 'CS01', 'CS00'], { access: 'ww--bbbb' }),
+  dataReg('TCNT0', 0x52, 'TC0'),
+  dataReg('OCR0A', 0x49, 'TC0'),
+  dataReg('OCR0B', 0x48, 'TC0'),
+
+  // Timer/Counter 1 (8-bit, high speed)
+  reg('TCCR1', 0x50, 'TC1', ['CTC1', 'PWM1A', 'COM1A1', 'COM1A0', 'CS13', 'CS12', 'CS11', 'CS10']),
+  dataReg('TCNT1', 0x4F, 'TC1'),
+  dataReg('OCR1A', 0x4E, 'TC1'),
+  dataReg('OCR1B', 0x4B, 'TC1'),
+  dataReg('OCR1C', 0x4D, 'TC1', { reset: 0xFF }),
+  reg('PLLCSR', 0x47, 'TC1', ['LSM', null, null, null, null, 'PCKE', 'PLLE', 'PLOCK'], { access: 'b----bbr' }),
+  dataReg('DT1A', 0x45, 'TC1'),
+  dataReg('DT1B', 0x44, 'TC1'),
+  reg('DTPS1', 0x43, 'TC1', [null, null, null, null, null, null, 'DTPS11', 'DTPS10']),
+
+  // USI
+  dataReg('USIBR', 0x30, 'USI', { access: 'rrrrrrrr' }),
+  dataReg('USIDR', 0x2F, 'USI'),
+  reg('USISR', 0x2E, 'USI', ['USISIF', 'USIOIF', 'USIPF', 'USIDC', 'USICNT3', 'USICNT2', 'USICNT1', 'USICNT0'], { access: 'bbbrbbbb' }),
+  reg('USICR', 0x2D, 'USI', ['USISIE', 'USIOIE', 'USIWM1', 'USIWM0', 'USICS1', 'USICS0', 'USICLK', 'USITC'], { access: 'bbbbbbww' }),
+
+  // Analog comparator
+  reg('ACSR', 0x28, 'AC', ['ACD', 'ACBG', 'ACO', 'ACI', 'ACIE', null, 'ACIS1', 'ACIS0'], { access: 'bbrcb-bb' }),
+
+  // ADC — the result registers are read-only
+  ...reg16('ADC', 0x24, 'ADC', { access: 'rrrrrrrrrrrrrrrr' }),
+  reg('ADCSRA', 0x26, 'ADC', ['ADEN', 'ADSC', 'ADATE', 'ADIF', 'ADIE', 'ADPS2', 'ADPS1', 'ADPS0'], { access: 'bbbcbbbb' }),
+  reg('ADCSRB', 0x23, 'ADC', ['BIN', 'ACME', 'IPR', null, null, 'ADTS2', 'ADTS1', 'ADTS0']),
+  reg('ADMUX', 0x27, 'ADC', ['REFS1', 'REFS0', 'ADLAR', 'REFS2', 'MUX3', 'MUX2', 'MUX1', 'MUX0']),
+  reg('DIDR0', 0x34, 'ADC', [null, null, 'ADC0D', 'ADC2D', 'ADC3D', 'ADC1D', 'AIN1D', 'AIN0D']),
+];
+
+// Timer1 prescaler CS13:0 — each step doubles the division: 1 → /1 … 15 → /16384
+const timer1ClockSelect: Record<number, string> = { 0: 'stopped' };
+for (let v = 1; v <= 15; v++) {
+  timer1ClockSelect[v] = `clk/${1 << (v - 1)}`;
+}
+
+const fields: FieldInfo[] = [
+  ...timer8Fields(0),
+  field('CS1', 'Timer1 prescaler', 'TC1', [['TCCR1', 3, 0]], timer1ClockSelect),
+  field('COM1A', 'Timer1 compare output mode A', 'TC1', [['TCCR1', 5, 4]], compareOutputModes),
+  field('COM1B', 'Timer1 compare output mode B', 'TC1', [['GTCCR', 5, 4]], compareOutputModes),
+  // REFS2 sits below ADLAR, so the field has two parts in the same register
+  field('REFS', 'ADC voltage reference', 'ADC', [['ADMUX', 7, 6], ['ADMUX', 4, 4]], {
+    0: 'VCC',
+    1: 'AREF (PB0)',
+    2: 'internal 1.1V',
+    6: 'internal 2.56V',
+    7: 'internal 2.56V with AREF capacitor',
+  }),
+  field('MUX', 'ADC input channel', 'ADC', [['ADMUX', 3, 0]], {
+    0: 'ADC0 (PB5)', 1: 'ADC1 (PB2)', 2: 'ADC2 (PB4)', 3: 'ADC3 (PB3)',
+    12: '1.1V (VBG)',
+    13: '0V (GND)',
+    15: 'temperature sensor',
+  }),
+  field('ADPS', 'ADC prescaler', 'ADC', [['ADCSRA', 2, 0]], adcPrescaler),
+  field('ISC0', 'INT0 sense control', 'EXINT', [['MCUCR', 1, 0]], interruptSenseControl),
+  field('SM', 'Sleep mode', 'CPU', [['MCUCR', 4, 3]], { 0: 'Idle', 1: 'ADC noise reduction', 2: 'Power-down' }),
+  field('USIWM', 'USI wire mode', 'USI', [['USICR', 5, 4]], { 0: 'disabled', 1: 'three-wire', 2: 'two-wire', 3: 'two-wire, SCL held low' }),
+];
+
+export const attiny85 = createDeviceProfile({
+  id: 'attiny85',
+  name: 'ATtiny85',
+  board: 'ATtiny85 (Digispark / ATtiny core)',
+  ports: [createPort('B', arduinoMappings.B)],
+  commonPorts: ['B'],
+  registers,
+  fields,
+  questionRegisters: [
+    'TCCR0A', 'TCCR0B', 'TCCR1', 'GTCCR',
+    'TIMSK', 'GIMSK', 'PCMSK',
+    'ADMUX', 'ADCSRA',
+    'USICR', 'MCUCR',
+  ],
+});
@@ -0,0 +1,317 @@
+// Device profiles — the register, bit and pin data for one microcontroller.
+// Chip files (atmega2560.ts, atmega328p.ts, attiny85.ts) declare their
+// registers with the builders below and wrap them with createDeviceProfile.
+
+import type { FieldInfo } from './fields';
+
+export interface PortInfo {
+  name: string;       // e.g. "A"
+  ddr: string;        // e.g. "DDRA"
+  port: string;       // e.g. "PORTA"
+  pin: string;        // e.g. "PINA"
+  bits: string[];     // e.g. ["PA0","PA1",...,"PA7"] — one entry per physical pin
+  ddrBits: string[];  // e.g. ["DDA0","DDA1",...,"DDA7"]
+  pinBits: string[];  // e.g. ["PINA0","PINA1",...,"PINA7"]
+  arduinoPins: (number | null)[]; // Arduino pin numbers per bit (null = not on the headers)
+}
+
+// 'w1c' = a flag that reads normally and is cleared by writing 1 to it
+export type BitAccess = 'rw' | 'r' | 'w' | 'w1c' | 'reserved';
+
+export interface RegisterInfo {
+  name: string;              // e.g. "PORTB"
+  group: string;             // peripheral / module, e.g. "PORTB", "TC1", "USART0"
+  ioAddress: number | null;  // I/O space address (IN/OUT), null = extended I/O (LDS/STS only)
+  dataAddress: number;       // data space address, e.g. 0x25 for PORTB
+  width: 8 | 16;
+  resetValue: number;
+  bits: (string | null)[];   // bit names, index 0 = LSB (null = unnamed or reserved)
+  access: BitAccess[];       // access rights per bit, index 0 = LSB
+  halves?: { low: string; high: string }; // 16-bit registers: the 8-bit halves
+  // 16-bit timer registers share a TEMP byte per timer: writing the high half
+  // only fills TEMP, and the low-half write commits TEMP:low in one cycle
+  temp?: string;
+  // PINx: writing a 1 to a bit toggles that bit of this register (PORTx)
+  toggles?: string;
+}
+
+export interface DeviceProfile {
+  id: string;                 // e.g. "atmega2560"
+  name: string;               // e.g. "ATmega2560"
+  board: string;              // e.g. "Arduino Mega 2560"
+  ports: PortInfo[];
+  commonPorts: PortInfo[];    // ports used for the easier GPIO questions
+  registers: RegisterInfo[];
+  registerMap: Record<string, RegisterInfo>;
+  fields: FieldInfo[];        // multi-bit fields (prescalers, modes, mux selects)
+  // Peripheral registers used for named-bit questions → their bit names
+  namedRegisterBits: Record<string, Record<string, number>>;
+  // Every named bit on the device (for the evaluator)
+  allNamedBits: Record<string, number>;
+  // Named bit → registers that define it
+  bitOwners: Record<string, string[]>;
+  allRegisterNames: Set<string>;
+}
+
+// ─── REGISTER BUILDERS ──────────────────────────────────────────────────
+
+// Access spec characters, written MSB first like the datasheet tables:
+// 'b' = R/W, 'r' = read-only, 'w' = write-only, 'c' = write 1 to clear, '-' = reserved
+const accessCodes: Record<string, BitAccess> = { b: 'rw', r: 'r', w: 'w', c: 'w1c', '-': 'reserved' };
+
+function ioAddressFor(dataAddress: number): number | null {
+  return dataAddress < 0x60 ? dataAddress - 0x20 : null;
+}
+
+// Declare an 8-bit register. `bits` is MSB first (bit 7 … bit 0), null = reserved.
+// Named bits default to R/W and null bits to reserved unless `access` is given.
+export function reg(
+  name: string,
+  dataAddress: number,
+  group: string,
+  bits: (string | null)[],
+  opts: { reset?: number; access?: string } = {}
+): RegisterInfo {
+  const lsbFirst = [...bits].reverse();
+  const access = opts.access
+    ? opts.access.split('').reverse().map(c => accessCodes[c])
+    : lsbFirst.map(b => (b === null ? 'reserved' : 'rw') as BitAccess);
+  return {
+    name,
+    group,
+    ioAddress: ioAddressFor(dataAddress),
+    dataAddress,
+    width: 8,
+    resetValue: opts.reset ?? 0,
+    bits: lsbFirst,
+    access,
+  };
+}
+
+// Declare a plain 8-bit data register (no individually named bits)
+export function dataReg(name: string, dataAddress: number, group: string, opts: { reset?: number; access?: string } = {}): RegisterInfo {
+  return reg(name, dataAddress, group, Array(8).fill(null), { reset: opts.reset, access: opts.access ?? 'bbbbbbbb' });
+}
+
+// Declare a 16-bit register pair: NAME = NAMEH:NAMEL (low byte at the lower address)
+export function reg16(
+  name: string,
+  dataAddress: number,
+  group: string,
+  opts: { reset?: number; access?: string; low?: string; high?: string; temp?: string } = {}
+): RegisterInfo[] {
+  const low = opts.low ?? `${name}L`;
+  const high = opts.high ?? `${name}H`;
+  const reset = opts.reset ?? 0;
+  const access = opts.access ?? 'bbbbbbbbbbbbbbbb';
+  const lowReg = dataReg(low, dataAddress, group, { reset: reset & 0xFF, access: access.substring(8) });
+  const highReg = dataReg(high, dataAddress + 1, group, { reset: (reset >> 8) & 0xFF, access: access.substring(0, 8) });
+  return [
+    lowReg,
+    highReg,
+    {
+      name,
+      group,
+      ioAddress: ioAddressFor(dataAddress),
+      dataAddress,
+      width: 16,
+      resetValue: reset,
+      bits: Array(16).fill(null),
+      access: [...lowReg.access, ...highReg.access],
+      halves: { low, high },
+      ...(opts.temp ? { temp: opts.temp } : {}),
+    },
+  ];
+}
+
+// Bit names PREFIXhi … PREFIXlo, MSB first
+export const bitRange = (prefix: string, hi: number, lo: number) =>
+  Array.from({ length: hi - lo + 1 }, (_, i) => `${prefix}${hi - i}`);
+
+// PINx, DDRx, PORTx for a port whose PIN register sits at `pinAddress`.
+// Writing a 1 to a PINx bit toggles the PORTx bit.
+export function portRegisters(name: string, pinAddress: number, pins: number = 8): RegisterInfo[] {
+  const named = (prefix: string) =>
+    Array.from({ length: 8 }, (_, i) => (7 - i < pins ? `${prefix}${7 - i}` : null));
+  const group = `PORT${name}`;
+  return [
+    { ...reg(`PIN${name}`, pinAddress, group, named(`PIN${name}`)), toggles: `PORT${name}` },
+    reg(`DDR${name}`, pinAddress + 1, group, named(`DD${name}`)),
+    reg(`PORT${name}`, pinAddress + 2, group, named(`P${name}`)),
+  ];
+}
+
+// 16-bit Timer/Counter n: TCCRnA/B/C, TCNTn, ICRn and one OCRnx per output channel
+export function timer16Registers(t: number, base: number, channels: 'AB' | 'ABC'): RegisterInfo[] {
+  const group = `TC${t}`;
+  const hasC = channels === 'ABC';
+  return [
+    reg(`TCCR${t}A`, base, group, [`COM${t}A1`, `COM${t}A0`, `COM${t}B1`, `COM${t}B0`, hasC ? `COM${t}C1` : null, hasC ? `COM${t}C0` : null, `WGM${t}1`, `WGM${t}0`]),
+    reg(`TCCR${t}B`, base + 1, group, [`ICNC${t}`, `ICES${t}`, null, `WGM${t}3`, `WGM${t}2`, `CS${t}2`, `CS${t}1`, `CS${t}0`]),
+    reg(`TCCR${t}C`, base + 2, group, [`FOC${t}A`, `FOC${t}B`, hasC ? `FOC${t}C` : null, null, null, null, null, null], { access: hasC ? 'www-----' : 'ww------' }),
+    ...reg16(`TCNT${t}`, base + 4, group, { temp: group }),
+    ...reg16(`ICR${t}`, base + 6, group, { temp: group }),
+    ...reg16(`OCR${t}A`, base + 8, group, { temp: group }),
+    ...reg16(`OCR${t}B`, base + 10, group, { temp: group }),
+    ...(hasC ? reg16(`OCR${t}C`, base + 12, group, { temp: group }) : []),
+  ];
+}
+
+// USARTn — UDREn is set out of reset and UCSZn1:0 default to 8-bit frames
+export function usartRegisters(u: number, base: number): RegisterInfo[] {
+  const group = `USART${u}`;
+  return [
+    reg(`UCSR${u}A`, base, group, [`RXC${u}`, `TXC${u}`, `UDRE${u}`, `FE${u}`, `DOR${u}`, `UPE${u}`, `U2X${u}`, `MPCM${u}`], { reset: 0x20, access: 'rcrrrrbb' }),
+    reg(`UCSR${u}B`, base + 1, group, [`RXCIE${u}`, `TXCIE${u}`, `UDRIE${u}`, `RXEN${u}`, `TXEN${u}`, `UCSZ${u}2`, `RXB8${u}`, `TXB8${u}`], { access: 'bbbbbbrb' }),
+    reg(`UCSR${u}C`, base + 2, group, [`UMSEL${u}1`, `UMSEL${u}0`, `UPM${u}1`, `UPM${u}0`, `USBS${u}`, `UCSZ${u}1`, `UCSZ${u}0`, `UCPOL${u}`], { reset: 0x06 }),
+    ...reg16(`UBRR${u}`, base + 4, group, { access: '----bbbbbbbbbbbb' }),
+    dataReg(`UDR${u}`, base + 6, group),
+  ];
+}
+
+export function createPort(name: string, arduinoPins: (number | null)[]): PortInfo {
+  const pins = arduinoPins.length;
+  return {
+    name,
+    ddr: `DDR${name}`,
+    port: `PORT${name}`,
+    pin: `PIN${name}`,
+    bits: Array.from({ length: pins }, (_, i) => `P${name}${i}`),
+    ddrBits: Array.from({ length: pins }, (_, i) => `DD${name}${i}`),
+    pinBits: Array.from({ length: pins }, (_, i) => `PIN${name}${i}`),
+    arduinoPins,
+  };
+}
+
+// ─── PROFILE ────────────────────────────────────────────────────────────
+
+export function createDeviceProfile(spec: {
+  id: string;
+  name: string;
+  board: string;
+  ports: PortInfo[];
+  commonPorts: string[];
+  registers: RegisterInfo[];
+  fields?: FieldInfo[];
+  questionRegisters: string[];
+}): DeviceProfile {
+  const registerMap: Record<string, RegisterInfo> = {};
+  for (const r of spec.registers) {
+    registerMap[r.name] = r;
+  }
+
+  const namedRegisterBits: Record<string, Record<string, number>> = {};
+  for (const name of spec.questionRegisters) {
+    namedRegisterBits[name] = namedBitsOf(registerMap[name]);
+  }
+
+  const allNamedBits: Record<string, number> = {};
+  const bitOwners: Record<string, string[]> = {};
+  for (const r of spec.registers) {
+    const bits = namedBitsOf(r);
+    Object.assign(allNamedBits, bits);
+    for (const bit of Object.keys(bits)) {
+      (bitOwners[bit] ??= []).push(r.name);
+    }
+  }
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    board: spec.board,
+    ports: spec.ports,
+    commonPorts: spec.ports.filter(p => spec.commonPorts.includes(p.name)),
+    registers: spec.registers,
+    registerMap,
+    fields: spec.fields ?? [],
+    namedRegisterBits,
+    allNamedBits,
+    bitOwners,
+    allRegisterNames: new Set(spec.registers.map(r => r.name)),
+  };
+}
+
+// ─── HELPERS ────────────────────────────────────────────────────────────
+
+// All-ones mask for the register width (0xFF or 0xFFFF); unknown registers are 8-bit
+export function registerWidth(device: DeviceProfile, name: string): 8 | 16 {
+  return device.registerMap[name]?.width ?? 8;
+}
+
+export function registerMask(device: DeviceProfile, name: string): number {
+  return registerWidth(device, name) === 16 ? 0xFFFF : 0xFF;
+}
+
+// 8-bit halves by name, per device; built on first use, as every register read asks
+const halvesByDevice = new WeakMap<DeviceProfile, Map<string, { word: RegisterInfo; half: 'low' | 'high' }>>();
+
+// The 16-bit register an 8-bit half belongs to, e.g. OCR1AH → OCR1A (high)
+export function wordOf(device: DeviceProfile, name: string): { word: RegisterInfo; half: 'low' | 'high' } | null {
+  let halves = halvesByDevice.get(device);
+  if (!halves) {
+    halves = new Map();
+    for (const r of device.registers) {
+      if (!r.halves) continue;
+      halves.set(r.halves.low, { word: r, half: 'low' });
+      halves.set(r.halves.high, { word: r, half: 'high' });
+    }
+    halvesByDevice.set(device, halves);
+  }
+  return halves.get(name) ?? null;
+}
+
+// Bits that hold what software writes (excludes read-only, reserved and
+// write-1-to-clear bits)
+export function writableMask(info: RegisterInfo): number {
+  let mask = 0;
+  info.access.forEach((a, i) => {
+    if (a === 'rw' || a === 'w') mask |= (1 << i);
+  });
+  return mask;
+}
+
+// Write-1-to-clear flag bits, e.g. TOV0 in TIFR0
+export function flagMask(info: RegisterInfo): number {
+  let mask = 0;
+  info.access.forEach((a, i) => {
+    if (a === 'w1c') mask |= (1 << i);
+  });
+  return mask;
+}
+
+// Whether a named bit may be used with a register. PINx, DDRx and PORTx share
+// bit positions, so avr-libc code routinely writes DDRB |= (1<<PB3).
+export function bitBelongsTo(device: DeviceProfile, bit: string, register: string): boolean {
+  const owners = device.bitOwners[bit];
+  if (!owners) return true; // not a bit name
+  if (owners.includes(register)) return true;
+  const group = device.registerMap[register]?.group;
+  return !!group && group.startsWith('PORT') && owners.some(o => device.registerMap[o].group === group);
+}
+
+// Map of a register's named bits → bit index
+export function namedBitsOf(info: RegisterInfo): Record<string, number> {
+  const out: Record<string, number> = {};
+  info.bits.forEach((b, i) => {
+    if (b !== null) out[b] = i;
+  });
+  return out;
+}
+
+// Mask of the bits that exist as physical pins on a port
+export function portMask(port: PortInfo): number {
+  return (1 << port.bits.length) - 1;
+}
+
+export function formatAddress(addr: number): string {
+  return '0x' + addr.toString(16).toUpperCase().padStart(2, '0');
+}
+
+export function getRandomPort(device: DeviceProfile): PortInfo {
+  return device.ports[Math.floor(Math.random() * device.ports.length)];
+}
+
+// Prefer the commonly-used ports for easier questions
+export function getCommonPort(device: DeviceProfile): PortInfo {
+  return device.commonPorts[Math.floor(Math.random() * device.commonPorts.length)];
+}
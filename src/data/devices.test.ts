@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { checkAnswer, evaluate } from '../engine/evaluator';
+import { generateQuestion } from '../engine/generator';
+import { devices, getActiveDevice, getDevice, setActiveDevice } from './devices';
+
+describe('device profiles', () => {
+  it('lists the built-in devices', () => {
+    expect(devices.map(d => d.id)).toEqual(expect.arrayContaining(['atmega2560', 'atmega328p', 'attiny85']));
+    expect(getDevice('atmega328p')!.ports.map(p => p.name)).toEqual(['B', 'C', 'D']);
+    expect(getDevice('attiny85')!.ports.map(p => p.name)).toEqual(['B']);
+    expect(getDevice('nope')).toBeUndefined();
+  });
+
+  it('maps Arduino pins per board', () => {
+    const pin13 = (id: string) => getDevice(id)!.ports.find(p => p.arduinoPins.includes(13));
+    expect(pin13('atmega2560')?.name).toBe('B');
+    expect(pin13('atmega328p')?.arduinoPins.indexOf(13)).toBe(5);
+  });
+
+  it('switches the active device, keeping it for an unknown id', () => {
+    expect(setActiveDevice('attiny85').id).toBe('attiny85');
+    expect(getActiveDevice().id).toBe('attiny85');
+    expect(setActiveDevice('nope').id).toBe('attiny85');
+    setActiveDevice('atmega2560');
+  });
+
+  it('evaluates against the registers of the device', () => {
+    expect(evaluate('PORTA = 0x01;', {}, getDevice('atmega2560')!).success).toBe(true);
+    expect(evaluate('PORTA = 0x01;', {}, getDevice('atmega328p')!).success).toBe(false);
+  });
+
+  it.each(['atmega2560', 'atmega328p', 'attiny85'])('generates questions that %s can answer', id => {
+    const device = getDevice(id)!;
+    for (let i = 0; i < 30; i++) {
+      const q = generateQuestion(['set_bits', 'clear_bits', 'named_bits'], 10, device);
+      expect(device.registerMap[q.register]).toBeDefined();
+      const check = checkAnswer(q.sampleAnswer!, q.register, q.initialValue, q.expectedValue, device, {
+        bitNameCheck: q.bitNameCheck,
+        constraints: q.constraints,
+        reference: q.checkAllValues ? q.sampleAnswer : undefined,
+      });
+      expect(check.correct).toBe(true);
+    }
+  });
+});
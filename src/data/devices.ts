@@ -0,0 +1,99 @@
+// Device registry and the active device selection.
+// Persisted to localStorage so the switcher survives reloads.
+
+import type { DeviceProfile } from './device';
+import { atmega2560 } from './atmega2560';
+import { atmega328p } from './atmega328p';
+import { attiny85 } from './attiny85';
+import { parseAtdf, atdfToDeviceProfile, type AtdfDevice } from './atdf';
+
+const STORAGE_KEY = 'mcu_practice_device';
+const CUSTOM_DEVICES_KEY = 'mcu_practice_custom_devices';
+
+// .atdf files dropped into src/data/atdf/ are parsed at build time by the
+// atdf-loader plugin in vite.config.ts
+const bundledAtdf = import.meta.glob<AtdfDevice>('./atdf/*.atdf', { eager: true, import: 'default' });
+
+export const devices: DeviceProfile[] = [
+  atmega2560,
+  atmega328p,
+  attiny85,
+  ...Object.values(bundledAtdf).map(atdf => atdfToDeviceProfile(atdf)),
+];
+
+// Devices loaded through the file picker, kept as parsed ATDF so they survive reloads
+let customAtdf: AtdfDevice[] = loadCustomDevices();
+
+// Each stored device on its own: one that no longer converts is dropped
+// and the rest still load, so the next save keeps them
+function loadCustomDevices(): AtdfDevice[] {
+  if (typeof localStorage === 'undefined') return [];   // the CLI has no storage
+  let list: unknown;
+  try {
+    list = JSON.parse(localStorage.getItem(CUSTOM_DEVICES_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(list)) return [];
+
+  const loaded: AtdfDevice[] = [];
+  for (const atdf of list as AtdfDevice[]) {
+    try {
+      addDevice(atdfToDeviceProfile(atdf));
+      loaded.push(atdf);
+    } catch { }
+  }
+  return loaded;
+}
+
+function addDevice(profile: DeviceProfile): void {
+  const idx = devices.findIndex(d => d.id === profile.id);
+  if (idx >= 0) {
+    devices[idx] = profile;
+  } else {
+    devices.push(profile);
+  }
+}
+
+/**
+ * Parse the text of a Microchip .atdf file and add it to the device list.
+ * Throws if the file cannot be parsed or describes no usable device.
+ */
+export function loadAtdfDevice(xml: string): DeviceProfile {
+  const atdf = parseAtdf(xml);
+  const profile = atdfToDeviceProfile(atdf);
+  addDevice(profile);
+
+  customAtdf = [...customAtdf.filter(a => a.name !== atdf.name), atdf];
+  try {
+    localStorage.setItem(CUSTOM_DEVICES_KEY, JSON.stringify(customAtdf));
+  } catch { }
+  return profile;
+}
+
+let activeDevice: DeviceProfile = loadActiveDevice();
+
+function loadActiveDevice(): DeviceProfile {
+  try {
+    const id = localStorage.getItem(STORAGE_KEY);
+    const found = devices.find(d => d.id === id);
+    if (found) return found;
+  } catch { }
+  return atmega2560;
+}
+
+export function getDevice(id: string): DeviceProfile | undefined {
+  return devices.find(d => d.id === id);
+}
+
+export function getActiveDevice(): DeviceProfile {
+  return activeDevice;
+}
+
+export function setActiveDevice(id: string): DeviceProfile {
+  activeDevice = getDevice(id) ?? activeDevice;
+  try {
+    localStorage.setItem(STORAGE_KEY, activeDevice.id);
+  } catch { }
+  return activeDevice;
+}
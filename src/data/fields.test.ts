@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { checkAnswer } from '../engine/evaluator';
+import { parseExpression, renderExpressionDisplay } from '../engine/expression-display';
+import { generateQuestion } from '../engine/generator';
+import { atmega2560 } from './atmega2560';
+import { decodeField, encodeField, fieldBitPosition, fieldLabel, fieldMasks, fieldValueName } from './fields';
+
+const fieldNamed = (name: string) => atmega2560.fields.find(f => f.name === name)!;
+
+describe('register fields', () => {
+  it('labels a field like the datasheet and names its values', () => {
+    const cs0 = fieldNamed('CS0');
+    expect(fieldLabel(cs0)).toBe('CS02:0');
+    expect(fieldValueName(cs0, 0b011)).toBe('clk/64');
+    expect(fieldMasks(cs0)).toEqual({ TCCR0B: 0x07 });
+  });
+
+  it('splits a field across registers, least significant part first', () => {
+    const wgm1 = fieldNamed('WGM1');
+    expect(wgm1.width).toBe(4);
+    expect(fieldMasks(wgm1)).toEqual({ TCCR1A: 0x03, TCCR1B: 0x18 });
+    // Mode 14 (fast PWM, TOP = ICR1): WGM13:0 = 1110
+    expect(encodeField(wgm1, 14)).toEqual({ TCCR1A: 0x02, TCCR1B: 0x18 });
+    expect(decodeField(wgm1, { TCCR1A: 0x02, TCCR1B: 0x18 })).toBe(14);
+    expect(fieldBitPosition(wgm1, 3)).toEqual({ register: 'TCCR1B', bit: 4 });
+  });
+
+  it('puts MUX5 of the ATmega2560 in ADCSRB', () => {
+    const mux = fieldNamed('MUX');
+    expect(encodeField(mux, 0x20)).toEqual({ ADMUX: 0, ADCSRB: 0x08 });
+    expect(fieldValueName(mux, 0x20)).toBe('ADC8');
+  });
+
+  it('annotates the expression display with what a field is set to', () => {
+    const html = renderExpressionDisplay(parseExpression('TCCR0B = (1<<CS01) | (1<<CS00);', { TCCR0B: 0 }));
+    expect(html).toContain('CS02:0 = 011 → clk/64');
+    expect(html).toContain('WGM02:0 bits here = 0 (rest in TCCR0A)');
+  });
+
+  it('generates field questions the sample answer passes', () => {
+    for (let i = 0; i < 30; i++) {
+      const q = generateQuestion(['field_config'], 10, atmega2560);
+      const check = checkAnswer(q.sampleAnswer!, q.register, q.initialValue, q.expectedValue, atmega2560, {
+        constraints: q.constraints,
+        reference: q.checkAllValues ? q.sampleAnswer : undefined,
+        initialStates: q.initialStates,
+        expectedStates: q.expectedStates,
+      });
+      expect(check.correct).toBe(true);
+    }
+  });
+});
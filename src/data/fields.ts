@@ -0,0 +1,247 @@
+// Multi-bit register fields with enumerated values — e.g. the Timer0 prescaler
+// CS02:0 in TCCR0B, or WGM02:0 split across TCCR0A and TCCR0B.
+// Field bit k is named NAMEk (CS0 → CS00, CS01, CS02), matching avr-libc.
+
+export interface FieldValue {
+  value: number;
+  name: string;          // e.g. "clk/64"
+}
+
+// The slice of a field held by one register. Parts are listed from the
+// field's least significant bits upwards.
+export interface FieldPart {
+  register: string;
+  lsb: number;           // lowest register bit of this part
+  width: number;
+}
+
+export interface FieldInfo {
+  name: string;          // e.g. "CS0"
+  caption: string;       // e.g. "Timer0 prescaler"
+  group: string;         // peripheral, e.g. "TC0"
+  parts: FieldPart[];
+  width: number;         // total width in bits
+  values: FieldValue[];  // named values (reserved encodings are left out)
+}
+
+// Declare a field. `parts` are [register, msb, lsb] triples, least significant part first.
+export function field(
+  name: string,
+  caption: string,
+  group: string,
+  parts: [string, number, number][],
+  values: Record<number, string> = {}
+): FieldInfo {
+  const fieldParts = parts.map(([register, msb, lsb]) => ({ register, lsb, width: msb - lsb + 1 }));
+  return {
+    name,
+    caption,
+    group,
+    parts: fieldParts,
+    width: fieldParts.reduce((w, p) => w + p.width, 0),
+    values: Object.entries(values).map(([v, n]) => ({ value: Number(v), name: n })),
+  };
+}
+
+// ─── SHARED VALUE TABLES ────────────────────────────────────────────────
+
+export const timerClockSelect: Record<number, string> = {
+  0: 'stopped',
+  1: 'clk/1',
+  2: 'clk/8',
+  3: 'clk/64',
+  4: 'clk/256',
+  5: 'clk/1024',
+  6: 'T pin falling edge',
+  7: 'T pin rising edge',
+};
+
+// Timer2 on the ATmega has a finer prescaler
+export const asyncTimerClockSelect: Record<number, string> = {
+  0: 'stopped',
+  1: 'clk/1',
+  2: 'clk/8',
+  3: 'clk/32',
+  4: 'clk/64',
+  5: 'clk/128',
+  6: 'clk/256',
+  7: 'clk/1024',
+};
+
+export const timer8WaveformModes: Record<number, string> = {
+  0: 'Normal',
+  1: 'PWM, phase correct (TOP 0xFF)',
+  2: 'CTC (TOP OCRA)',
+  3: 'Fast PWM (TOP 0xFF)',
+  5: 'PWM, phase correct (TOP OCRA)',
+  7: 'Fast PWM (TOP OCRA)',
+};
+
+export const timer16WaveformModes: Record<number, string> = {
+  0: 'Normal',
+  1: 'PWM, phase correct, 8-bit',
+  2: 'PWM, phase correct, 9-bit',
+  3: 'PWM, phase correct, 10-bit',
+  4: 'CTC (TOP OCRnA)',
+  5: 'Fast PWM, 8-bit',
+  6: 'Fast PWM, 9-bit',
+  7: 'Fast PWM, 10-bit',
+  8: 'PWM, phase & frequency correct (TOP ICRn)',
+  9: 'PWM, phase & frequency correct (TOP OCRnA)',
+  10: 'PWM, phase correct (TOP ICRn)',
+  11: 'PWM, phase correct (TOP OCRnA)',
+  12: 'CTC (TOP ICRn)',
+  14: 'Fast PWM (TOP ICRn)',
+  15: 'Fast PWM (TOP OCRnA)',
+};
+
+export const compareOutputModes: Record<number, string> = {
+  0: 'disconnected',
+  1: 'toggle on match',
+  2: 'clear on match (non-inverting)',
+  3: 'set on match (inverting)',
+};
+
+export const adcPrescaler: Record<number, string> = {
+  0: 'clk/2',
+  1: 'clk/2',
+  2: 'clk/4',
+  3: 'clk/8',
+  4: 'clk/16',
+  5: 'clk/32',
+  6: 'clk/64',
+  7: 'clk/128',
+};
+
+export const interruptSenseControl: Record<number, string> = {
+  0: 'low level',
+  1: 'any edge',
+  2: 'falling edge',
+  3: 'rising edge',
+};
+
+export const usartCharacterSize: Record<number, string> = {
+  0: '5-bit',
+  1: '6-bit',
+  2: '7-bit',
+  3: '8-bit',
+  7: '9-bit',
+};
+
+export const usartParityMode: Record<number, string> = {
+  0: 'disabled',
+  2: 'even parity',
+  3: 'odd parity',
+};
+
+export const usartModeSelect: Record<number, string> = {
+  0: 'asynchronous',
+  1: 'synchronous',
+  3: 'master SPI',
+};
+
+export const spiClockRate: Record<number, string> = {
+  0: 'fosc/4',
+  1: 'fosc/16',
+  2: 'fosc/64',
+  3: 'fosc/128',
+};
+
+// ─── FIELD SETS FOR STANDARD PERIPHERALS ────────────────────────────────
+
+export function timer8Fields(t: number, clockSelect: Record<number, string> = timerClockSelect): FieldInfo[] {
+  const group = `TC${t}`;
+  return [
+    field(`CS${t}`, `Timer${t} prescaler`, group, [[`TCCR${t}B`, 2, 0]], clockSelect),
+    field(`WGM${t}`, `Timer${t} waveform generation mode`, group, [[`TCCR${t}A`, 1, 0], [`TCCR${t}B`, 3, 3]], timer8WaveformModes),
+    field(`COM${t}A`, `Timer${t} compare output mode A`, group, [[`TCCR${t}A`, 7, 6]], compareOutputModes),
+    field(`COM${t}B`, `Timer${t} compare output mode B`, group, [[`TCCR${t}A`, 5, 4]], compareOutputModes),
+  ];
+}
+
+export function timer16Fields(t: number, channels: 'AB' | 'ABC'): FieldInfo[] {
+  const group = `TC${t}`;
+  const fields = [
+    field(`CS${t}`, `Timer${t} prescaler`, group, [[`TCCR${t}B`, 2, 0]], timerClockSelect),
+    field(`WGM${t}`, `Timer${t} waveform generation mode`, group, [[`TCCR${t}A`, 1, 0], [`TCCR${t}B`, 4, 3]], timer16WaveformModes),
+    field(`COM${t}A`, `Timer${t} compare output mode A`, group, [[`TCCR${t}A`, 7, 6]], compareOutputModes),
+    field(`COM${t}B`, `Timer${t} compare output mode B`, group, [[`TCCR${t}A`, 5, 4]], compareOutputModes),
+  ];
+  if (channels === 'ABC') {
+    fields.push(field(`COM${t}C`, `Timer${t} compare output mode C`, group, [[`TCCR${t}A`, 3, 2]], compareOutputModes));
+  }
+  return fields;
+}
+
+export function usartFields(u: number): FieldInfo[] {
+  const group = `USART${u}`;
+  return [
+    field(`UCSZ${u}`, `USART${u} character size`, group, [[`UCSR${u}C`, 2, 1], [`UCSR${u}B`, 2, 2]], usartCharacterSize),
+    field(`UPM${u}`, `USART${u} parity mode`, group, [[`UCSR${u}C`, 5, 4]], usartParityMode),
+    field(`UMSEL${u}`, `USART${u} mode`, group, [[`UCSR${u}C`, 7, 6]], usartModeSelect),
+  ];
+}
+
+// ─── HELPERS ────────────────────────────────────────────────────────────
+
+// Datasheet-style label, e.g. "CS02:0"
+export function fieldLabel(f: FieldInfo): string {
+  return f.width === 1 ? f.name : `${f.name}${f.width - 1}:0`;
+}
+
+// Bit name for field bit k, e.g. CS0 bit 1 → "CS01"
+export function fieldBitName(f: FieldInfo, k: number): string {
+  return `${f.name}${k}`;
+}
+
+// Register and bit index holding field bit k
+export function fieldBitPosition(f: FieldInfo, k: number): { register: string; bit: number } {
+  let shift = 0;
+  for (const p of f.parts) {
+    if (k < shift + p.width) return { register: p.register, bit: p.lsb + k - shift };
+    shift += p.width;
+  }
+  throw new Error(`${f.name} has no bit ${k}`);
+}
+
+export function fieldValueName(f: FieldInfo, value: number): string | null {
+  return f.values.find(v => v.value === value)?.name ?? null;
+}
+
+// Register bit mask covered by each part of the field, keyed by register
+export function fieldMasks(f: FieldInfo): Record<string, number> {
+  const masks: Record<string, number> = {};
+  for (const p of f.parts) {
+    masks[p.register] = (masks[p.register] ?? 0) | (((1 << p.width) - 1) << p.lsb);
+  }
+  return masks;
+}
+
+// Split a field value into register bits: register → bits to set within fieldMasks()
+export function encodeField(f: FieldInfo, value: number): Record<string, number> {
+  const out: Record<string, number> = {};
+  let shift = 0;
+  for (const p of f.parts) {
+    const slice = (value >> shift) & ((1 << p.width) - 1);
+    out[p.register] = (out[p.register] ?? 0) | (slice << p.lsb);
+    shift += p.width;
+  }
+  return out;
+}
+
+// Read a field value back out of register states (missing registers read as 0)
+export function decodeField(f: FieldInfo, states: Record<string, number>): number {
+  let value = 0;
+  let shift = 0;
+  for (const p of f.parts) {
+    const slice = ((states[p.register] ?? 0) >> p.lsb) & ((1 << p.width) - 1);
+    value |= slice << shift;
+    shift += p.width;
+  }
+  return value;
+}
+
+// Fields with at least one part in the given register
+export function fieldsOfRegister(fields: FieldInfo[], register: string): FieldInfo[] {
+  return fields.filter(f => f.parts.some(p => p.register === register));
+}
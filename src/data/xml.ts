@@ -0,0 +1,134 @@
+// Minimal XML reader for device description files.
+// Works in the browser and at build time (no DOMParser), keeps elements and
+// attributes only — text content is not needed for ATDF files.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, ent: string) => {
+    if (ent.startsWith('#x')) return String.fromCodePoint(parseInt(ent.substring(2), 16));
+    if (ent.startsWith('#')) return String.fromCodePoint(parseInt(ent.substring(1), 10));
+    return entities[ent] ?? match;
+  });
+}
+
+// Offset → "line N" for error messages
+function lineAt(s: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index && i < s.length; i++) {
+    if (s[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * Throws an Error with the line number on malformed input.
+ */
+export function parseXml(input: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  const fail = (msg: string): never => {
+    throw new Error(`XML error on line ${lineAt(input, i)}: ${msg}`);
+  };
+
+  while (i < input.length) {
+    const lt = input.indexOf('<', i);
+    if (lt < 0) break;
+    i = lt;
+
+    // Comments, processing instructions, DOCTYPE and CDATA are skipped
+    if (input.startsWith('<!--', i)) {
+      const end = input.indexOf('-->', i + 4);
+      if (end < 0) fail('unterminated comment');
+      i = end + 3;
+      continue;
+    }
+    if (input.startsWith('<?', i)) {
+      const end = input.indexOf('?>', i + 2);
+      if (end < 0) fail('unterminated processing instruction');
+      i = end + 2;
+      continue;
+    }
+    if (input.startsWith('<![CDATA[', i)) {
+      const end = input.indexOf(']]>', i + 9);
+      if (end < 0) fail('unterminated CDATA section');
+      i = end + 3;
+      continue;
+    }
+    if (input.startsWith('<!', i)) {
+      const end = input.indexOf('>', i + 2);
+      if (end < 0) fail('unterminated declaration');
+      i = end + 1;
+      continue;
+    }
+
+    // Closing tag
+    if (input[i + 1] === '/') {
+      const end = input.indexOf('>', i);
+      if (end < 0) fail('unterminated closing tag');
+      const name = input.substring(i + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(`unexpected </${name}>${open ? `, expected </${open.name}>` : ''}`);
+      }
+      i = end + 1;
+      continue;
+    }
+
+    // Opening or self-closing tag
+    const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(input.substring(i, i + 256));
+    if (!nameMatch) fail('invalid tag name');
+    const element: XmlElement = { name: nameMatch![1], attributes: {}, children: [] };
+    i += nameMatch![0].length;
+
+    let selfClosing = false;
+    for (;;) {
+      while (i < input.length && /\s/.test(input[i])) i++;
+      if (i >= input.length) fail(`unterminated <${element.name}> tag`);
+      if (input.startsWith('/>', i)) { selfClosing = true; i += 2; break; }
+      if (input[i] === '>') { i++; break; }
+
+      const attr = /^([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/.exec(input.substring(i, i + 4096));
+      if (!attr) fail(`malformed attribute in <${element.name}>`);
+      element.attributes[attr![1]] = decodeEntities(attr![3] ?? attr![4]);
+      i += attr![0].length;
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      fail('more than one root element');
+    } else {
+      root = element;
+    }
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length > 0) fail(`missing </${stack[stack.length - 1].name}>`);
+  if (!root) throw new Error('XML error: no root element');
+  return root;
+}
+
+// Direct children with the given tag name
+export function childrenNamed(el: XmlElement, name: string): XmlElement[] {
+  return el.children.filter(c => c.name === name);
+}
+
+// First descendant (depth-first) with the given tag name
+export function findFirst(el: XmlElement, name: string): XmlElement | undefined {
+  for (const c of el.children) {
+    if (c.name === name) return c;
+    const found = findFirst(c, name);
+    if (found) return found;
+  }
+  return undefined;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { assemble, checkAssemblyConstraints } from './assembly';
+import { evaluate } from './evaluator';
+
+const device = getDevice('atmega328p')!;
+
+const run = (code: string, initialStates: Record<string, number> = { PORTB: 0x01 }) =>
+    evaluate(code, initialStates, device, { language: 'asm' });
+
+describe('assembler', () => {
+    it('assembles one instruction per line with its address, size and cycles', () => {
+        const [ldi, sts, sbi] = assemble('ldi r24, 0x08\nsts UCSR0B, r24\nsbi PORTB, 3', device);
+        expect(ldi).toMatchObject({ mnemonic: 'ldi', address: 0, words: 1, cycles: 1 });
+        expect(sts).toMatchObject({ mnemonic: 'sts', address: 2, words: 2, cycles: 2 });
+        expect(sbi).toMatchObject({ mnemonic: 'sbi', address: 6, words: 1, cycles: 2 });
+    });
+
+    it('rejects operands out of range', () => {
+        expect(run('ldi r24, 300').error).toBe('`300` (300) does not fit in 8 bits');
+        expect(run('sbi PORTB, 9').error).toBe('Bit 9 is not a bit of a byte (0–7)');
+    });
+});
+
+describe('assembly answers', () => {
+    it('sets a bit with a single SBI', () => {
+        expect(run('sbi PORTB, 3').registerStates.PORTB).toBe(0x09);
+    });
+
+    it('changes bits through a working register', () => {
+        const result = run('in r24, PORTB\nori r24, 0x0C\nout PORTB, r24');
+        expect(result.registerStates.PORTB).toBe(0x0D);
+        expect(result.cpu!.registers[24]).toBe(0x0D);
+    });
+
+    it('keeps SREG and follows branches on it', () => {
+        expect(run('ldi r16, 0xFF\nsubi r16, 0xFF').cpu!.sreg).toBe(0x02);
+        const loop = run('ldi r16, 5\n1: dec r16\nbrne 1b\nout PORTB, r16');
+        expect(loop.success).toBe(true);
+        expect(loop.registerStates.PORTB).toBe(0);
+        expect(loop.steps.filter(s => s.op === 'brne')).toHaveLength(5);
+    });
+
+    it('warns about a bit name from another register, as C answers do', () => {
+        expect(run('sbi PORTC, PB3').warnings).toEqual(['PB3 is a bit of PORTB, not PORTC']);
+    });
+});
+
+describe('assembly constraints', () => {
+    it('counts instructions and checks constants are in hex', () => {
+        const violations = checkAssemblyConstraints('ldi r24, 12\nout PORTB, r24', { maxInstructions: 1, requireHex: true }, device);
+        expect(violations.map(v => v.message)).toEqual(['`12` should be written in hex', 'Use at most 1 instruction — this answer has 2']);
+        expect(checkAssemblyConstraints('sbi PORTB, 3', { maxInstructions: 1 }, device)).toEqual([]);
+    });
+});
@@ -0,0 +1,861 @@
+// AVR assembly front-end — answers written as assembler source, one
+// instruction per line: `sbi PORTB, 3`, or `in r24, PORTB` / `ori r24, 0x0C` /
+// `out PORTB, r24`. The machine keeps r0–r31 and SREG itself and reports each
+// I/O access, CPU register update and branch to the evaluator as an effect,
+// so answers run on the register file, peripherals and timeline C answers use.
+//
+// I/O operands are register names, _SFR_IO_ADDR()/_SFR_MEM_ADDR() or
+// addresses; constants and bit numbers are C-style constant expressions with
+// bit names, _BV(), lo8() and hi8(). Jumps go to labels, numeric local labels
+// (1b, 1f) or relative targets (.-4, counted from the next instruction as
+// avr-objdump prints them). SREG belongs to the core: IN/OUT on it and the
+// flag instructions never reach the register file.
+
+import { bitBelongsTo, formatAddress, type DeviceProfile, type RegisterInfo } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import { DiagnosticError, didYouMean, spanAt, type Diagnostic, type DiagnosticCode, type SourceSpan } from './diagnostics';
+import type { AnswerConstraints } from './constraints';
+import type { CpuState, Effect, Runner } from './evaluator';
+import type { BitNameCheck } from './parser';
+
+// Operands: r = r0–r31, d = r16–r31, A = I/O address 0x00–0x3F, a = low I/O
+// 0x00–0x1F (bit instructions), m = data address, K = 8-bit constant,
+// b = bit 0–7, L = jump target
+type OperandKind = 'r' | 'd' | 'A' | 'a' | 'm' | 'K' | 'b' | 'L';
+
+interface InstructionSpec {
+    operands: OperandKind[];
+    syntax: string;    // e.g. 'Rd, K'
+    cycles: number;    // branches and skips: when they do not jump or skip
+    words: number;
+}
+
+function spec(operands: string, syntax: string, cycles = 1, words = 1): InstructionSpec {
+    return { operands: operands ? operands.split(',') as OperandKind[] : [], syntax, cycles, words };
+}
+
+// SREG bits, bit 0 first
+const FLAGS = 'CZNVSHTI';
+type Flag = 'C' | 'Z' | 'N' | 'V' | 'S' | 'H' | 'T' | 'I';
+
+// Conditional branches: the flag tested and the value that takes the jump
+const BRANCHES: Record<string, [Flag, number]> = {
+    breq: ['Z', 1], brne: ['Z', 0], brcs: ['C', 1], brlo: ['C', 1], brcc: ['C', 0], brsh: ['C', 0],
+    brmi: ['N', 1], brpl: ['N', 0], brvs: ['V', 1], brvc: ['V', 0], brlt: ['S', 1], brge: ['S', 0],
+    brhs: ['H', 1], brhc: ['H', 0], brts: ['T', 1], brtc: ['T', 0], brie: ['I', 1], brid: ['I', 0],
+};
+
+const INSTRUCTIONS: Record<string, InstructionSpec> = {
+    ldi: spec('d,K', 'Rd, K'), ser: spec('d', 'Rd'), mov: spec('r,r', 'Rd, Rr'), clr: spec('r', 'Rd'),
+    in: spec('r,A', 'Rd, A'), out: spec('A,r', 'A, Rr'),
+    lds: spec('r,m', 'Rd, k', 2, 2), sts: spec('m,r', 'k, Rr', 2, 2),
+    sbi: spec('a,b', 'A, b', 2), cbi: spec('a,b', 'A, b', 2),
+    sbis: spec('a,b', 'A, b'), sbic: spec('a,b', 'A, b'), sbrs: spec('r,b', 'Rr, b'), sbrc: spec('r,b', 'Rr, b'),
+    ori: spec('d,K', 'Rd, K'), sbr: spec('d,K', 'Rd, K'), andi: spec('d,K', 'Rd, K'), cbr: spec('d,K', 'Rd, K'),
+    subi: spec('d,K', 'Rd, K'), sbci: spec('d,K', 'Rd, K'), cpi: spec('d,K', 'Rd, K'),
+    or: spec('r,r', 'Rd, Rr'), and: spec('r,r', 'Rd, Rr'), eor: spec('r,r', 'Rd, Rr'),
+    add: spec('r,r', 'Rd, Rr'), adc: spec('r,r', 'Rd, Rr'), sub: spec('r,r', 'Rd, Rr'), sbc: spec('r,r', 'Rd, Rr'),
+    cp: spec('r,r', 'Rd, Rr'), cpc: spec('r,r', 'Rd, Rr'),
+    com: spec('r', 'Rd'), neg: spec('r', 'Rd'), inc: spec('r', 'Rd'), dec: spec('r', 'Rd'), tst: spec('r', 'Rd'),
+    lsl: spec('r', 'Rd'), lsr: spec('r', 'Rd'), asr: spec('r', 'Rd'), rol: spec('r', 'Rd'), ror: spec('r', 'Rd'), swap: spec('r', 'Rd'),
+    rjmp: spec('L', 'k', 2), nop: spec('', ''),
+};
+for (const branch of Object.keys(BRANCHES)) INSTRUCTIONS[branch] = spec('L', 'k');
+// sec/clc … sei/cli set and clear one SREG flag
+for (const flag of FLAGS.toLowerCase()) {
+    INSTRUCTIONS[`se${flag}`] = spec('', '');
+    INSTRUCTIONS[`cl${flag}`] = spec('', '');
+}
+
+// Backward jumps allowed before giving up, as the C interpreter's loop limit
+const MAX_BACKWARD_JUMPS = 1000;
+
+// A number as written in an operand
+interface Literal {
+    raw: string;
+    value: number;
+    span: SourceSpan;
+}
+
+interface Operand {
+    text: string;
+    span: SourceSpan;
+    value: number;        // register number, address, bit, constant or target instruction
+    register?: string;    // I/O and data operands: the register at that address
+    bitName?: string;     // a bit operand written as a bit name
+    literals: Literal[];
+}
+
+export interface AsmInstruction {
+    mnemonic: string;     // lower case
+    operands: Operand[];
+    address: number;      // in bytes, as relative jumps count
+    words: number;
+    cycles: number;
+    span: SourceSpan;     // the instruction, without label or comment
+}
+
+function fail(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): never {
+    throw new DiagnosticError({ code, severity: 'error', message, span, ...(fix ? { fix } : {}) });
+}
+
+function hex(n: number): string {
+    return '0x' + (n & 0xFF).toString(16).toUpperCase().padStart(2, '0');
+}
+
+// Registers by I/O and by data address; the 8-bit halves stand for a 16-bit register
+function addressMaps(device: DeviceProfile): { io: Map<number, RegisterInfo>; data: Map<number, RegisterInfo> } {
+    const io = new Map<number, RegisterInfo>();
+    const data = new Map<number, RegisterInfo>();
+    for (const info of device.registers) {
+        if (info.width !== 8) continue;
+        if (info.ioAddress !== null && !io.has(info.ioAddress)) io.set(info.ioAddress, info);
+        if (!data.has(info.dataAddress)) data.set(info.dataAddress, info);
+    }
+    return { io, data };
+}
+
+type Token = { text: string; start: number };
+
+const TOKEN = /\s*(0[xX][0-9a-fA-F]+|0[bB][01]+|\d+|'(?:\\.|[^'\\])'|[A-Za-z_]\w*|<<|>>|\S)/y;
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, '0': 0, '\\': 92, '\'': 39 };
+
+// A constant expression in an operand, with C precedence. `where` says what
+// a register name stands for: its I/O address, its data address, or nothing
+// (a register is not a constant).
+class ConstantParser {
+    private source: string;
+    private tokens: Token[] = [];
+    private pos = 0;
+    private end: number;
+    private device: DeviceProfile;
+    private where: 'io' | 'data' | 'value';
+    literals: Literal[] = [];
+    registers: string[] = [];   // register names used for their address
+    bits: string[] = [];        // bit names used
+
+    constructor(source: string, start: number, end: number, device: DeviceProfile, where: 'io' | 'data' | 'value') {
+        this.source = source;
+        this.end = end;
+        this.device = device;
+        this.where = where;
+        const text = source.slice(0, end);
+        TOKEN.lastIndex = start;
+        while (text.slice(TOKEN.lastIndex).trim()) {
+            const match = TOKEN.exec(text)!;
+            this.tokens.push({ text: match[1], start: TOKEN.lastIndex - match[1].length });
+        }
+    }
+
+    parse(): number {
+        if (this.tokens.length === 0) fail('missing-token', 'Expected a value', spanAt(this.source, this.end, this.end));
+        const value = this.binary(0);
+        const extra = this.tokens[this.pos];
+        if (extra) fail('unexpected-token', `Unexpected \`${extra.text}\``, this.span(extra));
+        return value;
+    }
+
+    private span(token: Token): SourceSpan {
+        return spanAt(this.source, token.start, token.start + token.text.length);
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos++];
+        if (!token) fail('missing-token', 'The value ends early', spanAt(this.source, this.end, this.end));
+        return token;
+    }
+
+    private expect(text: string): void {
+        const token = this.tokens[this.pos];
+        if (token?.text !== text) {
+            fail('missing-token', `Expected \`${text}\``, token ? this.span(token) : spanAt(this.source, this.end, this.end));
+        }
+        this.pos++;
+    }
+
+    // Precedence climbing over the binary operators, loosest first
+    private static LEVELS = [['|'], ['^'], ['&'], ['<<', '>>'], ['+', '-'], ['*', '/', '%']];
+
+    private binary(level: number): number {
+        if (level === ConstantParser.LEVELS.length) return this.unary();
+        let value = this.binary(level + 1);
+        while (this.tokens[this.pos] && ConstantParser.LEVELS[level].includes(this.tokens[this.pos].text)) {
+            const op = this.next();
+            const right = this.binary(level + 1);
+            switch (op.text) {
+                case '|': value |= right; break;
+                case '^': value ^= right; break;
+                case '&': value &= right; break;
+                case '<<': value <<= right; break;
+                case '>>': value >>= right; break;
+                case '+': value += right; break;
+                case '-': value -= right; break;
+                case '*': value *= right; break;
+                default:
+                    if (right === 0) fail('division-by-zero', 'Division by zero', this.span(op));
+                    value = op.text === '/' ? Math.trunc(value / right) : value % right;
+            }
+        }
+        return value;
+    }
+
+    private unary(): number {
+        const token = this.tokens[this.pos];
+        if (token && ['~', '-', '!', '+'].includes(token.text)) {
+            this.pos++;
+            const value = this.unary();
+            return token.text === '~' ? ~value : token.text === '-' ? -value : token.text === '!' ? Number(!value) : value;
+        }
+        return this.primary();
+    }
+
+    private primary(): number {
+        const token = this.next();
+        const span = this.span(token);
+        if (token.text === '(') {
+            const value = this.binary(0);
+            this.expect(')');
+            return value;
+        }
+        if (/^\d/.test(token.text)) {
+            const value = /^0[bB]/.test(token.text) ? parseInt(token.text.slice(2), 2) : Number(token.text);
+            this.literals.push({ raw: token.text, value, span });
+            return value;
+        }
+        if (token.text.startsWith('\'')) {
+            const body = token.text.slice(1, -1);
+            return body.startsWith('\\') ? ESCAPES[body[1]] ?? body.charCodeAt(1) : body.charCodeAt(0);
+        }
+        if (!/^[A-Za-z_]/.test(token.text)) fail('unexpected-token', `Unexpected \`${token.text}\``, span);
+
+        if (this.tokens[this.pos]?.text === '(') return this.call(token.text, span);
+        const name = token.text;
+        if (name in this.device.allNamedBits) {
+            this.bits.push(name);
+            return this.device.allNamedBits[name];
+        }
+        const info = this.device.registerMap[name];
+        if (info) return this.address(info, this.where, span);
+        fail('unknown-identifier', `Unknown name: ${name}`, span,
+            didYouMean(name, [...this.device.allRegisterNames, ...Object.keys(this.device.allNamedBits)]));
+    }
+
+    private call(name: string, span: SourceSpan): number {
+        this.pos++;
+        let value: number;
+        if (name === '_SFR_IO_ADDR' || name === '_SFR_MEM_ADDR') {
+            const token = this.next();
+            const info = this.device.registerMap[token.text];
+            if (!info) {
+                fail('unknown-identifier', `${name}() takes a register name, not \`${token.text}\``, this.span(token),
+                    didYouMean(token.text, this.device.allRegisterNames));
+            }
+            value = this.address(info, name === '_SFR_IO_ADDR' ? 'io' : 'data', this.span(token));
+        } else {
+            const argument = this.binary(0);
+            if (name === '_BV') value = 1 << argument;
+            else if (name === 'lo8') value = argument & 0xFF;
+            else if (name === 'hi8') value = (argument >> 8) & 0xFF;
+            else fail('unknown-function', `Unknown function: ${name}()`, span, 'use `_BV()`, `lo8()`, `hi8()` or `_SFR_IO_ADDR()`');
+        }
+        this.expect(')');
+        return value;
+    }
+
+    private address(info: RegisterInfo, where: 'io' | 'data' | 'value', span: SourceSpan): number {
+        if (info.halves) {
+            fail('bad-operand', `${info.name} is 16 bits wide; instructions move one byte`, span,
+                `write ${info.halves.high}, then ${info.halves.low}`);
+        }
+        if (where === 'value') {
+            fail('bad-operand', `${info.name} is a register, not a constant`, span, `read it into a register with \`in\` or \`lds\``);
+        }
+        this.registers.push(info.name);
+        if (where === 'data') return info.dataAddress;
+        if (info.ioAddress === null) {
+            fail('bad-operand', `${info.name} is outside the I/O space (data ${formatAddress(info.dataAddress)}), so \`in\`, \`out\`, \`sbi\` and \`cbi\` cannot reach it`,
+                span, `use \`lds\` and \`sts\``);
+        }
+        return info.ioAddress;
+    }
+}
+
+// Source split at the commas between operands
+function splitOperands(source: string, start: number, end: number): { start: number; end: number }[] {
+    const parts: { start: number; end: number }[] = [];
+    let depth = 0;
+    let from = start;
+    for (let i = start; i < end; i++) {
+        if (source[i] === '(') depth++;
+        else if (source[i] === ')') depth--;
+        else if (source[i] === '\'') i += source[i + 1] === '\\' ? 3 : 2;
+        else if (source[i] === ',' && depth === 0) {
+            parts.push({ start: from, end: i });
+            from = i + 1;
+        }
+    }
+    if (from < end || parts.length > 0) parts.push({ start: from, end });
+    // Trim each part to its text
+    return parts.map(p => {
+        const text = source.slice(p.start, p.end);
+        const lead = text.length - text.trimStart().length;
+        return { start: p.start + lead, end: p.start + text.trimEnd().length };
+    });
+}
+
+// Where a `;` or `//` comment starts on a line, outside character literals
+function commentStart(line: string): number {
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '\'') i += line[i + 1] === '\\' ? 3 : 2;
+        else if (line[i] === ';' || line.startsWith('//', i)) return i;
+    }
+    return line.length;
+}
+
+class Assembler {
+    private source: string;
+    private device: DeviceProfile;
+    private bitNameCheck: BitNameCheck;
+    private maps: ReturnType<typeof addressMaps>;
+    instructions: AsmInstruction[] = [];
+    private labels = new Map<string, number>();            // name → byte address
+    private local: { name: string; address: number }[] = [];  // numeric labels in order
+    private targets: { instruction: AsmInstruction; operand: Operand }[] = [];
+    private address = 0;
+    diagnostics: Diagnostic[] = [];
+
+    constructor(source: string, device: DeviceProfile, bitNameCheck: BitNameCheck) {
+        this.source = source;
+        this.device = device;
+        this.bitNameCheck = bitNameCheck;
+        this.maps = addressMaps(device);
+    }
+
+    assemble(): AsmInstruction[] {
+        let offset = 0;
+        for (const line of this.source.split('\n')) {
+            this.line(offset, offset + commentStart(line));
+            offset += line.length + 1;
+        }
+        for (const { instruction, operand } of this.targets) operand.value = this.resolve(instruction, operand);
+        return this.instructions;
+    }
+
+    private span(start: number, end: number): SourceSpan {
+        return spanAt(this.source, start, end);
+    }
+
+    private line(start: number, end: number): void {
+        let pos = start;
+        const skipSpace = () => {
+            while (pos < end && /\s/.test(this.source[pos])) pos++;
+        };
+        // Labels: `loop:`, `1:`
+        for (;;) {
+            skipSpace();
+            const label = /^([A-Za-z_.][\w.$]*|\d+):/.exec(this.source.slice(pos, end));
+            if (!label) break;
+            this.define(label[1], pos);
+            pos += label[0].length;
+        }
+        skipSpace();
+        if (pos >= end) return;
+
+        const word = /^[.A-Za-z_][\w.]*/.exec(this.source.slice(pos, end));
+        const mnemonicEnd = pos + (word ? word[0].length : 1);
+        const lineEnd = start + this.source.slice(start, end).trimEnd().length;
+        const span = this.span(pos, lineEnd);
+        const name = word?.[0] ?? this.source[pos];
+        const mnemonic = name.toLowerCase();
+        const instruction = INSTRUCTIONS[mnemonic];
+        if (!instruction) {
+            const at = this.span(pos, mnemonicEnd);
+            if (name.startsWith('.')) fail('unknown-instruction', `${name} is an assembler directive; only instructions run here`, at);
+            if (this.device.allRegisterNames.has(name)) {
+                fail('unknown-instruction', `\`${name}\` is not an AVR instruction — this answer is written in assembly`, at,
+                    `e.g. \`sbi ${name}, 3\` or \`out ${name}, r24\``);
+            }
+            fail('unknown-instruction', `\`${name}\` is not an AVR instruction`, at, didYouMean(mnemonic, Object.keys(INSTRUCTIONS)));
+        }
+
+        const parts = splitOperands(this.source, mnemonicEnd, lineEnd);
+        if (parts.length !== instruction.operands.length) {
+            const count = instruction.operands.length;
+            fail('bad-operand', `\`${mnemonic}\` takes ${count === 0 ? 'no operands' : count === 1 ? 'one operand' : `${count} operands`}`, span,
+                count ? `\`${mnemonic} ${instruction.syntax}\`` : undefined);
+        }
+
+        const asm: AsmInstruction = {
+            mnemonic, operands: [], address: this.address, words: instruction.words, cycles: instruction.cycles, span,
+        };
+        instruction.operands.forEach((kind, i) => {
+            const operand = this.operand(mnemonic, kind, parts[i].start, parts[i].end);
+            asm.operands.push(operand);
+            // Labels may come later in the program, so jumps are resolved at the end
+            if (kind === 'L') this.targets.push({ instruction: asm, operand });
+        });
+        this.checkBitName(asm);
+        this.instructions.push(asm);
+        this.address += 2 * instruction.words;
+    }
+
+    private define(name: string, start: number): void {
+        if (/^\d+$/.test(name)) {
+            this.local.push({ name, address: this.address });
+        } else if (this.labels.has(name)) {
+            fail('redeclared', `Label ${name} is defined twice`, this.span(start, start + name.length));
+        } else {
+            this.labels.set(name, this.address);
+        }
+    }
+
+    private operand(mnemonic: string, kind: OperandKind, start: number, end: number): Operand {
+        const text = this.source.slice(start, end);
+        const span = this.span(start, end);
+        const operand: Operand = { text, span, value: 0, literals: [] };
+        if (!text) fail('missing-token', `\`${mnemonic}\` is missing an operand`, span, `\`${mnemonic} ${INSTRUCTIONS[mnemonic].syntax}\``);
+
+        switch (kind) {
+            case 'r':
+            case 'd': {
+                const match = /^r(\d\d?)$/i.exec(text);
+                const n = match ? Number(match[1]) : -1;
+                if (n < 0 || n > 31) {
+                    const fix = this.device.allRegisterNames.has(text)
+                        ? `${text} is an I/O register — read it into a CPU register first: \`${this.device.registerMap[text].ioAddress !== null ? 'in' : 'lds'} r24, ${text}\``
+                        : undefined;
+                    fail('bad-operand', `\`${mnemonic}\` expects a register r0–r31 here, not \`${text}\``, span, fix);
+                }
+                if (kind === 'd' && n < 16) {
+                    fail('bad-operand', `\`${mnemonic}\` works on r16–r31 only`, span, 'use a register from r16 up, e.g. `r24`');
+                }
+                operand.value = n;
+                return operand;
+            }
+            case 'L':
+                return operand;
+        }
+
+        const where = kind === 'A' || kind === 'a' ? 'io' : kind === 'm' ? 'data' : 'value';
+        const parser = new ConstantParser(this.source, start, end, this.device, where);
+        const value = parser.parse();
+        operand.literals = parser.literals;
+        operand.value = value;
+
+        if (kind === 'K') {
+            // Down to -256, so the complement of a byte mask, `~(1<<7)`, fits
+            if (value < -0x100 || value > 0xFF) {
+                fail('bad-operand', `\`${text}\` (${value}) does not fit in 8 bits`, span, value > 0xFF ? 'split it with `lo8()` and `hi8()`' : undefined);
+            }
+            operand.value = value & 0xFF;
+        } else if (kind === 'b') {
+            if (value < 0 || value > 7) fail('bad-operand', `Bit ${value} is not a bit of a byte (0–7)`, span);
+            if (parser.bits.length === 1 && text === parser.bits[0]) operand.bitName = text;
+        } else if (kind === 'm') {
+            const info = this.maps.data.get(value);
+            if (!info) fail('bad-operand', `No register at data address ${formatAddress(value)} on the ${this.device.name}`, span);
+            operand.register = info.name;
+        } else {
+            const limit = kind === 'a' ? 0x1F : 0x3F;
+            const name = parser.registers.length === 1 ? parser.registers[0] : null;
+            if (value < 0 || value > limit) {
+                if (kind === 'a') {
+                    const at = name ?? formatAddress(value);
+                    const fix = mnemonic === 'sbi' || mnemonic === 'cbi'
+                        ? `\`in r24, ${at}\`, \`${mnemonic === 'sbi' ? 'ori' : 'andi'} r24, …\`, \`out ${at}, r24\``
+                        : `\`in r24, ${at}\`, then \`${mnemonic === 'sbis' ? 'sbrs' : 'sbrc'} r24, …\``;
+                    fail('bad-operand', `\`${mnemonic}\` only reaches I/O 0x00–0x1F; ${name ? `${name} is at ${formatAddress(value)}` : `${at} is above it`}`, span, fix);
+                }
+                fail('bad-operand', `${formatAddress(value)} is not an I/O address (0x00–0x3F)`, span, 'use `lds`/`sts` with the data address');
+            }
+            const info = this.maps.io.get(value);
+            if (!info) fail('bad-operand', `No register at I/O ${formatAddress(value)} on the ${this.device.name}`, span);
+            operand.register = info.name;
+        }
+        return operand;
+    }
+
+    // `sbi PORTB, PD3`: a bit name from another register
+    private checkBitName(asm: AsmInstruction): void {
+        if (this.bitNameCheck === 'off') return;
+        const [target, bit] = asm.operands;
+        if (!bit?.bitName || !target.register || bitBelongsTo(this.device, bit.bitName, target.register)) return;
+        const message = `${bit.bitName} is a bit of ${this.device.bitOwners[bit.bitName].join('/')}, not ${target.register}`;
+        if (this.bitNameCheck === 'error') fail('bit-name-mismatch', message, bit.span);
+        this.diagnostics.push({ code: 'bit-name-mismatch', severity: 'warning', message, span: bit.span });
+    }
+
+    // The index of the instruction a jump goes to; the end of the program counts
+    private resolve(from: AsmInstruction, operand: Operand): number {
+        const { text, span } = operand;
+        let address: number;
+        const local = /^(\d+)([bf])$/.exec(text);
+        if (text.startsWith('.')) {
+            const offset = text.slice(1).trim();
+            const start = operand.span.start + text.indexOf(offset);
+            address = from.address + 2 + (offset ? new ConstantParser(this.source, start, operand.span.end, this.device, 'value').parse() : 0);
+        } else if (local) {
+            const candidates = this.local.filter(l => l.name === local[1]);
+            const found = local[2] === 'b'
+                ? candidates.filter(l => l.address <= from.address).pop()
+                : candidates.find(l => l.address > from.address);
+            if (!found) fail('unknown-identifier', `No label ${local[1]}: ${local[2] === 'b' ? 'before' : 'after'} this jump`, span);
+            address = found.address;
+        } else {
+            const label = this.labels.get(text);
+            if (label === undefined) fail('unknown-identifier', `Unknown label: ${text}`, span, didYouMean(text, this.labels.keys()));
+            address = label;
+        }
+        if (address === this.address) return this.instructions.length;
+        const index = this.instructions.findIndex(i => i.address === address);
+        if (index < 0) fail('bad-operand', `\`${text}\` does not land on an instruction`, span, 'relative jumps count bytes: 2 per word');
+        return index;
+    }
+}
+
+/**
+ * Assemble an answer. Throws a DiagnosticError at the first error; warnings
+ * (bit names from another register) go to `diagnostics`.
+ */
+export function assemble(
+    code: string,
+    device: DeviceProfile = getActiveDevice(),
+    bitNameCheck: BitNameCheck = 'warn',
+    diagnostics: Diagnostic[] = []
+): AsmInstruction[] {
+    const assembler = new Assembler(code, device, bitNameCheck);
+    const instructions = assembler.assemble();
+    diagnostics.push(...assembler.diagnostics);
+    return instructions;
+}
+
+// Whether a step op is an instruction of an assembly answer
+export function isAssemblyOp(op: string): boolean {
+    return op in INSTRUCTIONS;
+}
+
+/**
+ * Whether a step op is a jump, skip or branch of an assembly answer, which
+ * the timeline shows like a C condition.
+ */
+export function isAssemblyBranch(op: string): boolean {
+    return op in BRANCHES || ['rjmp', 'sbis', 'sbic', 'sbrs', 'sbrc', 'nop'].includes(op);
+}
+
+// "sets Z, C; clears N"
+function flagNote(before: number, after: number): string | undefined {
+    const names = (mask: number) => [...FLAGS].filter((_, i) => mask & (1 << i)).reverse().join(', ');
+    const set = after & ~before;
+    const cleared = before & ~after;
+    const parts = [set ? `sets ${names(set)}` : '', cleared ? `clears ${names(cleared)}` : ''].filter(Boolean);
+    return parts.length ? parts.join('; ') : undefined;
+}
+
+/**
+ * The AVR core running an assembled answer: r0–r31 and SREG, one instruction
+ * at a time. I/O goes through `read` and the effects handed to `execute`.
+ */
+export class AssemblyMachine implements Runner {
+    private code: string;
+    private device: DeviceProfile;
+    private read: (register: string) => number;
+    private execute: (effect: Effect) => void;
+    private bitNameCheck: BitNameCheck;
+    private r: number[] = new Array(32).fill(0);
+    private sreg = 0;
+    diagnostics: Diagnostic[] = [];
+    variables: Record<string, number> = {};   // last value of every CPU register written
+
+    constructor(
+        code: string,
+        device: DeviceProfile,
+        read: (register: string) => number,
+        execute: (effect: Effect) => void,
+        bitNameCheck: BitNameCheck = 'warn'
+    ) {
+        this.code = code;
+        this.device = device;
+        this.read = read;
+        this.execute = execute;
+        this.bitNameCheck = bitNameCheck;
+    }
+
+    get cpu(): CpuState {
+        return { registers: [...this.r], sreg: this.sreg };
+    }
+
+    run(): void {
+        const program = assemble(this.code, this.device, this.bitNameCheck, this.diagnostics);
+        let jumps = 0;
+        for (let pc = 0; pc < program.length;) {
+            const next = this.step(program, pc);
+            if (next <= pc && ++jumps > MAX_BACKWARD_JUMPS) {
+                fail('loop-limit', `Still looping after ${MAX_BACKWARD_JUMPS} jumps back — the loop never ends`, program[pc].span);
+            }
+            pc = next;
+        }
+    }
+
+    private flag(flag: Flag): number {
+        return (this.sreg >> FLAGS.indexOf(flag)) & 1;
+    }
+
+    // SREG with the given flags changed
+    private withFlags(flags: Partial<Record<Flag, boolean | number>>): number {
+        let sreg = this.sreg;
+        for (const [flag, on] of Object.entries(flags)) {
+            const mask = 1 << FLAGS.indexOf(flag);
+            sreg = on ? sreg | mask : sreg & ~mask;
+        }
+        return sreg;
+    }
+
+    // N, Z and S = N ^ V for a result, with V as given
+    private resultFlags(result: number, v: boolean | number, extra: Partial<Record<Flag, boolean | number>> = {}): number {
+        const n = (result >> 7) & 1;
+        return this.withFlags({ ...extra, V: v, N: n, Z: result === 0, S: n ^ Number(!!v) });
+    }
+
+    private add(d: number, r: number, carry: number): { result: number; sreg: number } {
+        const sum = d + r + carry;
+        const result = sum & 0xFF;
+        return {
+            result,
+            sreg: this.resultFlags(result, ((d ^ result) & (r ^ result) & 0x80) !== 0, {
+                H: (d & 0xF) + (r & 0xF) + carry > 0xF, C: sum > 0xFF,
+            }),
+        };
+    }
+
+    // `keepZ`: SBC, SBCI and CPC only clear Z, so multi-byte compares work
+    private subtract(d: number, r: number, carry: number, keepZ = false): { result: number; sreg: number } {
+        const result = (d - r - carry) & 0xFF;
+        const sreg = this.resultFlags(result, ((d ^ r) & (d ^ result) & 0x80) !== 0, {
+            H: (d & 0xF) < (r & 0xF) + carry, C: d < r + carry,
+        });
+        const z = 1 << FLAGS.indexOf('Z');
+        return { result, sreg: keepZ && result === 0 ? (sreg & ~z) | (this.sreg & z) : sreg };
+    }
+
+    // Shifts right: C takes bit 0, V = N ^ C
+    private shiftRight(d: number, top: number): { result: number; sreg: number } {
+        const result = top | (d >> 1);
+        const c = d & 1;
+        return { result, sreg: this.resultFlags(result, ((result >> 7) & 1) ^ c, { C: c }) };
+    }
+
+    // Rd takes `value`; SREG takes `sreg` when given
+    private setRegister(ins: AsmInstruction, d: number, value: number, operand: number, sreg = this.sreg, note?: string): void {
+        const before = this.r[d];
+        const flags = flagNote(this.sreg, sreg);
+        this.r[d] = value & 0xFF;
+        this.sreg = sreg;
+        this.variables[`r${d}`] = this.r[d];
+        this.execute({
+            kind: 'variable', name: `r${d}`, op: ins.mnemonic, value: operand & 0xFF, before, after: this.r[d],
+            note: [note, flags].filter(Boolean).join('; ') || undefined, span: ins.span, cycles: ins.cycles,
+        });
+    }
+
+    // An instruction that only changes SREG
+    private setSreg(ins: AsmInstruction, sreg: number, operand: number): void {
+        const before = this.sreg;
+        this.sreg = sreg;
+        this.execute({
+            kind: 'variable', name: 'SREG', op: ins.mnemonic, value: operand & 0xFF, before, after: sreg,
+            note: flagNote(before, sreg), span: ins.span, cycles: ins.cycles,
+        });
+    }
+
+    private jump(ins: AsmInstruction, op: string, value: number, note: string, cycles: number, register = ''): void {
+        this.execute({ kind: 'branch', register, value, op, note, span: ins.span, cycles });
+    }
+
+    private text(ins: AsmInstruction | undefined): string {
+        return ins ? this.code.slice(ins.span.start, ins.span.end).replace(/\s+/g, ' ') : 'the end';
+    }
+
+    // Where a jump goes, for the notes: the target as written
+    private targetText(ins: AsmInstruction): string {
+        return `\`${ins.operands[0].text}\``;
+    }
+
+    private step(program: AsmInstruction[], pc: number): number {
+        const ins = program[pc];
+        const [a, b] = ins.operands;
+        const d = a?.value ?? 0;
+        const rd = this.r[d];
+        const rr = b ? this.r[b.value] : 0;
+        const k = b?.value ?? 0;
+        const m = ins.mnemonic;
+
+        const skip = (taken: boolean, tested: string, bit: number, register = ''): number => {
+            const next = program[pc + 1];
+            const cycles = taken ? 1 + (next?.words ?? 1) : 1;
+            const set = (m === 'sbis' || m === 'sbrs') === taken;
+            this.jump(ins, m, taken ? 1 : 0,
+                `${tested} bit ${bit} is ${set ? 'set' : 'clear'} → ${taken ? `skips \`${this.text(next)}\`` : 'no skip'}`, cycles, register);
+            return taken ? pc + 2 : pc + 1;
+        };
+
+        switch (m) {
+            case 'ldi': this.setRegister(ins, d, k, k); break;
+            case 'ser': this.setRegister(ins, d, 0xFF, 0xFF); break;
+            case 'mov': this.setRegister(ins, d, rr, rr); break;
+            case 'clr': this.setRegister(ins, d, 0, 0, this.resultFlags(0, false)); break;
+            case 'in':
+            case 'lds': {
+                const register = b.register!;
+                const value = register === 'SREG' ? this.sreg : this.read(register);
+                this.setRegister(ins, d, value, value, this.sreg, `reads ${register}`);
+                break;
+            }
+            case 'out':
+            case 'sts': {
+                const register = a.register!;
+                if (register === 'SREG') this.setSreg(ins, rr, rr);
+                else this.execute({ kind: 'assign', register, value: rr, op: m, span: ins.span, cycles: ins.cycles });
+                break;
+            }
+            case 'sbi':
+            case 'cbi':
+                this.execute({ kind: 'assign', register: a.register!, value: 1 << k, op: m, span: ins.span, cycles: ins.cycles });
+                break;
+            case 'sbis':
+            case 'sbic': {
+                const set = (this.read(a.register!) >> k) & 1;
+                return skip(m === 'sbis' ? set === 1 : set === 0, a.register!, k, a.register);
+            }
+            case 'sbrs':
+            case 'sbrc': {
+                const set = (rd >> k) & 1;
+                return skip(m === 'sbrs' ? set === 1 : set === 0, `r${d}`, k);
+            }
+            case 'ori':
+            case 'sbr': this.setRegister(ins, d, rd | k, k, this.resultFlags(rd | k, false)); break;
+            case 'andi': this.setRegister(ins, d, rd & k, k, this.resultFlags(rd & k, false)); break;
+            case 'cbr': this.setRegister(ins, d, rd & ~k, k, this.resultFlags(rd & ~k & 0xFF, false)); break;
+            case 'or': this.setRegister(ins, d, rd | rr, rr, this.resultFlags(rd | rr, false)); break;
+            case 'and': this.setRegister(ins, d, rd & rr, rr, this.resultFlags(rd & rr, false)); break;
+            case 'eor': this.setRegister(ins, d, rd ^ rr, rr, this.resultFlags(rd ^ rr, false)); break;
+            case 'tst': this.setSreg(ins, this.resultFlags(rd, false), rd); break;
+            case 'com': this.setRegister(ins, d, ~rd, 0xFF, this.resultFlags(~rd & 0xFF, false, { C: true })); break;
+            case 'add':
+            case 'adc':
+            case 'lsl':
+            case 'rol': {
+                const [operand, carry] = m === 'add' || m === 'adc' ? [rr, m === 'adc' ? this.flag('C') : 0] : [rd, m === 'rol' ? this.flag('C') : 0];
+                const { result, sreg } = this.add(rd, operand, carry);
+                this.setRegister(ins, d, result, m === 'lsl' || m === 'rol' ? 1 : operand, sreg);
+                break;
+            }
+            case 'sub':
+            case 'sbc':
+            case 'subi':
+            case 'sbci':
+            case 'neg': {
+                const operand = m === 'sub' || m === 'sbc' ? rr : m === 'neg' ? rd : k;
+                const carry = m === 'sbc' || m === 'sbci' ? this.flag('C') : 0;
+                const { result, sreg } = m === 'neg' ? this.subtract(0, rd, 0) : this.subtract(rd, operand, carry, m === 'sbc' || m === 'sbci');
+                this.setRegister(ins, d, result, operand, sreg);
+                break;
+            }
+            case 'cp':
+            case 'cpc':
+            case 'cpi': {
+                const operand = m === 'cpi' ? k : rr;
+                this.setSreg(ins, this.subtract(rd, operand, m === 'cpc' ? this.flag('C') : 0, m === 'cpc').sreg, operand);
+                break;
+            }
+            case 'inc':
+            case 'dec': {
+                const result = (rd + (m === 'inc' ? 1 : -1)) & 0xFF;
+                this.setRegister(ins, d, result, 1, this.resultFlags(result, result === (m === 'inc' ? 0x80 : 0x7F)));
+                break;
+            }
+            case 'lsr':
+            case 'ror':
+            case 'asr': {
+                const top = m === 'lsr' ? 0 : m === 'ror' ? this.flag('C') << 7 : rd & 0x80;
+                const { result, sreg } = this.shiftRight(rd, top);
+                this.setRegister(ins, d, result, 1, sreg);
+                break;
+            }
+            case 'swap': this.setRegister(ins, d, ((rd << 4) | (rd >> 4)) & 0xFF, 4); break;
+            case 'nop': this.jump(ins, m, 0, 'does nothing for a cycle', 1); break;
+            case 'rjmp': {
+                const target = a.value;
+                this.jump(ins, m, 1, `jumps to ${target === pc + 1 ? 'the next instruction' : this.targetText(ins)}`, ins.cycles);
+                return target;
+            }
+            default: {
+                if (m in BRANCHES) {
+                    const [flag, when] = BRANCHES[m];
+                    const taken = this.flag(flag) === when;
+                    this.jump(ins, m, taken ? 1 : 0,
+                        `${flag} is ${this.flag(flag) ? 'set' : 'clear'} → ${taken ? `jumps to ${this.targetText(ins)}` : 'no jump'}`, taken ? 2 : 1);
+                    return taken ? a.value : pc + 1;
+                }
+                // sec/clc … sei/cli
+                const flag = m[2].toUpperCase() as Flag;
+                this.setSreg(ins, this.withFlags({ [flag]: m.startsWith('se') }), 0);
+            }
+        }
+        return pc + 1;
+    }
+}
+
+/**
+ * Check an assembly answer against a question's constraints: the number of
+ * instructions, the registers it must write, hex constants, named bits and
+ * magic numbers. Operator rules are about C and do not apply. Code that does
+ * not assemble returns none, as the evaluator reports that already.
+ */
+export function checkAssemblyConstraints(
+    code: string,
+    constraints: AnswerConstraints,
+    device: DeviceProfile = getActiveDevice()
+): Diagnostic[] {
+    let program: AsmInstruction[];
+    try {
+        program = assemble(code, device, 'off');
+    } catch {
+        return [];
+    }
+
+    const violations: Diagnostic[] = [];
+    const whole = spanAt(code, 0, code.trimEnd().length);
+    const report = (rule: DiagnosticCode, message: string, span: SourceSpan, fix?: string) => {
+        violations.push({ code: rule, severity: 'error', message, span, ...(fix ? { fix } : {}) });
+    };
+
+    const literals = program.flatMap(ins => ins.operands.filter(o => !o.register).flatMap(o => o.literals));
+    if (constraints.requireHex) {
+        const constants = program.flatMap(ins => ins.operands.filter((_, i) => INSTRUCTIONS[ins.mnemonic].operands[i] === 'K'));
+        for (const n of constants.flatMap(o => o.literals).filter(n => !/^0x/i.test(n.raw))) {
+            report('require-hex', `\`${n.raw}\` should be written in hex`, n.span, `write it as \`${hex(n.value)}\``);
+        }
+    }
+    if (constraints.forbidMagicNumbers) {
+        for (const n of literals.filter(n => n.value > 1)) {
+            report('magic-number', `Magic number \`${n.raw}\``, n.span, 'use named bits, e.g. `sbi PORTB, PB3` or `ori r24, (1<<TXEN0)`');
+        }
+    }
+    if (constraints.requireNamedBits) {
+        const bits = program.flatMap(ins => ins.operands.filter((_, i) => INSTRUCTIONS[ins.mnemonic].operands[i] === 'b'));
+        for (const bit of bits.filter(o => !o.bitName)) {
+            report('require-named-bits', `Bit \`${bit.text}\` should be a named bit`, bit.span);
+        }
+    }
+
+    for (const register of constraints.requiredWrites ?? []) {
+        const writes = program.some(ins => ['out', 'sts', 'sbi', 'cbi'].includes(ins.mnemonic) && ins.operands[0].register === register);
+        if (!writes) report('required-write', `This answer must write \`${register}\``, whole);
+    }
+    const max = constraints.maxInstructions ?? constraints.maxStatements;
+    if (max !== undefined && program.length > max) {
+        report('too-many-statements', `Use at most ${max} instruction${max === 1 ? '' : 's'} — this answer has ${program.length}`, program[max].span);
+    }
+    return violations;
+}
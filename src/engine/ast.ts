@@ -0,0 +1,241 @@
+// AST for answers — what the parser builds, the evaluator runs and the
+// formatter prints. Every node carries the span of source it came from.
+
+import type { SourceSpan } from './diagnostics';
+
+export type BinaryOperator =
+    | '||' | '&&' | '|' | '^' | '&'
+    | '==' | '!=' | '<' | '>' | '<=' | '>='
+    | '<<' | '>>' | '+' | '-' | '*' | '/' | '%';
+
+export type UnaryOperator = '~' | '!' | '-' | '+';
+
+export type AssignOperator = '=' | '|=' | '&=' | '^=' | '+=' | '-=' | '*=' | '/=' | '%=' | '<<=' | '>>=';
+
+export type WaitMacro = 'loop_until_bit_is_set' | 'loop_until_bit_is_clear';
+
+// A number as written; raw keeps the radix (0x20, 0b100000, 32)
+export interface NumberLiteral {
+    kind: 'number';
+    value: number;
+    raw: string;
+    span: SourceSpan;
+}
+
+// A name, resolved while parsing to what it refers to
+export interface NameReference {
+    kind: 'name';
+    name: string;
+    ref: 'register' | 'bit' | 'variable';
+    span: SourceSpan;
+}
+
+export interface UnaryExpression {
+    kind: 'unary';
+    op: UnaryOperator;
+    operand: Expression;
+    span: SourceSpan;
+}
+
+export interface BinaryExpression {
+    kind: 'binary';
+    op: BinaryOperator;
+    left: Expression;
+    right: Expression;
+    opSpan: SourceSpan;
+    span: SourceSpan;
+}
+
+export interface ConditionalExpression {
+    kind: 'conditional';
+    test: Expression;
+    consequent: Expression;
+    alternate: Expression;
+    span: SourceSpan;
+}
+
+// ++x, x--, ... used as a value
+export interface UpdateExpression {
+    kind: 'update';
+    op: '++' | '--';
+    prefix: boolean;
+    target: NameReference;
+    span: SourceSpan;
+}
+
+// _BV(bit), bit_is_set(sfr, bit), bit_is_clear(sfr, bit); the sfr is a register name
+export interface MacroCall {
+    kind: 'call';
+    callee: '_BV' | 'bit_is_set' | 'bit_is_clear';
+    args: Expression[];
+    span: SourceSpan;
+}
+
+// Where an operand belongs in code that ends early, e.g. after `PORTB |= (1<<`;
+// only partial parses (parsePartial) contain it
+export interface MissingExpression {
+    kind: 'missing';
+    span: SourceSpan;
+}
+
+export type Expression =
+    | NumberLiteral | NameReference | UnaryExpression | BinaryExpression
+    | ConditionalExpression | UpdateExpression | MacroCall | MissingExpression;
+
+export interface Assignment {
+    kind: 'assign';
+    target: NameReference;
+    op: AssignOperator;
+    value: Expression;
+    span: SourceSpan;
+}
+
+// x++; or --x; as a statement
+export interface Increment {
+    kind: 'increment';
+    op: '++' | '--';
+    prefix: boolean;
+    target: NameReference;
+    span: SourceSpan;
+}
+
+export interface Declarator {
+    name: string;
+    init: Expression | null;
+    span: SourceSpan;
+}
+
+// [volatile] [const] type a [= init], b ...;
+export interface Declaration {
+    kind: 'declaration';
+    qualifiers: ('volatile' | 'const')[];
+    type: string;
+    declarators: Declarator[];
+    span: SourceSpan;
+}
+
+// loop_until_bit_is_set(sfr, bit);
+export interface Wait {
+    kind: 'wait';
+    macro: WaitMacro;
+    register: NameReference;
+    bit: Expression;
+    span: SourceSpan;
+}
+
+export interface IfStatement {
+    kind: 'if';
+    test: Expression;
+    consequent: Statement;
+    alternate: Statement | null;
+    span: SourceSpan;
+}
+
+export interface WhileStatement {
+    kind: 'while';
+    test: Expression;
+    body: Statement;
+    keywordSpan: SourceSpan;
+    span: SourceSpan;
+}
+
+// A missing test is always true
+export interface ForStatement {
+    kind: 'for';
+    init: Declaration | Assignment | Increment | null;
+    test: Expression | null;
+    update: Assignment | Increment | null;
+    body: Statement;
+    keywordSpan: SourceSpan;
+    span: SourceSpan;
+}
+
+export interface Block {
+    kind: 'block';
+    body: Statement[];
+    span: SourceSpan;
+}
+
+// A lone ;
+export interface EmptyStatement {
+    kind: 'empty';
+    span: SourceSpan;
+}
+
+export type Statement =
+    | Assignment | Increment | Declaration | Wait
+    | IfStatement | WhileStatement | ForStatement | Block | EmptyStatement;
+
+export interface Program {
+    body: Statement[];
+}
+
+// Call `visit` on every node of an expression, parents first, left to right
+export function walkExpression(expression: Expression, visit: (node: Expression) => void): void {
+    visit(expression);
+    switch (expression.kind) {
+        case 'unary':
+            walkExpression(expression.operand, visit);
+            break;
+        case 'binary':
+            walkExpression(expression.left, visit);
+            walkExpression(expression.right, visit);
+            break;
+        case 'conditional':
+            walkExpression(expression.test, visit);
+            walkExpression(expression.consequent, visit);
+            walkExpression(expression.alternate, visit);
+            break;
+        case 'update':
+            walkExpression(expression.target, visit);
+            break;
+        case 'call':
+            for (const arg of expression.args) walkExpression(arg, visit);
+            break;
+    }
+}
+
+// Registers an expression reads, in order of first appearance
+export function registersIn(expression: Expression): string[] {
+    const registers: string[] = [];
+    walkExpression(expression, node => {
+        if (node.kind === 'name' && node.ref === 'register' && !registers.includes(node.name)) registers.push(node.name);
+    });
+    return registers;
+}
+
+// Call `visit` on a statement and every statement nested in it
+export function walkStatement(statement: Statement, visit: (node: Statement) => void): void {
+    visit(statement);
+    switch (statement.kind) {
+        case 'if':
+            walkStatement(statement.consequent, visit);
+            if (statement.alternate) walkStatement(statement.alternate, visit);
+            break;
+        case 'while':
+            walkStatement(statement.body, visit);
+            break;
+        case 'for':
+            if (statement.init) walkStatement(statement.init, visit);
+            if (statement.update) walkStatement(statement.update, visit);
+            walkStatement(statement.body, visit);
+            break;
+        case 'block':
+            for (const child of statement.body) walkStatement(child, visit);
+            break;
+    }
+}
+
+// Expressions that belong to a statement itself, not to statements nested in it
+export function expressionsOf(statement: Statement): Expression[] {
+    switch (statement.kind) {
+        case 'assign': return [statement.target, statement.value];
+        case 'increment': return [statement.target];
+        case 'declaration': return statement.declarators.flatMap(d => (d.init ? [d.init] : []));
+        case 'wait': return [statement.register, statement.bit];
+        case 'if':
+        case 'while': return [statement.test];
+        case 'for': return statement.test ? [statement.test] : [];
+        default: return [];
+    }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { gradeSubmissions, parseCsv, parseQuestionSpecs, parseSubmissions, resultsToCsv, resultsToHtml } from './autograder';
+
+const questions = parseQuestionSpecs(JSON.stringify({
+    device: 'atmega328p',
+    questions: [{ id: 'q1', register: 'PORTB', initialValue: '0x84', sampleAnswer: 'PORTB |= (1<<PB2);' }],
+}));
+
+describe('question specs', () => {
+    it('works out the expected value from the sample answer', () => {
+        expect(questions[0]).toMatchObject({ register: 'PORTB', initialValue: 0x84, expectedValue: 0x84 });
+    });
+
+    it('names the question at the first problem', () => {
+        const spec = (q: object) => JSON.stringify({ device: 'atmega328p', questions: [q] });
+        expect(() => parseQuestionSpecs(spec({ id: 'q1', register: 'PORTZ', expectedValue: 1 })))
+            .toThrow('question q1: ATmega328P has no register PORTZ');
+        expect(() => parseQuestionSpecs(spec({ id: 'q2', register: 'PORTB' })))
+            .toThrow('question q2: give expectedValue or a sampleAnswer to work it out from');
+        expect(() => parseQuestionSpecs(spec({ id: 'q3', register: 'PORTB', expectedValue: 'lots' })))
+            .toThrow('question q3: expectedValue "lots" is not a number');
+    });
+});
+
+describe('submissions', () => {
+    it('reads quoted fields holding commas, quotes and newlines', () => {
+        expect(parseCsv('a,"b, c","say ""hi""\nthere"\r\n\r\nd,e,f\n')).toEqual([['a', 'b, c', 'say "hi"\nthere'], ['d', 'e', 'f']]);
+    });
+
+    it('finds the columns by name, in any order', () => {
+        const submissions = parseSubmissions('\uFEFFCode,Question ID,Student\n"PORTB |= 4;",q1, ada \n');
+        expect(submissions).toEqual([{ student: 'ada', questionId: 'q1', code: 'PORTB |= 4;' }]);
+        expect(() => parseSubmissions('student,code\n')).toThrow('the submissions file has no "questionId" column');
+    });
+
+    it('grades each submission with its verdict, error and final value', () => {
+        const [right, wrong, broken, unknown] = gradeSubmissions(questions, [
+            { student: 'ada', questionId: 'q1', code: 'PORTB |= (1<<PB2);' },
+            { student: 'bob', questionId: 'q1', code: 'PORTB = 0x04;' },
+            { student: 'cy', questionId: 'q1', code: 'PORTB |= (1<<;' },
+            { student: 'dee', questionId: 'q9', code: 'PORTB = 1;' },
+        ]);
+        expect(right).toMatchObject({ correct: true, expected: 0x84, actual: 0x84 });
+        expect(wrong).toMatchObject({ correct: false, expected: 0x84, actual: 0x04 });
+        expect(wrong.error).toBeUndefined();
+        expect(broken).toMatchObject({ correct: false, actual: null });
+        expect(broken.error).toBeTruthy();
+        expect(unknown).toMatchObject({ correct: false, error: 'Unknown question q9' });
+    });
+});
+
+describe('results CSV', () => {
+    it.each(['=HYPERLINK("http://x","y")', '+1', '-2+3', '@SUM(A1)'])('keeps %s as text', student => {
+        const csv = resultsToCsv(gradeSubmissions(questions, [{ student, questionId: 'q1', code: 'PORTB |= 4;' }]));
+        const [, row] = parseCsv(csv);
+        expect(row[0]).toBe(`'${student}`);
+        expect(csv.split('\r\n')[1].startsWith(`"'`)).toBe(true);
+    });
+
+    it('leaves ordinary fields as they are', () => {
+        const csv = resultsToCsv(gradeSubmissions(questions, [{ student: 'ada', questionId: 'q1', code: 'PORTB |= 4;' }]));
+        expect(csv.split('\r\n')[1]).toBe('ada,q1,correct,PORTB,0x84,0x84,,');
+    });
+});
+
+describe('results HTML', () => {
+    it('grids students against questions, counting the last submission, and escapes student text', () => {
+        const html = resultsToHtml(gradeSubmissions(questions, [
+            { student: '<b>ada</b>', questionId: 'q1', code: 'PORTB = 0;' },
+            { student: '<b>ada</b>', questionId: 'q1', code: 'PORTB |= 4;' },
+        ]), questions, 'Lab 3');
+        expect(html).toMatch(/^<!DOCTYPE html>/i);
+        expect(html).toContain('<title>Lab 3</title>');
+        expect(html).toContain('&lt;b&gt;ada&lt;/b&gt;');
+        expect(html).not.toContain('<b>ada</b>');
+        expect(html).toMatch(/<td class="cell correct"[^>]*>✓<\/td>/);
+    });
+});
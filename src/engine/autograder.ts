@@ -0,0 +1,352 @@
+// Autograder — grades a batch of submissions (student, question id, code)
+// with checkAnswer against a set of question specs, and writes the results
+// as CSV and as a standalone HTML report.
+
+import { registerWidth, type DeviceProfile } from '../data/device';
+import { getDevice } from '../data/devices';
+import type { AnswerConstraints } from './constraints';
+import { checkAnswer, evaluate, type AnswerLanguage, type BitNameCheck, type CheckOptions } from './evaluator';
+
+// A question as written in a spec file. Values are numbers or strings in
+// hex, binary or decimal; the expected value can come from the sample answer.
+export interface QuestionSpec {
+    id: string;
+    device?: string;                // device id, if not the spec file's
+    prompt?: string;
+    register: string;
+    initialValue?: number | string; // default: initialStates[register], then the reset value
+    expectedValue?: number | string; // default: expectedStates[register], then what sampleAnswer leaves
+    sampleAnswer?: string;
+    checkAllValues?: boolean;       // the answer must match sampleAnswer from every starting value
+    bitNameCheck?: BitNameCheck;
+    language?: AnswerLanguage;      // 'asm': answers and sampleAnswer are AVR assembly
+    constraints?: AnswerConstraints;
+    initialStates?: Record<string, number | string>;
+    expectedStates?: Record<string, number | string>;
+}
+
+// A spec with its values worked out, ready to grade against
+export interface BatchQuestion {
+    id: string;
+    prompt: string;
+    device: DeviceProfile;
+    register: string;
+    initialValue: number;
+    expectedValue: number;
+    options: CheckOptions;
+}
+
+export interface Submission {
+    student: string;
+    questionId: string;
+    code: string;
+}
+
+export interface GradeResult extends Submission {
+    correct: boolean;
+    error?: string;             // the evaluator's error, or an unknown question id
+    register: string;
+    width: 8 | 16;
+    expected: number | null;
+    actual: number | null;      // the register's final value; null when the code does not run
+    // Other registers that differ, broken constraints, a starting value the answer gets wrong
+    details: string[];
+}
+
+// A number, or a string in hex (0x84), binary (0b10000100) or decimal
+export function parseValue(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isInteger(value) && value >= 0 ? value : null;
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text, 16);
+    if (/^0b[01]+$/i.test(text)) return parseInt(text.slice(2), 2);
+    if (/^\d+$/.test(text)) return parseInt(text, 10);
+    return null;
+}
+
+function toHex(value: number, width: 8 | 16): string {
+    const mask = width === 16 ? 0xFFFF : 0xFF;
+    return '0x' + (value & mask).toString(16).toUpperCase().padStart(width / 4, '0');
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function states(values: Record<string, number | string> | undefined, device: DeviceProfile, where: string): Record<string, number> | undefined {
+    if (!values) return undefined;
+    const out: Record<string, number> = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (!device.allRegisterNames.has(name)) throw new Error(`${where}: ${device.name} has no register ${name}`);
+        const parsed = parseValue(value);
+        if (parsed === null) throw new Error(`${where}: ${name} = ${JSON.stringify(value)} is not a number`);
+        out[name] = parsed;
+    }
+    return out;
+}
+
+function resolveQuestion(spec: QuestionSpec, defaultDevice: string): BatchQuestion {
+    const where = `question ${spec.id}`;
+    const device = getDevice(spec.device ?? defaultDevice);
+    if (!device) throw new Error(`${where}: unknown device ${spec.device ?? defaultDevice}`);
+    if (!device.allRegisterNames.has(spec.register)) throw new Error(`${where}: ${device.name} has no register ${spec.register}`);
+
+    if (spec.language !== undefined && spec.language !== 'c' && spec.language !== 'asm') {
+        throw new Error(`${where}: language ${JSON.stringify(spec.language)} is not "c" or "asm"`);
+    }
+    const initialStates = states(spec.initialStates, device, where);
+    const expectedStates = states(spec.expectedStates, device, where);
+    const value = (v: unknown, what: string) => {
+        const parsed = parseValue(v);
+        if (parsed === null) throw new Error(`${where}: ${what} ${JSON.stringify(v)} is not a number`);
+        return parsed;
+    };
+    const initialValue = spec.initialValue !== undefined ? value(spec.initialValue, 'initialValue')
+        : initialStates?.[spec.register] ?? device.registerMap[spec.register]?.resetValue ?? 0;
+
+    let expectedValue = spec.expectedValue !== undefined ? value(spec.expectedValue, 'expectedValue') : expectedStates?.[spec.register];
+    if (expectedValue === undefined) {
+        if (!spec.sampleAnswer) throw new Error(`${where}: give expectedValue or a sampleAnswer to work it out from`);
+        const run = evaluate(spec.sampleAnswer, { ...initialStates, [spec.register]: initialValue }, device, { bitNameCheck: 'off', language: spec.language });
+        if (!run.success) throw new Error(`${where}: the sample answer fails: ${run.error}`);
+        expectedValue = run.registerStates[spec.register] ?? initialValue;
+    }
+    if (spec.checkAllValues && !spec.sampleAnswer) throw new Error(`${where}: checkAllValues needs a sampleAnswer`);
+
+    return {
+        id: spec.id,
+        prompt: spec.prompt ?? '',
+        device,
+        register: spec.register,
+        initialValue,
+        expectedValue,
+        options: {
+            language: spec.language,
+            bitNameCheck: spec.bitNameCheck,
+            constraints: spec.constraints,
+            reference: spec.checkAllValues ? spec.sampleAnswer : undefined,
+            initialStates,
+            expectedStates,
+        },
+    };
+}
+
+/**
+ * Read a question spec file: JSON of the form
+ * { "device": "atmega328p", "questions": [QuestionSpec, ...] }.
+ * Throws an Error naming the question at the first problem.
+ */
+export function parseQuestionSpecs(json: string): BatchQuestion[] {
+    const file = JSON.parse(json);
+    if (typeof file !== 'object' || file === null || !Array.isArray(file.questions)) {
+        throw new Error('a spec file holds { "device": "...", "questions": [...] }');
+    }
+    const defaultDevice = typeof file.device === 'string' ? file.device : 'atmega2560';
+    const ids = new Set<string>();
+    return file.questions.map((spec: QuestionSpec, i: number) => {
+        if (typeof spec?.id !== 'string' || typeof spec.register !== 'string') {
+            throw new Error(`question ${i + 1}: every question needs an "id" and a "register"`);
+        }
+        if (ids.has(spec.id)) throw new Error(`question ${spec.id}: the id is used twice`);
+        ids.add(spec.id);
+        return resolveQuestion(spec, defaultDevice);
+    });
+}
+
+/** Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas, quotes and newlines). */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',') {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines are not rows
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+// Quoted when needed. Text a spreadsheet would run as a formula (=, +, -, @,
+// tab or CR first) gets a leading ' so student input stays text.
+function csvField(value: string): string {
+    if (/^[=+\-@\t\r]/.test(value)) value = `'${value}`;
+    return /^'|[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Read submissions from CSV with a header row naming the columns student,
+ * questionId and code, in any order (case and spaces ignored).
+ */
+export function parseSubmissions(csv: string): Submission[] {
+    const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+    if (!header) throw new Error('the submissions file is empty');
+    const key = (name: string) => name.trim().toLowerCase().replace(/[\s_]/g, '');
+    const column = (name: string) => {
+        const index = header.findIndex(h => key(h) === key(name));
+        if (index < 0) throw new Error(`the submissions file has no "${name}" column (found: ${header.join(', ')})`);
+        return index;
+    };
+    const student = column('student');
+    const questionId = column('questionId');
+    const code = column('code');
+    return rows.map(row => ({
+        student: (row[student] ?? '').trim(),
+        questionId: (row[questionId] ?? '').trim(),
+        code: row[code] ?? '',
+    }));
+}
+
+/** Grade every submission against its question. */
+export function gradeSubmissions(questions: BatchQuestion[], submissions: Submission[]): GradeResult[] {
+    const byId = new Map(questions.map(q => [q.id, q]));
+    return submissions.map(submission => {
+        const question = byId.get(submission.questionId);
+        if (!question) {
+            return {
+                ...submission, correct: false, error: `Unknown question ${submission.questionId}`,
+                register: '', width: 8, expected: null, actual: null, details: [],
+            };
+        }
+        const { device, register, initialValue, expectedValue, options } = question;
+        const check = checkAnswer(submission.code, register, initialValue, expectedValue, device, options);
+        const hex = (name: string, value: number) => toHex(value, registerWidth(device, name));
+        const others = check.differences.filter(d => d.register !== register).map(d => d.unintended
+            ? `${d.register} changed to ${hex(d.register, d.actual)}`
+            : `${d.register} = ${hex(d.register, d.actual)}, expected ${hex(d.register, d.expected)}`);
+        return {
+            ...submission,
+            correct: check.correct,
+            ...(check.error ? { error: check.error } : {}),
+            register,
+            width: registerWidth(device, register),
+            expected: expectedValue,
+            actual: check.userResult,
+            details: [...others, ...check.violations.map(v => v.message)],
+        };
+    });
+}
+
+function verdict(result: GradeResult): 'correct' | 'incorrect' | 'error' {
+    return result.correct ? 'correct' : result.error ? 'error' : 'incorrect';
+}
+
+/** Results as CSV: one row per submission. */
+export function resultsToCsv(results: GradeResult[]): string {
+    const header = ['student', 'questionId', 'verdict', 'register', 'expected', 'actual', 'error', 'details'];
+    const rows = results.map(r => [
+        r.student, r.questionId, verdict(r), r.register,
+        r.expected === null ? '' : toHex(r.expected, r.width),
+        r.actual === null ? '' : toHex(r.actual, r.width),
+        r.error ?? '', r.details.join('; '),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const REPORT_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1d2433; }
+h1 { margin-bottom: 0.25rem; }
+table { border-collapse: collapse; margin: 1rem 0 2rem; }
+th, td { border: 1px solid #d4d8e0; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f1f3f7; }
+.correct { background: #e3f6e8; color: #17692f; }
+.incorrect { background: #fde7e7; color: #9b1c1c; }
+.error { background: #fff4dc; color: #8a5a00; }
+.missing { color: #9aa1ad; }
+.cell { text-align: center; }
+code, pre { font-family: ui-monospace, monospace; font-size: 0.85rem; }
+pre { margin: 0; white-space: pre-wrap; }
+`;
+
+/** A standalone HTML report: a student × question grid, pass rates per question, then every submission. */
+export function resultsToHtml(results: GradeResult[], questions: BatchQuestion[], title = 'Autograder report'): string {
+    const students = [...new Set(results.map(r => r.student))];
+    const ids = [...new Set([...questions.map(q => q.id), ...results.map(r => r.questionId)])];
+    // A student's last submission for a question counts
+    const latest = new Map<string, GradeResult>();
+    for (const r of results) latest.set(`${r.student}\u0000${r.questionId}`, r);
+    const correct = results.filter(r => r.correct).length;
+    const percent = (n: number, total: number) => (total ? Math.round((100 * n) / total) : 0) + '%';
+    const sign = { correct: '✓', incorrect: '✗', error: '!' };
+
+    const gridRows = students.map(student => {
+        const cells = ids.map(id => {
+            const r = latest.get(`${student}\u0000${id}`);
+            if (!r) return '<td class="cell missing">—</td>';
+            const tip = r.error ?? (r.correct ? 'correct' : r.details.join('; ') || `${r.register} = ${r.actual === null ? '?' : toHex(r.actual, r.width)}`);
+            return `<td class="cell ${verdict(r)}" title="${escapeHtml(tip)}">${sign[verdict(r)]}</td>`;
+        });
+        const score = ids.filter(id => latest.get(`${student}\u0000${id}`)?.correct).length;
+        return `<tr><th>${escapeHtml(student)}</th>${cells.join('')}<td>${score} / ${ids.length}</td></tr>`;
+    });
+
+    const questionRows = ids.map(id => {
+        const q = questions.find(q => q.id === id);
+        const graded = students.map(s => latest.get(`${s}\u0000${id}`)).filter((r): r is GradeResult => r !== undefined);
+        const passed = graded.filter(r => r.correct).length;
+        return `<tr><th>${escapeHtml(id)}</th><td>${escapeHtml(q?.prompt ?? 'not in the spec file')}</td>`
+            + `<td><code>${q ? escapeHtml(q.register) : ''}</code></td>`
+            + `<td><code>${q ? toHex(q.expectedValue, registerWidth(q.device, q.register)) : ''}</code></td>`
+            + `<td>${passed} / ${graded.length} (${percent(passed, graded.length)})</td></tr>`;
+    });
+
+    const submissionRows = results.map(r => `<tr>
+        <td>${escapeHtml(r.student)}</td><td>${escapeHtml(r.questionId)}</td>
+        <td class="${verdict(r)}">${verdict(r)}</td>
+        <td><code>${escapeHtml(r.register)}</code></td>
+        <td><code>${r.expected === null ? '' : toHex(r.expected, r.width)}</code></td>
+        <td><code>${r.actual === null ? '' : toHex(r.actual, r.width)}</code></td>
+        <td>${escapeHtml([r.error ?? '', ...r.details].filter(Boolean).join('; '))}</td>
+        <td><pre>${escapeHtml(r.code)}</pre></td>
+    </tr>`);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${results.length} submissions from ${students.length} students on ${ids.length} questions — ${correct} correct (${percent(correct, results.length)}).</p>
+<h2>By student</h2>
+<table>
+<tr><th>Student</th>${ids.map(id => `<th>${escapeHtml(id)}</th>`).join('')}<th>Score</th></tr>
+${gridRows.join('\n')}
+</table>
+<h2>By question</h2>
+<table>
+<tr><th>Question</th><th>Prompt</th><th>Register</th><th>Expected</th><th>Correct</th></tr>
+${questionRows.join('\n')}
+</table>
+<h2>Submissions</h2>
+<table>
+<tr><th>Student</th><th>Question</th><th>Verdict</th><th>Register</th><th>Expected</th><th>Actual</th><th>Details</th><th>Code</th></tr>
+${submissionRows.join('\n')}
+</table>
+</body>
+</html>
+`;
+}
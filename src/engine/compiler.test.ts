@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { assemble } from './assembly';
+import { assemblySource, compileAnswer } from './compiler';
+import { evaluate } from './evaluator';
+
+const device = getDevice('atmega2560')!;
+
+const listing = (code: string) => compileAnswer(code, device)!.statements[0].instructions.map(i => `${i.mnemonic} ${i.operands.join(', ')}`);
+
+describe('statements', () => {
+    it.each([
+        ['PORTB |= (1<<3);', ['SBI PORTB, 3'], 2, true],
+        ['PORTB &= ~(1<<PB2);', ['CBI PORTB, 2'], 2, true],
+        ['PORTL |= (1<<3);', ['LDS r24, PORTL', 'ORI r24, 0x08', 'STS PORTL, r24'], 5, false],
+        ['PORTB |= (1<<PB1) | (1<<PB2);', ['IN r24, PORTB', 'ORI r24, 0x06', 'OUT PORTB, r24'], 3, false],
+        ['UCSR0B = (1<<TXEN0);', ['LDI r24, 0x08', 'STS UCSR0B, r24'], 3, true],
+    ])('compiles %s as avr-gcc does', (code, instructions, cycles, atomic) => {
+        expect(listing(code)).toEqual(instructions);
+        expect(compileAnswer(code, device)!.statements[0]).toMatchObject({ cycles, atomic });
+    });
+
+    it('explains why a read-modify-write is not atomic', () => {
+        const [statement] = compileAnswer('PORTL |= (1<<3);', device)!.statements;
+        expect(statement.note).toContain('PORTL is outside the low I/O space');
+        expect(statement.note).toContain('has its change undone');
+    });
+
+    it('writes a 16-bit register high byte first, through TEMP', () => {
+        expect(listing('OCR1A = 1000;')).toEqual(['LDI r24, 0xE8', 'LDI r25, 0x03', 'STS OCR1AH, r25', 'STS OCR1AL, r24']);
+        expect(compileAnswer('OCR1A = 1000;', device)!.statements[0].atomic).toBe(false);
+    });
+
+    it('adds up the cycles of the answer', () => {
+        expect(compileAnswer('PORTB |= (1<<3);\nPORTL |= (1<<3);', device)!.cycles).toBe(7);
+    });
+});
+
+describe('busy-waits', () => {
+    // PINB is in the low I/O space, SPSR is reached with IN, ADCSRA with LDS
+    it.each([
+        ['loop_until_bit_is_set(PINB, PB0);', 3, 'rjmp .-4'],
+        ['loop_until_bit_is_set(SPSR, SPIF);', 4, 'rjmp .-6'],
+        ['loop_until_bit_is_clear(ADCSRA, ADSC);', 5, 'rjmp .-8'],
+    ])('%s checks every %i cycles', (code, cycles, jump) => {
+        expect(compileAnswer(code, device)!.statements[0].cycles).toBe(cycles);
+        const source = assemblySource(code, device)!;
+        expect(source.split('\n').at(-1)).toBe(jump);
+        // The jump lands back on the first instruction
+        const instructions = assemble(source, device);
+        const last = instructions.at(-1)!;
+        expect(last.operands[0].value).toBe(0);
+    });
+
+    it('runs the loop it compiles to until the bit is set', () => {
+        const source = assemblySource('loop_until_bit_is_set(SPSR, SPIF);', device)!;
+        expect(evaluate(source, { SPSR: 0x80 }, device, { language: 'asm' }).success).toBe(true);
+    });
+});
+
+describe('register sources', () => {
+    it('reads the low byte of a 16-bit register into an 8-bit one', () => {
+        const compiled = compileAnswer('PORTB = TCNT1;', device)!;
+        expect(compiled.statements[0].instructions.map(i => [i.mnemonic, ...i.operands])).toEqual([
+            ['LDS', 'r24', 'TCNT1L'],
+            ['OUT', 'PORTB', 'r24'],
+        ]);
+    });
+
+    it('gives the same result in assembly as in C', () => {
+        const code = 'PORTB = TCNT1;';
+        const source = assemblySource(code, device)!;
+        const c = evaluate(code, { TCNT1: 0x1234 }, device);
+        const asm = evaluate(source, { TCNT1: 0x1234 }, device, { language: 'asm' });
+        expect(asm.registerStates.PORTB).toBe(0x34);
+        expect(asm.registerStates.PORTB).toBe(c.registerStates.PORTB);
+    });
+});
@@ -0,0 +1,482 @@
+// Compiler — the AVR instructions avr-gcc (-Os) typically emits for each
+// register write and busy-wait of an answer, with cycle counts and whether
+// the write is atomic. The same C idiom is 2 cycles as SBI on a low I/O
+// register and 5 as LDS/ORI/STS on an extended one.
+//
+// Values must be constants or a single register; r24/r25 are the working
+// registers and r1 (__zero_reg__) holds 0, as in avr-gcc output.
+// assemblySource() writes a whole answer out as assembler source, for the
+// assembly variants of questions.
+
+import { formatAddress, type DeviceProfile, type RegisterInfo } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import { walkExpression, walkStatement, type AssignOperator, type Expression, type Program, type Statement } from './ast';
+import type { SourceSpan } from './diagnostics';
+import { evaluateExpression } from './evaluator';
+import { canonicalize, formatExpression } from './formatter';
+import { parse } from './parser';
+
+// Cycles on the classic AVR core; skip instructions take 1 when they do not skip
+const CYCLES: Record<string, number> = {
+    LDI: 1, MOV: 1, IN: 1, OUT: 1, LDS: 2, STS: 2, SBI: 2, CBI: 2,
+    ORI: 1, ANDI: 1, OR: 1, AND: 1, EOR: 1, ADD: 1, SUB: 1, SUBI: 1, SBCI: 1, LSL: 1, LSR: 1,
+    SBIS: 1, SBIC: 1, SBRS: 1, SBRC: 1, RJMP: 2,
+};
+
+// Instructions that take two words (a 16-bit data address); all others take one
+const TWO_WORDS = new Set(['LDS', 'STS']);
+
+const WORK = 'r24';
+const WORK_HIGH = 'r25';
+const SCRATCH = 'r18';
+const ZERO = 'r1';
+
+export interface Instruction {
+    mnemonic: string;      // e.g. 'SBI'
+    operands: string[];    // e.g. ['PORTB', '3']
+    cycles: number;
+    comment?: string;      // e.g. 'I/O 0x05'
+}
+
+export interface CompiledStatement {
+    span: SourceSpan;
+    instructions: Instruction[];   // empty when the statement is not compiled
+    cycles: number;                // a busy-wait: one pass of the loop
+    atomic: boolean;               // no interrupt can come between reading and writing the register
+    note: string;                  // why it is (not) atomic, or why it is not compiled
+}
+
+export interface CompiledProgram {
+    statements: CompiledStatement[];
+    cycles: number | null;   // total, or null when branches, loops or waits make it depend on the run
+}
+
+// A value the compiler can load: a constant, or a register read as it is
+type Source = { kind: 'constant'; value: number } | { kind: 'register'; info: RegisterInfo };
+
+type Listing = { instructions: Instruction[]; atomic: boolean; note: string };
+
+function instruction(mnemonic: string, operands: string[], comment?: string): Instruction {
+    return { mnemonic, operands, cycles: CYCLES[mnemonic], ...(comment ? { comment } : {}) };
+}
+
+function words(i: Instruction): number {
+    return TWO_WORDS.has(i.mnemonic) ? 2 : 1;
+}
+
+function hex8(n: number): string {
+    return '0x' + (n & 0xFF).toString(16).toUpperCase().padStart(2, '0');
+}
+
+function singleBit(mask: number): number | null {
+    return mask && !(mask & (mask - 1)) ? 31 - Math.clz32(mask) : null;
+}
+
+function isLowIo(info: RegisterInfo): boolean {
+    return info.ioAddress !== null && info.ioAddress < 0x20;
+}
+
+// Where IN/OUT or LDS/STS find the register
+function addressOf(info: RegisterInfo): string {
+    return info.ioAddress !== null ? `I/O ${formatAddress(info.ioAddress)}` : `data ${formatAddress(info.dataAddress)}`;
+}
+
+function load(info: RegisterInfo, into: string): Instruction {
+    return instruction(info.ioAddress !== null ? 'IN' : 'LDS', [into, info.name], addressOf(info));
+}
+
+function store(info: RegisterInfo, from: string): Instruction {
+    return instruction(info.ioAddress !== null ? 'OUT' : 'STS', [info.name, from], from === ZERO ? `${addressOf(info)}, r1 = 0` : addressOf(info));
+}
+
+function readModifyWrite(info: RegisterInfo): string {
+    const [read, write] = info.ioAddress !== null ? ['IN', 'OUT'] : ['LDS', 'STS'];
+    return `Read-modify-write: an interrupt that changes ${info.name} between the ${read} and the ${write} has its change undone`;
+}
+
+// What the statement's value is, if the compiler can load it
+function sourceOf(value: Expression, device: DeviceProfile): Source | string {
+    if (value.kind === 'name' && value.ref === 'register') return { kind: 'register', info: device.registerMap[value.name] };
+    const constant = evaluateExpression(value, () => {
+        throw new Error('not constant');
+    }, device);
+    return constant === null
+        ? 'Not compiled: only constant values and single registers are'
+        : { kind: 'constant', value: constant };
+}
+
+// r24 op= source, for an 8-bit register
+function modify(op: AssignOperator, source: Source): Instruction[] | string {
+    if (source.kind === 'register') {
+        const mnemonic = { '|=': 'OR', '&=': 'AND', '^=': 'EOR', '+=': 'ADD', '-=': 'SUB' }[op as string];
+        if (!mnemonic) return `Not compiled: ${op} with a register operand needs a loop or a library call`;
+        return [load(source.info, WORK_HIGH), instruction(mnemonic, [WORK, WORK_HIGH])];
+    }
+    const k = source.value & 0xFF;
+    switch (op) {
+        case '|=': return [instruction('ORI', [WORK, hex8(k)])];
+        case '&=': return [instruction('ANDI', [WORK, hex8(k)])];
+        // There is no EOR with an immediate
+        case '^=': return [instruction('LDI', [WORK_HIGH, hex8(k)]), instruction('EOR', [WORK, WORK_HIGH])];
+        // Nor an ADDI: adding k subtracts -k
+        case '+=': return [instruction('SUBI', [WORK, hex8(-k)], `+ ${k}`)];
+        case '-=': return [instruction('SUBI', [WORK, hex8(k)])];
+        case '<<=':
+        case '>>=':
+            if (source.value >= 8) return `Not compiled: shifting by ${source.value} clears the register`;
+            return Array.from({ length: source.value }, () => instruction(op === '<<=' ? 'LSL' : 'LSR', [WORK]));
+        default:
+            return `Not compiled: avr-gcc calls a library routine for ${op}`;
+    }
+}
+
+function compile8(info: RegisterInfo, op: AssignOperator, source: Source): Listing | string {
+    if (op === '=') {
+        if (source.kind === 'register') {
+            return { instructions: [load(source.info, WORK), store(info, WORK)], atomic: true, note: `Reads ${source.info.name}, then a single store` };
+        }
+        const k = source.value & 0xFF;
+        return {
+            instructions: k === 0 ? [store(info, ZERO)] : [instruction('LDI', [WORK, hex8(k)]), store(info, WORK)],
+            atomic: true,
+            note: 'A single store — atomic, but it overwrites every bit',
+        };
+    }
+
+    if (source.kind === 'constant' && (op === '|=' || op === '&=')) {
+        const bit = singleBit(op === '|=' ? source.value & 0xFF : ~source.value & 0xFF);
+        if (bit !== null && isLowIo(info)) {
+            const mnemonic = op === '|=' ? 'SBI' : 'CBI';
+            return {
+                instructions: [instruction(mnemonic, [info.name, String(bit)], addressOf(info))],
+                atomic: true,
+                note: `${mnemonic} ${op === '|=' ? 'sets' : 'clears'} the bit in one instruction, so no interrupt can come in between`,
+            };
+        }
+    }
+
+    const steps = modify(op, source);
+    if (typeof steps === 'string') return steps;
+    const why = !isLowIo(info)
+        ? `${info.name} is outside the low I/O space (0x00–0x1F), where SBI and CBI work. `
+        : source.kind === 'constant' && (op === '|=' || op === '&=') ? 'SBI and CBI change one bit at a time. ' : '';
+    return { instructions: [load(info, WORK), ...steps, store(info, WORK)], atomic: false, note: why + readModifyWrite(info) };
+}
+
+// 16-bit registers: the high byte is stored first, and read second
+function compile16(info: RegisterInfo, device: DeviceProfile, op: AssignOperator, source: Source): Listing | string {
+    const low = device.registerMap[info.halves!.low];
+    const high = device.registerMap[info.halves!.high];
+    const twoStores = info.temp
+        ? `Two stores through the shared TEMP byte: an interrupt that writes another ${info.temp} register between them corrupts the value`
+        : 'Two stores: an interrupt between them sees half of the new value';
+
+    if (op === '=') {
+        if (source.kind === 'register') {
+            const from = source.info.halves
+                ? [load(device.registerMap[source.info.halves.low], WORK), load(device.registerMap[source.info.halves.high], WORK_HIGH)]
+                : [load(source.info, WORK)];
+            const highFrom = source.info.halves ? WORK_HIGH : ZERO;
+            return { instructions: [...from, store(high, highFrom), store(low, WORK)], atomic: false, note: twoStores };
+        }
+        const [lo, hi] = [source.value & 0xFF, (source.value >> 8) & 0xFF];
+        return {
+            instructions: [
+                ...(lo ? [instruction('LDI', [WORK, hex8(lo)])] : []),
+                ...(hi ? [instruction('LDI', [WORK_HIGH, hex8(hi)])] : []),
+                store(high, hi ? WORK_HIGH : ZERO),
+                store(low, lo ? WORK : ZERO),
+            ],
+            atomic: false,
+            note: twoStores,
+        };
+    }
+
+    if (source.kind === 'register') return `Not compiled: 16-bit ${op} with a register operand`;
+    const k = source.value & 0xFFFF;
+    const [lo, hi] = [k & 0xFF, k >> 8];
+    let steps: Instruction[];
+    switch (op) {
+        case '|=':
+            steps = [lo && instruction('ORI', [WORK, hex8(lo)]), hi && instruction('ORI', [WORK_HIGH, hex8(hi)])].filter((i): i is Instruction => !!i);
+            break;
+        case '&=':
+            steps = [lo !== 0xFF && instruction('ANDI', [WORK, hex8(lo)]), hi !== 0xFF && instruction('ANDI', [WORK_HIGH, hex8(hi)])].filter((i): i is Instruction => !!i);
+            break;
+        case '^=':
+            steps = [
+                ...(lo ? [instruction('LDI', [SCRATCH, hex8(lo)]), instruction('EOR', [WORK, SCRATCH])] : []),
+                ...(hi ? [instruction('LDI', [SCRATCH, hex8(hi)]), instruction('EOR', [WORK_HIGH, SCRATCH])] : []),
+            ];
+            break;
+        case '+=':
+        case '-=': {
+            const n = op === '+=' ? -k & 0xFFFF : k;
+            steps = [instruction('SUBI', [WORK, hex8(n)], op === '+=' ? `+ ${k}` : undefined), instruction('SBCI', [WORK_HIGH, hex8(n >> 8)])];
+            break;
+        }
+        default:
+            return `Not compiled: 16-bit ${op}`;
+    }
+    return {
+        instructions: [load(low, WORK), load(high, WORK_HIGH), ...steps, store(high, WORK_HIGH), store(low, WORK)],
+        atomic: false,
+        note: `${readModifyWrite(info)}. ${twoStores}`,
+    };
+}
+
+// loop_until_bit_is_set/clear: a skip over a jump back, until the bit is right
+function compileWait(info: RegisterInfo, bit: number, set: boolean): Listing {
+    if (isLowIo(info)) {
+        const skip = set ? 'SBIS' : 'SBIC';
+        return {
+            instructions: [instruction(skip, [info.name, String(bit)], addressOf(info)), instruction('RJMP', ['.-4'], 'check again')],
+            atomic: true,
+            note: `Checks the bit every 3 cycles; once it is ${set ? 'set' : 'clear'}, ${skip} skips the RJMP (2 cycles)`,
+        };
+    }
+    const skip = set ? 'SBRS' : 'SBRC';
+    const loadIt = load(info, WORK);
+    const test = instruction(skip, [WORK, String(bit)]);
+    // Back past the test and the load, counting the jump's own word
+    const jump = instruction('RJMP', [`.-${2 * (words(loadIt) + words(test) + 1)}`], 'check again');
+    return {
+        instructions: [loadIt, test, jump],
+        atomic: true,
+        note: `${info.name} cannot be tested in place, so it is loaded each time round: a check every ${loadIt.cycles + test.cycles + jump.cycles} cycles`,
+    };
+}
+
+function compileStatement(statement: Statement, device: DeviceProfile): Listing | string | null {
+    switch (statement.kind) {
+        case 'assign':
+        case 'increment': {
+            if (statement.target.ref !== 'register') return 'Not compiled: local variables live in CPU registers';
+            const info = device.registerMap[statement.target.name];
+            const [op, source]: [AssignOperator, Source | string] = statement.kind === 'assign'
+                ? [statement.op, sourceOf(statement.value, device)]
+                : [statement.op === '++' ? '+=' : '-=', { kind: 'constant', value: 1 }];
+            if (typeof source === 'string') return source;
+            if (info.halves) return compile16(info, device, op, source);
+            // An 8-bit register takes the low byte of a 16-bit one
+            const halves = source.kind === 'register' ? source.info.halves : undefined;
+            return compile8(info, op, halves ? { kind: 'register', info: device.registerMap[halves.low] } : source);
+        }
+        case 'wait': {
+            const bit = evaluateExpression(statement.bit, () => 0, device);
+            if (bit === null) return 'Not compiled: the bit is not a constant';
+            return compileWait(device.registerMap[statement.register.name], bit, statement.macro === 'loop_until_bit_is_set');
+        }
+        case 'declaration':
+            return statement.declarators.some(d => d.init) ? 'Not compiled: local variables live in CPU registers' : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Compile every register write and busy-wait of a program, nested ones
+ * included. Statements the compiler does not handle are listed with a note.
+ */
+export function compileProgram(program: Program, device: DeviceProfile = getActiveDevice()): CompiledProgram {
+    const statements: CompiledStatement[] = [];
+    let straightLine = true;
+    for (const top of canonicalize(program, device).body) {
+        walkStatement(top, statement => {
+            if (statement.kind === 'if' || statement.kind === 'while' || statement.kind === 'for' || statement.kind === 'wait') straightLine = false;
+            const listing = compileStatement(statement, device);
+            if (listing === null) return;
+            const { instructions, atomic, note } = typeof listing === 'string'
+                ? { instructions: [], atomic: false, note: listing }
+                : listing;
+            statements.push({ span: statement.span, instructions, cycles: instructions.reduce((sum, i) => sum + i.cycles, 0), atomic, note });
+        });
+    }
+    const compiled = statements.every(s => s.instructions.length > 0);
+    return {
+        statements,
+        cycles: straightLine && compiled ? statements.reduce((sum, s) => sum + s.cycles, 0) : null,
+    };
+}
+
+/**
+ * Compile an answer, or null if it does not parse.
+ */
+export function compileAnswer(code: string, device: DeviceProfile = getActiveDevice()): CompiledProgram | null {
+    try {
+        return compileProgram(parse(code, device, 'off').program, device);
+    } catch {
+        return null;
+    }
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Render the instruction listing of each statement with its cycles and
+ * whether it is atomic; `code` is the source the spans point into.
+ */
+export function renderAssembly(compiled: CompiledProgram, code: string): string {
+    if (compiled.statements.length === 0) return '';
+    const statements = compiled.statements.map(statement => {
+        const source = code.slice(statement.span.start, statement.span.end).replace(/\s+/g, ' ').trim();
+        const rows = statement.instructions.map(i => `
+            <tr>
+                <td class="asm-mnemonic">${i.mnemonic}</td>
+                <td class="asm-operands">${escapeHtml(i.operands.join(', '))}</td>
+                <td class="asm-comment">${i.comment ? `; ${escapeHtml(i.comment)}` : ''}</td>
+                <td class="asm-cycles">${i.cycles}</td>
+            </tr>`).join('');
+        const badges = statement.instructions.length > 0
+            ? `<span class="asm-badge">${statement.cycles} cycle${statement.cycles === 1 ? '' : 's'}</span>
+               <span class="asm-badge ${statement.atomic ? 'asm-atomic' : 'asm-not-atomic'}">${statement.atomic ? 'atomic' : 'not atomic'}</span>`
+            : '';
+        return `
+            <div class="asm-statement">
+                <div class="asm-source"><code>${escapeHtml(source)}</code>${badges}</div>
+                ${rows ? `<table class="asm-listing">${rows}</table>` : ''}
+                <div class="asm-note">${escapeHtml(statement.note)}</div>
+            </div>`;
+    }).join('');
+
+    return `
+        <div class="asm">
+            <div class="asm-header">
+                <span class="asm-title">AVR instructions</span>
+                ${compiled.cycles !== null ? `<span class="asm-total">${compiled.cycles} cycle${compiled.cycles === 1 ? '' : 's'} in total</span>` : ''}
+            </div>
+            ${statements}
+        </div>
+    `;
+}
+
+// The bit name in `PB3`, `1 << PB3` or `~(1 << PB3)`
+function bitNameOf(expression: Expression): string | undefined {
+    if (expression.kind === 'unary' && expression.op === '~') return bitNameOf(expression.operand);
+    if (expression.kind === 'binary' && expression.op === '<<' && expression.left.kind === 'number' && expression.left.value === 1) {
+        return bitNameOf(expression.right);
+    }
+    return expression.kind === 'name' && expression.ref === 'bit' ? expression.name : undefined;
+}
+
+// A test of one bit, `REG & (1<<b)`, `!(REG & (1<<b))` or bit_is_set/clear():
+// the register, the bit, and whether the test holds when the bit is set
+function bitTest(test: Expression, device: DeviceProfile): { info: RegisterInfo; bit: number; set: boolean; bitName?: string } | null {
+    if (test.kind === 'unary' && test.op === '!') {
+        const inner = bitTest(test.operand, device);
+        return inner && { ...inner, set: !inner.set };
+    }
+    let register: Expression;
+    let mask: number | null;
+    let named: Expression;
+    if (test.kind === 'call' && test.callee !== '_BV') {
+        [register, named] = test.args;
+        const bit = evaluateExpression(named, () => 0, device);
+        mask = bit === null ? null : 1 << bit;
+    } else if (test.kind === 'binary' && test.op === '&') {
+        [register, named] = test.left.kind === 'name' ? [test.left, test.right] : [test.right, test.left];
+        mask = evaluateExpression(named, () => 0, device);
+    } else {
+        return null;
+    }
+    const bit = mask === null ? null : singleBit(mask & 0xFF);
+    if (register.kind !== 'name' || register.ref !== 'register' || bit === null) return null;
+    const info = device.registerMap[register.name];
+    return info.halves ? null : { info, bit, set: test.kind !== 'call' || test.callee === 'bit_is_set', bitName: bitNameOf(named) };
+}
+
+// Instructions as source lines. Bit numbers and constants the answer wrote
+// with bit names keep them, so the source passes a named-bits rule too.
+function sourceLines(instructions: Instruction[], bitName?: string, constant?: { value: number; text: string }): string[] {
+    return instructions.map(i => {
+        const operands = i.operands.map((operand, n) => {
+            if (n !== 1) return operand;
+            if (bitName && ['SBI', 'CBI', 'SBIS', 'SBIC', 'SBRS', 'SBRC'].includes(i.mnemonic)) return bitName;
+            if (constant && ['LDI', 'ORI', 'ANDI', 'SUBI'].includes(i.mnemonic) && operand === hex8(constant.value)) return constant.text;
+            return operand;
+        });
+        return `${i.mnemonic.toLowerCase()} ${operands.join(', ')}`;
+    });
+}
+
+// The constant of an 8-bit register write, when written with bit names
+function namedConstant(statement: Statement, device: DeviceProfile): { value: number; text: string } | undefined {
+    if (statement.kind !== 'assign' || statement.target.ref !== 'register' || device.registerMap[statement.target.name].halves) return undefined;
+    let named = false;
+    walkExpression(statement.value, node => {
+        if (node.kind === 'name') named ||= node.ref === 'bit';
+    });
+    const value = named ? evaluateExpression(statement.value, () => {
+        throw new Error('not constant');
+    }, device) : null;
+    if (value === null) return undefined;
+    const text = formatExpression(statement.value);
+    return { value, text: /^[(~]/.test(text) ? text : `(${text})` };
+}
+
+/**
+ * An answer as assembler source, one instruction per line, as someone
+ * answering in assembly would write it. Writes and busy-waits compile as in
+ * the listing; an `if` or an empty `while` on one bit becomes a skip over a
+ * jump. Null when the answer does not parse or needs anything else
+ * (variables, other loops, library calls).
+ */
+export function assemblySource(code: string, device: DeviceProfile = getActiveDevice()): string | null {
+    let program: Program;
+    try {
+        program = canonicalize(parse(code, device, 'off').program, device);
+    } catch {
+        return null;
+    }
+
+    let labels = 0;
+    const emit = (statements: Statement[]): string[] | null => {
+        const lines: string[] = [];
+        for (const statement of statements) {
+            const more = emitOne(statement);
+            if (!more) return null;
+            lines.push(...more);
+        }
+        return lines;
+    };
+    const emitOne = (statement: Statement): string[] | null => {
+        switch (statement.kind) {
+            case 'block': return emit(statement.body);
+            case 'empty': return [];
+            case 'if': {
+                const test = bitTest(statement.test, device);
+                const then = emit([statement.consequent]);
+                const otherwise = statement.alternate ? emit([statement.alternate]) : [];
+                if (!test || !then || !otherwise) return null;
+                // The skip steps over the jump past the then-branch when the test holds
+                const bit = test.bitName ?? test.bit;
+                const check = isLowIo(test.info)
+                    ? [`${test.set ? 'sbis' : 'sbic'} ${test.info.name}, ${bit}`]
+                    : [...sourceLines([load(test.info, WORK)]), `${test.set ? 'sbrs' : 'sbrc'} ${WORK}, ${bit}`];
+                const [skip, end] = [++labels, ++labels];
+                return statement.alternate
+                    ? [...check, `rjmp ${skip}f`, ...then, `rjmp ${end}f`, `${skip}:`, ...otherwise, `${end}:`]
+                    : [...check, `rjmp ${skip}f`, ...then, `${skip}:`];
+            }
+            case 'while': {
+                const test = bitTest(statement.test, device);
+                const empty = statement.body.kind === 'empty' || (statement.body.kind === 'block' && statement.body.body.length === 0);
+                return test && empty ? sourceLines(compileWait(test.info, test.bit, !test.set).instructions, test.bitName) : null;
+            }
+            case 'for': return null;
+            default: {
+                const listing = compileStatement(statement, device);
+                if (listing === null) return [];
+                if (typeof listing === 'string') return null;
+                const constant = namedConstant(statement, device);
+                const bitName = statement.kind === 'wait' ? bitNameOf(statement.bit) : statement.kind === 'assign' ? bitNameOf(statement.value) : undefined;
+                return sourceLines(listing.instructions, bitName, constant);
+            }
+        }
+    };
+
+    const lines = emit(program.body);
+    return lines && lines.length > 0 ? lines.join('\n') : null;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { checkConstraints, describeConstraints, type AnswerConstraints } from './constraints';
+import { checkAnswer } from './evaluator';
+
+const device = getDevice('atmega328p')!;
+
+const broken = (code: string, constraints: AnswerConstraints) => checkConstraints(code, constraints, device).map(v => v.code);
+
+describe('answer constraints', () => {
+    it('describes the rules for the question card', () => {
+        expect(describeConstraints({ requiredOperators: ['|='], requireHex: true, maxStatements: 1 }))
+            .toEqual(['Use `|=`', 'Numbers in hex', 'One statement']);
+    });
+
+    it('requires and forbids operators, counting PORTB = PORTB | x as |=', () => {
+        expect(broken('PORTB = PORTB | (1<<PB3);', { requiredOperators: ['|='] })).toEqual([]);
+        expect(broken('PORTB = 0x08;', { requiredOperators: ['|='] })).toEqual(['required-operator']);
+        const [use] = checkConstraints('PORTB = 0x08;', { forbiddenOperators: ['='] }, device);
+        expect(use).toMatchObject({ code: 'forbidden-operator', fix: 'use `|=`, `&=` or `^=` so the other bits keep their values' });
+    });
+
+    it('checks how numbers are written', () => {
+        expect(checkConstraints('PORTB = 42;', { requireHex: true }, device)[0]?.fix).toBe('write it as `0x2A`');
+        expect(broken('PORTB = 0x2A;', { requireHex: true })).toEqual([]);
+        expect(broken('UCSR0B = (1<<3) | (1<<RXEN0);', { forbidMagicNumbers: true })).toEqual(['magic-number']);
+        expect(broken('UCSR0B = (1<<3) | (1<<RXEN0);', { requireNamedBits: true })).toEqual(['require-named-bits']);
+        expect(broken('UCSR0B = _BV(TXEN0) | _BV(RXEN0);', { requireNamedBits: true, forbidMagicNumbers: true })).toEqual([]);
+    });
+
+    it('counts statements and the registers written', () => {
+        expect(broken('PORTB |= 1; PORTB |= 2;', { maxStatements: 1 })).toEqual(['too-many-statements']);
+        expect(broken('PORTB ^= (1<<PB3);', { requiredWrites: ['PINB'] })).toEqual(['required-write']);
+    });
+
+    it('fails an answer with the right value that breaks a rule', () => {
+        const check = checkAnswer('UCSR0B = 0x18;', 'UCSR0B', 0, 0x18, device, { constraints: { requireNamedBits: true } });
+        expect(check.correct).toBe(false);
+        expect(check.userResult).toBe(0x18);
+        expect(check.violations?.map(v => v.message)).toEqual(['Use the named bit constants']);
+    });
+});
@@ -0,0 +1,175 @@
+// Answer constraints — rules a question puts on how the answer is written,
+// checked against the parsed code on top of the final register value.
+// The code is canonicalised first, so `PORTB = PORTB | x` counts as `|=`
+// and `_BV(n)` as `(1<<n)`.
+
+import type { DeviceProfile } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import {
+    expressionsOf, registersIn, walkExpression, walkStatement,
+    type Expression, type NumberLiteral, type Program, type Statement,
+} from './ast';
+import { spanAt, type Diagnostic, type DiagnosticCode, type SourceSpan } from './diagnostics';
+import { canonicalize } from './formatter';
+import { parse } from './parser';
+
+export interface AnswerConstraints {
+    // Operators that must / must not appear, e.g. ['|='] or ['&=', '~'].
+    // Assignment operators count only when they write a register, and a
+    // plain = only when it does not read the register it writes.
+    requiredOperators?: string[];
+    forbiddenOperators?: string[];
+    requireHex?: boolean;           // every number written in hex
+    forbidMagicNumbers?: boolean;   // no numbers other than 0 and 1
+    requireNamedBits?: boolean;     // bit positions by name: (1<<TXEN0), not (1<<3)
+    maxStatements?: number;
+    requiredWrites?: string[];      // registers the answer must write, e.g. ['PINB']
+    maxInstructions?: number;       // assembly answers (checkAssemblyConstraints)
+}
+
+// Short rules for the question card, e.g. "Use `|=`"
+export function describeConstraints(constraints: AnswerConstraints): string[] {
+    const rules: string[] = [];
+    const code = (ops: string[]) => ops.map(op => `\`${op}\``).join(' and ');
+    if (constraints.requiredOperators?.length) rules.push(`Use ${code(constraints.requiredOperators)}`);
+    if (constraints.forbiddenOperators?.length) rules.push(`No ${code(constraints.forbiddenOperators)}`);
+    if (constraints.requireHex) rules.push('Numbers in hex');
+    if (constraints.forbidMagicNumbers) rules.push('No magic numbers');
+    if (constraints.requireNamedBits) rules.push('Named bit constants');
+    if (constraints.requiredWrites?.length) rules.push(`Write ${code(constraints.requiredWrites)}`);
+    if (constraints.maxStatements !== undefined) {
+        rules.push(constraints.maxStatements === 1 ? 'One statement' : `At most ${constraints.maxStatements} statements`);
+    }
+    if (constraints.maxInstructions !== undefined) {
+        rules.push(constraints.maxInstructions === 1 ? 'One instruction' : `At most ${constraints.maxInstructions} instructions`);
+    }
+    return rules;
+}
+
+// Every operator in the program, where it is
+function operatorsIn(program: Program): { op: string; span: SourceSpan }[] {
+    const found: { op: string; span: SourceSpan }[] = [];
+    const visitExpression = (node: Expression) => {
+        switch (node.kind) {
+            case 'binary': found.push({ op: node.op, span: node.opSpan }); break;
+            case 'unary':
+            case 'update': found.push({ op: node.op, span: node.span }); break;
+            case 'conditional': found.push({ op: '?:', span: node.span }); break;
+        }
+    };
+    const visitStatement = (statement: Statement) => {
+        // PORTB = (PORTB & ~m) | b keeps the other bits, so it is not a plain =
+        const overwrites = statement.kind !== 'assign' || statement.op !== '='
+            || !registersIn(statement.value).includes(statement.target.name);
+        if ((statement.kind === 'assign' || statement.kind === 'increment') && statement.target.ref === 'register' && overwrites) {
+            found.push({ op: statement.op, span: statement.span });
+        }
+        for (const expression of expressionsOf(statement)) walkExpression(expression, visitExpression);
+    };
+    for (const statement of program.body) walkStatement(statement, visitStatement);
+    return found;
+}
+
+// Number literals other than the parts of (1<<n) masks, the masks' shift
+// amounts, and whether any named bit appears at all
+function survey(program: Program): { numbers: NumberLiteral[]; positions: Expression[]; usesNamedBit: boolean } {
+    const numbers: NumberLiteral[] = [];
+    const positions: Expression[] = [];
+    const maskParts = new Set<Expression>();
+    let usesNamedBit = false;
+    // Parents are visited first, so a mask is seen before its parts
+    const visit = (node: Expression) => {
+        if (node.kind === 'name' && node.ref === 'bit') usesNamedBit = true;
+        if (node.kind === 'number' && !maskParts.has(node)) numbers.push(node);
+        if (node.kind === 'binary' && node.op === '<<' && node.left.kind === 'number' && node.left.value === 1) {
+            maskParts.add(node.left).add(node.right);
+            positions.push(node.right);
+        }
+    };
+    for (const statement of program.body) {
+        walkStatement(statement, s => expressionsOf(s).forEach(expression => walkExpression(expression, visit)));
+    }
+    return { numbers, positions, usesNamedBit };
+}
+
+// Statements other than blocks, nested ones included
+function countStatements(program: Program): Statement[] {
+    const statements: Statement[] = [];
+    for (const statement of program.body) {
+        walkStatement(statement, s => {
+            if (s.kind !== 'block' && s.kind !== 'empty') statements.push(s);
+        });
+    }
+    return statements;
+}
+
+/**
+ * Check an answer against a question's constraints. Returns one error per
+ * broken rule (at most one per source position); code that does not parse
+ * returns none, as the evaluator reports that already.
+ */
+export function checkConstraints(
+    code: string,
+    constraints: AnswerConstraints,
+    device: DeviceProfile = getActiveDevice()
+): Diagnostic[] {
+    let program: Program;
+    try {
+        program = canonicalize(parse(code, device, 'off').program, device);
+    } catch {
+        return [];
+    }
+
+    const violations: Diagnostic[] = [];
+    const whole = spanAt(code, 0, code.trimEnd().length);
+    const report = (rule: DiagnosticCode, message: string, span: SourceSpan, fix?: string) => {
+        // A magic number used as a bit position is one mistake, not two
+        const sameSpot = span !== whole && violations.some(v => v.span.start === span.start && v.span.end === span.end);
+        if (!sameSpot) violations.push({ code: rule, severity: 'error', message, span, ...(fix ? { fix } : {}) });
+    };
+
+    const operators = operatorsIn(program);
+    for (const op of constraints.requiredOperators ?? []) {
+        if (!operators.some(o => o.op === op)) report('required-operator', `This answer must use \`${op}\``, whole);
+    }
+    for (const op of constraints.forbiddenOperators ?? []) {
+        const fix = op === '=' ? 'use `|=`, `&=` or `^=` so the other bits keep their values' : undefined;
+        for (const use of operators.filter(o => o.op === op)) {
+            report('forbidden-operator', `\`${op}\` is not allowed in this answer`, use.span, fix);
+        }
+    }
+
+    const { numbers, positions, usesNamedBit } = survey(program);
+    if (constraints.requireHex) {
+        if (numbers.length === 0) report('require-hex', 'Write the value as a hex number', whole, 'e.g. `0x2A`');
+        for (const n of numbers.filter(n => !/^0x/i.test(n.raw))) {
+            const hex = '0x' + n.value.toString(16).toUpperCase().padStart(2, '0');
+            report('require-hex', `\`${n.raw}\` should be written in hex`, n.span, `write it as \`${hex}\``);
+        }
+    }
+    if (constraints.forbidMagicNumbers) {
+        for (const n of [...numbers, ...positions].filter((n): n is NumberLiteral => n.kind === 'number' && n.value > 1)) {
+            report('magic-number', `Magic number \`${n.raw}\``, n.span, 'build the value from named bits, e.g. `(1<<TXEN0)`');
+        }
+    }
+
+    if (constraints.requireNamedBits) {
+        for (const position of positions.filter((p): p is NumberLiteral => p.kind === 'number')) {
+            report('require-named-bits', `Bit position \`${position.raw}\` should be a named bit`, position.span);
+        }
+        if (!usesNamedBit) report('require-named-bits', 'Use the named bit constants', whole, 'e.g. `(1<<TXEN0)`');
+    }
+
+    const statements = countStatements(program);
+    for (const register of constraints.requiredWrites ?? []) {
+        const writes = statements.some(s => (s.kind === 'assign' || s.kind === 'increment') && s.target.name === register);
+        if (!writes) report('required-write', `This answer must write \`${register}\``, whole);
+    }
+    const max = constraints.maxStatements;
+    if (max !== undefined && statements.length > max) {
+        report('too-many-statements', `Use at most ${max} statement${max === 1 ? '' : 's'} — this answer has ${statements.length}`,
+            statements[max].span);
+    }
+
+    return violations;
+}
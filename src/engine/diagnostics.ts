@@ -0,0 +1,120 @@
+// Diagnostics — source-located errors and warnings from the evaluator, each
+// with a stable code and, where the intent is obvious, a suggested fix
+
+// A range of the answer text. start/end are character offsets (end exclusive);
+// line and column (1-based) locate the start.
+export interface SourceSpan {
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
+export type DiagnosticCode =
+    | 'unexpected-character'
+    | 'unexpected-token'
+    | 'missing-token'
+    | 'missing-paren'
+    | 'missing-brace'
+    | 'incomplete-code'
+    | 'expected-assignment'
+    | 'assignment-in-expression'
+    | 'unknown-identifier'
+    | 'unknown-function'
+    | 'unknown-type'
+    | 'macro-argument'
+    | 'macro-misuse'
+    | 'reserved-name'
+    | 'redeclared'
+    | 'missing-initializer'
+    | 'const-assignment'
+    | 'declaration-needs-block'
+    | 'else-without-if'
+    | 'uninitialized'
+    | 'bit-name-mismatch'
+    | 'temp-order'
+    | 'read-only-bit'
+    | 'flag-write'
+    | 'division-by-zero'
+    | 'loop-limit'
+    | 'wait-never-finishes'
+    | 'udr-overrun'
+    // Assembly answers (assembly.ts)
+    | 'unknown-instruction'
+    | 'bad-operand'
+    // Broken answer constraints (constraints.ts)
+    | 'required-operator'
+    | 'forbidden-operator'
+    | 'require-hex'
+    | 'magic-number'
+    | 'require-named-bits'
+    | 'too-many-statements'
+    | 'required-write'
+    | 'not-equivalent'
+    | 'internal-error';
+
+export interface Diagnostic {
+    code: DiagnosticCode;
+    severity: 'error' | 'warning';
+    message: string;
+    span: SourceSpan;
+    fix?: string;          // e.g. "did you mean `|=`?"
+}
+
+// Thrown by the evaluator to stop with a located error
+export class DiagnosticError extends Error {
+    readonly diagnostic: Diagnostic;
+
+    constructor(diagnostic: Diagnostic) {
+        super(diagnostic.message);
+        this.diagnostic = diagnostic;
+    }
+}
+
+export function spanAt(source: string, start: number, end: number): SourceSpan {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < start; i++) {
+        if (source[i] === '\n') {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { start, end, line, column: start - lineStart + 1 };
+}
+
+// The range from the start of `a` to the end of `b`
+export function joinSpans(a: SourceSpan, b: SourceSpan): SourceSpan {
+    return { ...a, end: Math.max(a.end, b.end) };
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+// "did you mean `PORTB`?" for a misspelt or wrongly cased name, if one candidate is close
+export function didYouMean(name: string, candidates: Iterable<string>): string | undefined {
+    const upper = name.toUpperCase();
+    const maxDistance = name.length <= 3 ? 1 : 2;
+    let best: string | null = null;
+    let bestDistance = maxDistance + 1;
+    for (const candidate of candidates) {
+        if (candidate.toUpperCase() === upper) return `did you mean \`${candidate}\`?`;
+        const distance = editDistance(upper, candidate.toUpperCase());
+        if (distance < bestDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    }
+    return best ? `did you mean \`${best}\`?` : undefined;
+}
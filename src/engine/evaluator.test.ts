@@ -0,0 +1,263 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { checkAnswer, evaluate, findCounterexample, initialValuesFor, type BitNameCheck } from './evaluator';
+
+const device = getDevice('atmega328p')!;
+
+describe('PINx writes', () => {
+    // The pin_toggle drill: toggle PB3 of PORTB = 0x21 with one PINB write
+    const toggle = (code: string) => checkAnswer(code, 'PORTB', 0x21, 0x29, device, {
+        reference: 'PINB = (1<<PB3);',
+        constraints: { requiredWrites: ['PINB'], maxStatements: 1 },
+    });
+
+    it('toggles only the bits written as 1', () => {
+        expect(toggle('PINB = (1<<PB3);').correct).toBe(true);
+    });
+
+    it('reads the pin levels back on |=, toggling every pin that is high', () => {
+        const check = toggle('PINB |= (1<<PB3);');
+        expect(check.correct).toBe(false);
+        expect(check.userResult).toBe(0x08);
+    });
+
+    it('reads the levels the question gives when it sets PINx', () => {
+        const result = evaluate('PINB |= (1<<PB3);', { PORTB: 0x21, PINB: 0x01 }, device);
+        expect(result.registerStates.PORTB).toBe(0x21 ^ 0x09);
+    });
+});
+
+describe('int results', () => {
+    const portB = (code: string) => evaluate(code, { PORTB: 0 }, device).registerStates.PORTB;
+
+    it.each([
+        'if (~0 < 0) PORTB = 1;',
+        'int x = 0; if ((x ^ 0xFFFF) < 0) PORTB = 1;',
+        'if ((1 << 15) < 0) PORTB = 1;',
+        'if ((0x8000 | 1) < 0) PORTB = 1;',
+    ])('are signed after a bitwise operator: %s', code => {
+        expect(portB(code)).toBe(1);
+    });
+
+    it('still writes the low byte of a negative value', () => {
+        expect(portB('PORTB = ~(1 << PB3);')).toBe(0xF7);
+    });
+});
+
+describe('read-only registers', () => {
+    const readOnlyWarning = (code: string, states = {}) => evaluate(code, states, device).diagnostics.find(d => d.code === 'read-only-bit')?.message;
+
+    it('names the register, not its bits', () => {
+        expect(readOnlyWarning('ADC = 5;')).toBe('ADC (ADCL and ADCH) is read-only — writing it does not change it');
+        expect(readOnlyWarning('ADCL = 5;')).toBe('ADCL is read-only — writing it does not change it');
+    });
+
+    it('lists the read-only bits of a register with writable ones', () => {
+        expect(readOnlyWarning('UCSR0A = (1<<UDRE0);', { UCSR0A: 0 })).toBe('UDRE0 in UCSR0A is read-only — writing 1 does not set it');
+    });
+});
+
+describe('bit names from another register', () => {
+    const run = (code: string, bitNameCheck: BitNameCheck) => evaluate(code, { UCSR0B: 0 }, device, { bitNameCheck });
+
+    it('warns by default, naming the register the bit belongs to', () => {
+        const result = run('UCSR0B |= (1<<ADEN);', 'warn');
+        expect(result.success).toBe(true);
+        expect(result.diagnostics).toEqual([
+            expect.objectContaining({ severity: 'warning', code: 'bit-name-mismatch', message: 'ADEN is a bit of ADCSRA, not UCSR0B' }),
+        ]);
+        expect(run('PORTD |= (1<<PB3);', 'warn').diagnostics[0]?.message).toBe('PB3 is a bit of PORTB, not PORTD');
+    });
+
+    it('fails the answer when the question asks for it', () => {
+        expect(run('UCSR0B |= (1<<ADEN);', 'error').success).toBe(false);
+        const check = checkAnswer('UCSR0B |= (1<<ADEN);', 'UCSR0B', 0, 0x80, device, { bitNameCheck: 'error' });
+        expect(check.correct).toBe(false);
+    });
+
+    it('accepts port bit names on the DDRx and PINx of the same port', () => {
+        expect(run('DDRB |= (1<<PB3);', 'error').diagnostics).toEqual([]);
+        expect(run('PINB = (1<<PB3);', 'error').diagnostics).toEqual([]);
+    });
+
+    it('stays quiet when the check is off', () => {
+        expect(run('UCSR0B |= (1<<ADEN);', 'off').diagnostics).toEqual([]);
+    });
+});
+
+describe('16-bit registers', () => {
+    it('keeps all 16 bits and shows them in the halves', () => {
+        const result = evaluate('OCR1A = 15624;', {}, device);
+        expect(result.registerStates).toMatchObject({ OCR1A: 15624, OCR1AH: 0x3D, OCR1AL: 0x08 });
+        expect(evaluate('PORTB = 0x1FF;', {}, device).registerStates.PORTB).toBe(0xFF);
+    });
+
+    it('buffers the high byte in TEMP until the low byte is written', () => {
+        const result = evaluate('OCR1AH = 0x3D; OCR1AL = 0x08;', {}, device);
+        expect(result.registerStates.OCR1A).toBe(15624);
+        expect(result.steps.map(s => s.note)).toEqual(['held in TEMP until OCR1AL is written', 'commits TEMP (0x3D) as OCR1AH']);
+        expect(result.diagnostics).toEqual([]);
+    });
+
+    it('warns when the low byte is written first', () => {
+        const result = evaluate('OCR1AL = 0x08; OCR1AH = 0x3D;', {}, device);
+        expect(result.registerStates.OCR1A).toBe(0x08);
+        expect(result.diagnostics[0]?.message).toContain('Write the high byte first');
+    });
+
+    it('reads a 16-bit register as one value', () => {
+        expect(evaluate('PORTB = TCNT1 >> 8;', { TCNT1: 0x1234 }, device).registerStates.PORTB).toBe(0x12);
+        expect(checkAnswer('UBRR0 = 103;', 'UBRR0', 0, 103, device).correct).toBe(true);
+    });
+});
+
+describe('avr-libc bit macros', () => {
+    const portB = (code: string, pinB = 0x01) => evaluate(code, { PINB: pinB, PORTB: 0 }, device).registerStates.PORTB;
+
+    it('accepts _BV() wherever (1<<bit) is', () => {
+        expect(portB('PORTB |= _BV(PB3);')).toBe(0x08);
+        expect(portB('PORTB = _BV(PB1) | _BV(PB2);')).toBe(0x06);
+        expect(checkAnswer('PORTB |= _BV(PB3);', 'PORTB', 0, 0x08, device, { reference: 'PORTB |= (1<<PB3);' }).correct).toBe(true);
+    });
+
+    it('tests bits with bit_is_set and bit_is_clear', () => {
+        expect(portB('if (bit_is_set(PINB, PB0)) PORTB = 1;')).toBe(1);
+        expect(portB('if (bit_is_clear(PINB, PB0)) PORTB = 2;')).toBe(0);
+        expect(portB('if (bit_is_clear(PINB, PB0)) PORTB = 2;', 0)).toBe(2);
+    });
+
+    it('waits with loop_until_bit_is_set, and reports a wait that never ends', () => {
+        expect(evaluate('loop_until_bit_is_set(PINB, PB0);', { PINB: 0x01 }, device).success).toBe(true);
+        const stuck = evaluate('loop_until_bit_is_clear(PINB, PB0);', { PINB: 0x01 }, device);
+        expect(stuck.success).toBe(false);
+        expect(stuck.error).toBe('loop_until_bit_is_clear(PINB, PB0) never finishes: the bit is set and nothing changes it');
+    });
+});
+
+describe('control flow', () => {
+    const led = 'if (PIND & (1<<PD2)) { PORTB |= (1<<PB5); } else { PORTB &= ~(1<<PB5); }';
+
+    it('runs the branch the condition picks and records it', () => {
+        const pressed = evaluate(led, { PIND: 0x04, PORTB: 0 }, device);
+        expect(pressed.registerStates.PORTB).toBe(0x20);
+        expect(pressed.steps[0].note).toBe('(PIND & (1 << PD2)) is true → then branch runs');
+        const released = evaluate(led, { PIND: 0, PORTB: 0x20 }, device);
+        expect(released.registerStates.PORTB).toBe(0);
+        expect(released.steps.map(s => s.op)).toEqual(['if', '&=']);
+    });
+
+    it('combines conditions with &&, || and !', () => {
+        expect(evaluate('if (PIND & 4 && !(PIND & 1) || 0) PORTB = 9;', { PIND: 4 }, device).registerStates.PORTB).toBe(9);
+        expect(evaluate('if (PIND & 4 && !(PIND & 1)) PORTB = 9;', { PIND: 5 }, device).registerStates.PORTB).toBeUndefined();
+    });
+
+    it('runs bounded loops', () => {
+        const result = evaluate('for (uint8_t i = 0; i < 4; i++) PORTB += 2;', {}, device);
+        expect(result.registerStates.PORTB).toBe(8);
+        expect(result.steps.filter(s => s.op === 'for').at(-1)?.note).toBe('(i < 4) is false → loop ends');
+    });
+
+    it('stops a loop that never ends', () => {
+        const result = evaluate('while (1) { PORTB ^= 1; }', {}, device);
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('while loop still running after 1000 iterations — its condition never becomes false');
+    });
+});
+
+describe('local variables', () => {
+    it('declares, reads and reports variables', () => {
+        const result = evaluate('uint8_t mask = (1<<PB2)|(1<<PB5); PORTB |= mask;', {}, device);
+        expect(result.registerStates.PORTB).toBe(0x24);
+        expect(result.variables).toEqual({ mask: 0x24 });
+        expect(result.steps[0]).toMatchObject({ register: 'mask', note: 'uint8_t mask', after: 0x24 });
+    });
+
+    it('wraps values to the declared type', () => {
+        const { variables } = evaluate('uint8_t x = 300; int8_t y = 200; int16_t s = -1; volatile uint16_t z = 0xFFFF + 2;', {}, device);
+        expect(variables).toEqual({ x: 44, y: -56, s: -1, z: 1 });
+        expect(evaluate('int16_t s = -1; PORTB = s;', {}, device).registerStates.PORTB).toBe(0xFF);
+    });
+
+    it('rejects writes to a const and reads out of scope', () => {
+        expect(evaluate('const uint8_t m = 4; m = 5;', {}, device).error).toBe('m is const and cannot be assigned');
+        expect(evaluate('{ uint8_t a = 1; } PORTB = a;', {}, device).error).toBe('Unknown name: a');
+    });
+});
+
+describe('C operators', () => {
+    const portB = (code: string) => evaluate(code, {}, device).registerStates.PORTB;
+
+    it.each([
+        ['PORTB = 2 + 3 * 4;', 14],
+        ['PORTB = 1 << 2 + 1;', 8],
+        ['PORTB = 5 & 3 == 3;', 1],
+        ['PORTB = 7 / 2;', 3],
+        ['PORTB = -7 % 3;', 0xFF],
+        ['PORTB = (3 == 3) + (3 != 4) + (2 < 1) + (1 <= 1);', 3],
+        ['PORTB = 1 ? 2 : 3;', 2],
+    ])('follows C precedence: %s', (code, expected) => {
+        expect(portB(code)).toBe(expected);
+    });
+
+    it('handles compound assignments and increments, wrapping to the register', () => {
+        expect(portB('PORTB = 0x10; PORTB <<= 2; PORTB >>= 1;')).toBe(0x20);
+        expect(portB('PORTB = 255; PORTB++;')).toBe(0);
+        expect(evaluate('TCNT0 += 10;', { TCNT0: 250 }, device).registerStates.TCNT0).toBe(4);
+    });
+
+    it('reports division by zero and characters it does not know', () => {
+        expect(evaluate('PORTB = 1 / 0;', {}, device).error).toBe('Division by zero');
+        expect(evaluate('PORTB += 1 $ 2;', {}, device).error).toBe("Unexpected character '$'");
+    });
+});
+
+describe('checking every starting value', () => {
+    it('tries all 8-bit values, and a fixed sample with the edge cases for 16 bits', () => {
+        expect(initialValuesFor(8)).toHaveLength(256);
+        const wide = initialValuesFor(16, 0x1234);
+        expect(wide[0]).toBe(0x1234);
+        expect(wide).toEqual(expect.arrayContaining([0x0000, 0xFFFF, 0x8000, 0x7FFF]));
+        expect(initialValuesFor(16, 0x1234)).toEqual(wide);
+    });
+
+    it('finds a starting value where a hard-coded answer differs', () => {
+        expect(findCounterexample('PORTB = 0xAD;', 'PORTB |= 0x0C;', 'PORTB', 0xA1, device))
+            .toEqual({ initialValue: 0, expected: 0x0C, actual: 0xAD });
+        expect(findCounterexample('OCR1A = 0x1334;', 'OCR1A |= (1<<8);', 'OCR1A', 0x1234, device))
+            .toEqual({ initialValue: 0, expected: 0x0100, actual: 0x1334 });
+    });
+
+    it('accepts an answer that does the same to every value', () => {
+        expect(findCounterexample('PORTB = PORTB | 0x0C;', 'PORTB |= (1<<PB2) | (1<<PB3);', 'PORTB', 0xA1, device)).toBeUndefined();
+        expect(findCounterexample('OCR1A = OCR1A | 0x0100;', 'OCR1A |= (1<<8);', 'OCR1A', 0x1234, device)).toBeUndefined();
+    });
+
+    it('fails the answer with the counterexample', () => {
+        const check = checkAnswer('PORTB = 0xAD;', 'PORTB', 0xA1, 0xAD, device, { reference: 'PORTB |= 0x0C;' });
+        expect(check.correct).toBe(false);
+        expect(check.diagnostics[0]).toMatchObject({
+            code: 'not-equivalent',
+            message: 'Starting from PORTB = 0x00, your code leaves 0xAD but should leave 0x0C',
+        });
+    });
+});
+
+describe('multi-register questions', () => {
+    const output = (code: string) => checkAnswer(code, 'DDRB', 0, 0x20, device, {
+        initialStates: { DDRB: 0, PORTB: 0 },
+        expectedStates: { DDRB: 0x20, PORTB: 0x20 },
+    });
+
+    it('checks every register the question expects', () => {
+        expect(output('DDRB |= (1<<PB5); PORTB |= (1<<PB5);').correct).toBe(true);
+        const missing = output('DDRB |= (1<<PB5);');
+        expect(missing.correct).toBe(false);
+        expect(missing.differences).toEqual([{ register: 'PORTB', expected: 0x20, actual: 0, unintended: false }]);
+    });
+
+    it('reports registers the answer should have left alone', () => {
+        const extra = output('DDRB |= (1<<PB5); PORTB |= (1<<PB5); PORTD = 1;');
+        expect(extra.correct).toBe(false);
+        expect(extra.differences).toEqual([{ register: 'PORTD', expected: 0, actual: 1, unintended: true }]);
+    });
+});
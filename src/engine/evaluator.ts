@@ -1,332 +1,838 @@
-// Safe C-style bit manipulation expression evaluator
-// Supports: =, |=, &=, ^= assignments
-// Operators: |, &, ^, ~, <<, >>
-// Literals: hex (0xFF), decimal, binary (0b1010)
-// Named identifiers: PA3, RXEN0, etc.
-
-import { allNamedBits } from '../data/atmega2560';
-
-// Token types
-type TokenType =
-    | 'NUMBER' | 'IDENTIFIER' | 'LPAREN' | 'RPAREN'
-    | 'OR' | 'AND' | 'XOR' | 'NOT' | 'LSHIFT' | 'RSHIFT'
-    | 'ASSIGN' | 'OR_ASSIGN' | 'AND_ASSIGN' | 'XOR_ASSIGN'
-    | 'SEMICOLON' | 'EOF';
-
-interface Token {
-    type: TokenType;
-    value: string;
-    numValue?: number;
+// Safe C-style bit manipulation evaluator. The parser (parser.ts) builds an
+// AST of the answer and the interpreter here runs it against a register file.
+// Expressions are computed as 16-bit C ints (avr-gcc) and truncated to the
+// register width on store. Bitwise results are kept as unsigned 16-bit
+// patterns; arithmetic results are signed, so `i - 1 < 0` behaves as in C.
+// Loops are bounded (1000 iterations across the program).
+// Writes follow the datasheet: read-only and reserved bits keep their value,
+// flags clear when a 1 is written to them, and a 1 written to PINx toggles
+// the PORTx bit. Peripherals (peripherals.ts) run alongside: an ADC
+// conversion or a USART frame finishes a number of steps after it starts.
+// Assembly answers (assembly.ts) run on the same register file, as effects
+// reported by the AVR machine instead of the interpreter.
+
+import {
+    flagMask, registerMask, registerWidth, wordOf, writableMask,
+    type DeviceProfile, type RegisterInfo,
+} from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import { DiagnosticError, spanAt, type Diagnostic, type DiagnosticCode, type SourceSpan } from './diagnostics';
+import {
+    registersIn, walkExpression,
+    type BinaryExpression, type Declaration, type Expression, type ForStatement,
+    type NameReference, type Program, type Statement, type UnaryOperator,
+} from './ast';
+import { C_TYPES, INT_MASK, parse, type BitNameCheck } from './parser';
+import { formatExpression } from './formatter';
+import { checkConstraints, type AnswerConstraints } from './constraints';
+import { Peripherals } from './peripherals';
+import { AssemblyMachine, checkAssemblyConstraints } from './assembly';
+
+export type { BitNameCheck } from './parser';
+
+// Result of an int operator, wrapped to 16 bits and signed as C's int is
+function toInt16(n: number): number {
+    const v = n & INT_MASK;
+    return v >= 0x8000 ? v - 0x10000 : v;
 }
 
-function tokenize(input: string): Token[] {
-    const tokens: Token[] = [];
-    let i = 0;
-    const s = input.trim();
-
-    while (i < s.length) {
-        // Skip whitespace
-        if (/\s/.test(s[i])) { i++; continue; }
-
-        // Semicolon
-        if (s[i] === ';') { tokens.push({ type: 'SEMICOLON', value: ';' }); i++; continue; }
-
-        // Two-char operators
-        if (i + 1 < s.length) {
-            const two = s.substring(i, i + 2);
-            if (two === '|=') { tokens.push({ type: 'OR_ASSIGN', value: '|=' }); i += 2; continue; }
-            if (two === '&=') { tokens.push({ type: 'AND_ASSIGN', value: '&=' }); i += 2; continue; }
-            if (two === '^=') { tokens.push({ type: 'XOR_ASSIGN', value: '^=' }); i += 2; continue; }
-            if (two === '<<') { tokens.push({ type: 'LSHIFT', value: '<<' }); i += 2; continue; }
-            if (two === '>>') { tokens.push({ type: 'RSHIFT', value: '>>' }); i += 2; continue; }
-        }
+export type AnswerLanguage = 'c' | 'asm';
 
-        // Single-char operators
-        if (s[i] === '=') { tokens.push({ type: 'ASSIGN', value: '=' }); i++; continue; }
-        if (s[i] === '|') { tokens.push({ type: 'OR', value: '|' }); i++; continue; }
-        if (s[i] === '&') { tokens.push({ type: 'AND', value: '&' }); i++; continue; }
-        if (s[i] === '^') { tokens.push({ type: 'XOR', value: '^' }); i++; continue; }
-        if (s[i] === '~') { tokens.push({ type: 'NOT', value: '~' }); i++; continue; }
-        if (s[i] === '(') { tokens.push({ type: 'LPAREN', value: '(' }); i++; continue; }
-        if (s[i] === ')') { tokens.push({ type: 'RPAREN', value: ')' }); i++; continue; }
-
-        // Numbers: hex (0x..), binary (0b..), decimal
-        if (/[0-9]/.test(s[i])) {
-            let numStr = '';
-            if (s[i] === '0' && i + 1 < s.length && (s[i + 1] === 'x' || s[i + 1] === 'X')) {
-                numStr = '0x';
-                i += 2;
-                while (i < s.length && /[0-9a-fA-F]/.test(s[i])) { numStr += s[i]; i++; }
-                tokens.push({ type: 'NUMBER', value: numStr, numValue: parseInt(numStr, 16) & 0xFF });
-            } else if (s[i] === '0' && i + 1 < s.length && (s[i + 1] === 'b' || s[i + 1] === 'B')) {
-                numStr = '0b';
-                i += 2;
-                while (i < s.length && /[01]/.test(s[i])) { numStr += s[i]; i++; }
-                tokens.push({ type: 'NUMBER', value: numStr, numValue: parseInt(numStr.substring(2), 2) & 0xFF });
-            } else {
-                while (i < s.length && /[0-9]/.test(s[i])) { numStr += s[i]; i++; }
-                tokens.push({ type: 'NUMBER', value: numStr, numValue: parseInt(numStr, 10) & 0xFF });
-            }
-            continue;
-        }
+export interface EvalOptions {
+    bitNameCheck?: BitNameCheck;   // default 'warn'
+    language?: AnswerLanguage;     // default 'c'
+}
 
-        // Identifiers (register names, bit names)
-        if (/[a-zA-Z_]/.test(s[i])) {
-            let id = '';
-            while (i < s.length && /[a-zA-Z0-9_]/.test(s[i])) { id += s[i]; i++; }
-            tokens.push({ type: 'IDENTIFIER', value: id });
-            continue;
-        }
+export interface CheckOptions extends EvalOptions {
+    constraints?: AnswerConstraints;   // rules on how the answer is written
+    // Reference code the answer must match for every starting value of the
+    // register, not just the question's, e.g. "without affecting other bits"
+    reference?: string;
+    // Other registers the question sets up and checks; registers in neither
+    // map must be left as they were
+    initialStates?: Record<string, number>;
+    expectedStates?: Record<string, number>;
+}
 
-        // Unknown character - skip
-        i++;
-    }
+// A register whose final value is not what the question expects
+export interface RegisterDifference {
+    register: string;
+    expected: number;
+    actual: number;
+    unintended: boolean;   // the question does not ask for this register to change
+}
 
-    tokens.push({ type: 'EOF', value: '' });
-    return tokens;
+// What running a statement did: a register write, an avr-libc busy-wait on
+// one bit, a control-flow decision (which branch of an if ran, or a loop
+// test) or a variable update. Assembly reports instructions the same way,
+// with their mnemonic as the op and the cycles they take.
+export type Effect = (
+    | { kind: 'assign'; register: string; value: number; op: string; span: SourceSpan }
+    | { kind: 'wait'; register: string; value: number; op: 'loop_until_bit_is_set' | 'loop_until_bit_is_clear'; text: string; span: SourceSpan }
+    | { kind: 'branch'; register: string; value: number; op: string; note: string; span: SourceSpan }
+    | { kind: 'variable'; name: string; op: string; value: number; before: number; after: number; note?: string; span: SourceSpan }
+) & { cycles?: number };
+
+// A front-end that runs an answer, reporting each effect as it happens.
+// run() throws a DiagnosticError when the answer cannot go on.
+export interface Runner {
+    diagnostics: Diagnostic[];   // warnings raised while parsing and running
+    variables: Record<string, number>;
+    cpu?: CpuState;
+    run(): void;
 }
 
-// Recursive descent parser for bit manipulation expressions
-class Parser {
-    private tokens: Token[];
-    private pos: number;
+// Loop iterations allowed across the whole program before giving up
+const MAX_LOOP_ITERATIONS = 1000;
 
-    constructor(tokens: Token[]) {
-        this.tokens = tokens;
-        this.pos = 0;
+interface Variable {
+    type: string;
+    value: number | null;   // null until assigned
+}
+
+// Convert a value to a variable's type; signed types hold negative numbers
+function toCType(value: number, type: string): number {
+    const { bits, signed } = C_TYPES[type];
+    const v = value & ((1 << bits) - 1);
+    return signed && v >= 1 << (bits - 1) ? v - (1 << bits) : v;
+}
+
+// New value for `before op= value`; ++ and -- carry a value of 1, and the
+// OUT and STS instructions store their value as it is
+function applyAssignOp(op: string, before: number, value: number): number {
+    switch (op) {
+        case '=': case 'out': case 'sts': return value;
+        case '|=': return before | value;
+        case '&=': return before & value;
+        case '^=': return before ^ value;
+        case '+=': case '++': return before + value;
+        case '-=': case '--': return before - value;
+        case '*=': return before * value;
+        case '/=':
+        case '%=':
+            if (value === 0) throw new Error(`Division by zero`);
+            return op === '/=' ? Math.trunc(before / value) : before % value;
+        case '<<=': return before << value;
+        case '>>=': return before >> value;
+        default:
+            throw new Error(`Unknown operator: ${op}`);
     }
+}
 
-    private peek(): Token {
-        return this.tokens[this.pos] || { type: 'EOF', value: '' };
+// "(PINA & (1 << PA2)) is true → iteration 3"
+function loopNote(test: string, taken: boolean, iteration: number): string {
+    return `(${test}) is ${taken ? `true → iteration ${iteration}` : 'false → loop ends'}`;
+}
+
+// Tree-walking interpreter over a parsed program. Names were resolved by the
+// parser; local variables live in block scopes that exist while their block runs.
+class Interpreter {
+    private device: DeviceProfile;
+    private read: (register: string) => number;
+    private execute: (effect: Effect) => void;
+    private iterations = 0;
+    // Block scopes of local variables, innermost last
+    private scopes: Map<string, Variable>[] = [new Map()];
+    diagnostics: Diagnostic[] = [];   // warnings raised while running
+    variables: Record<string, number> = {};   // last value of every variable assigned
+
+    constructor(
+        device: DeviceProfile,
+        read: (register: string) => number,
+        execute: (effect: Effect) => void
+    ) {
+        this.device = device;
+        this.read = read;
+        this.execute = execute;
     }
 
-    private advance(): Token {
-        const t = this.tokens[this.pos];
-        this.pos++;
-        return t;
+    private fail(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): never {
+        throw new DiagnosticError({ code, severity: 'error', message, span, ...(fix ? { fix } : {}) });
     }
 
-    private expect(type: TokenType): Token {
-        const t = this.peek();
-        if (t.type !== type) {
-            throw new Error(`Expected ${type} but got ${t.type} ('${t.value}')`);
-        }
-        return this.advance();
+    private warn(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): void {
+        if (this.diagnostics.some(d => d.message === message && d.span.start === span.start)) return;
+        this.diagnostics.push({ code, severity: 'warning', message, span, ...(fix ? { fix } : {}) });
     }
 
-    // Parse a full expression value (right-hand side)
-    parseExpression(): number {
-        return this.parseOr();
+    // Run `fn` inside a new block scope
+    private scoped(fn: () => void): void {
+        this.scopes.push(new Map());
+        try {
+            fn();
+        } finally {
+            this.scopes.pop();
+        }
     }
 
-    private parseOr(): number {
-        let left = this.parseXor();
-        while (this.peek().type === 'OR') {
-            this.advance();
-            left = (left | this.parseXor()) & 0xFF;
+    private lookupVariable(name: string): Variable {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const variable = this.scopes[i].get(name);
+            if (variable) return variable;
         }
-        return left;
+        throw new Error(`Variable ${name} is not in scope`);
     }
 
-    private parseXor(): number {
-        let left = this.parseAnd();
-        while (this.peek().type === 'XOR') {
-            this.advance();
-            left = (left ^ this.parseAnd()) & 0xFF;
+    private readVariable(target: NameReference): number {
+        const variable = this.lookupVariable(target.name);
+        if (variable.value === null) {
+            this.warn('uninitialized', `${target.name} is read before it is given a value`, target.span,
+                `give it a value: \`${variable.type} ${target.name} = 0;\``);
+            return 0;
         }
-        return left;
+        return variable.value;
+    }
+
+    private readTarget(target: NameReference): number {
+        return target.ref === 'variable' ? this.readVariable(target) : this.read(target.name);
     }
 
-    private parseAnd(): number {
-        let left = this.parseShift();
-        while (this.peek().type === 'AND') {
-            this.advance();
-            left = (left & this.parseShift()) & 0xFF;
+    private countIteration(keyword: string, span: SourceSpan): void {
+        if (++this.iterations > MAX_LOOP_ITERATIONS) {
+            this.fail('loop-limit', `${keyword} loop still running after ${MAX_LOOP_ITERATIONS} iterations — its condition never becomes false`,
+                span, 'make sure the loop body changes what the condition tests');
         }
-        return left;
     }
 
-    private parseShift(): number {
-        let left = this.parseUnary();
-        while (this.peek().type === 'LSHIFT' || this.peek().type === 'RSHIFT') {
-            const op = this.advance();
-            const right = this.parseUnary();
-            if (op.type === 'LSHIFT') {
-                left = (left << right) & 0xFF;
-            } else {
-                left = (left >> right) & 0xFF;
+    evaluate(expression: Expression): number {
+        switch (expression.kind) {
+            case 'number':
+                return expression.value;
+            case 'name':
+                if (expression.ref === 'bit') return this.device.allNamedBits[expression.name];
+                return this.readTarget(expression);
+            case 'unary':
+                return this.evaluateUnary(expression.op, this.evaluate(expression.operand));
+            case 'binary':
+                return this.evaluateBinary(expression);
+            case 'conditional':
+                // Only the chosen side runs
+                return this.evaluate(expression.test) !== 0
+                    ? this.evaluate(expression.consequent)
+                    : this.evaluate(expression.alternate);
+            case 'update': {
+                // ++x yields the new value, x++ the old one
+                const old = this.readTarget(expression.target);
+                this.store(expression.target, expression.op, 1, expression.span);
+                return expression.prefix ? this.readTarget(expression.target) : old;
+            }
+            case 'call': {
+                const [first, second] = expression.args;
+                if (expression.callee === '_BV') return toInt16(1 << this.evaluate(first));
+                const masked = this.evaluate(first) & (1 << this.evaluate(second));
+                return expression.callee === 'bit_is_set' ? masked : masked === 0 ? 1 : 0;
             }
+            case 'missing':
+                this.fail('incomplete-code', 'The expression is incomplete', expression.span, 'add a value, e.g. `(1<<PB5)`');
         }
-        return left;
     }
 
-    private parseUnary(): number {
-        if (this.peek().type === 'NOT') {
-            this.advance();
-            return (~this.parseUnary()) & 0xFF;
+    private evaluateUnary(op: UnaryOperator, operand: number): number {
+        switch (op) {
+            case '~': return toInt16(~operand);
+            case '!': return operand === 0 ? 1 : 0;
+            case '-': return toInt16(-operand);
+            case '+': return operand;
         }
-        return this.parsePrimary();
     }
 
-    private parsePrimary(): number {
-        const t = this.peek();
-
-        if (t.type === 'NUMBER') {
-            this.advance();
-            return t.numValue!;
+    private evaluateBinary(expression: BinaryExpression): number {
+        const left = this.evaluate(expression.left);
+        // && and || short-circuit and yield 0 or 1, as in C
+        if (expression.op === '&&') return left !== 0 && this.evaluate(expression.right) !== 0 ? 1 : 0;
+        if (expression.op === '||') return left !== 0 || this.evaluate(expression.right) !== 0 ? 1 : 0;
+
+        const right = this.evaluate(expression.right);
+        switch (expression.op) {
+            case '|': return toInt16(left | right);
+            case '^': return toInt16(left ^ right);
+            case '&': return toInt16(left & right);
+            case '==': return left === right ? 1 : 0;
+            case '!=': return left !== right ? 1 : 0;
+            case '<': return left < right ? 1 : 0;
+            case '>': return left > right ? 1 : 0;
+            case '<=': return left <= right ? 1 : 0;
+            case '>=': return left >= right ? 1 : 0;
+            case '<<': return toInt16(left << right);
+            case '>>': return toInt16(left >> right);
+            case '+': return toInt16(left + right);
+            case '-': return toInt16(left - right);
+            case '*': return toInt16(left * right);
+            case '/':
+            case '%':
+                // Integer division truncates towards zero, as in C
+                if (right === 0) this.fail('division-by-zero', 'Division by zero', expression.opSpan);
+                return toInt16(expression.op === '/' ? Math.trunc(left / right) : left % right);
         }
+    }
 
-        if (t.type === 'IDENTIFIER') {
-            this.advance();
-            // Look up as a named bit
-            if (t.value in allNamedBits) {
-                return allNamedBits[t.value];
-            }
-            throw new Error(`Unknown identifier: ${t.value}`);
+    // target op= value (++ and -- are stored with a value of 1)
+    private store(target: NameReference, op: string, value: number, span: SourceSpan): void {
+        if (value === 0 && (op === '/=' || op === '%=')) {
+            this.fail('division-by-zero', 'Division by zero', span);
         }
 
-        if (t.type === 'LPAREN') {
-            this.advance();
-            const val = this.parseExpression();
-            this.expect('RPAREN');
-            return val;
+        if (target.ref === 'register') {
+            this.execute({ kind: 'assign', register: target.name, value, op, span });
+            return;
         }
 
-        throw new Error(`Unexpected token: ${t.type} ('${t.value}')`);
-    }
-
-    // Parse a full statement: REGISTER op= expression;
-    parseStatement(): { register: string; value: number; op: string } | null {
-        if (this.peek().type === 'EOF') return null;
-        if (this.peek().type === 'SEMICOLON') { this.advance(); return null; }
-
-        const regToken = this.expect('IDENTIFIER');
-        const register = regToken.value;
-
-        const opToken = this.peek();
-        let op = '';
-
-        if (opToken.type === 'ASSIGN') {
-            op = '=';
-            this.advance();
-        } else if (opToken.type === 'OR_ASSIGN') {
-            op = '|=';
-            this.advance();
-        } else if (opToken.type === 'AND_ASSIGN') {
-            op = '&=';
-            this.advance();
-        } else if (opToken.type === 'XOR_ASSIGN') {
-            op = '^=';
-            this.advance();
-        } else {
-            throw new Error(`Expected assignment operator but got '${opToken.value}'`);
+        // Plain = overwrites, so an unassigned variable is fine here
+        const variable = this.lookupVariable(target.name);
+        const before = op === '=' ? variable.value ?? 0 : this.readVariable(target);
+        variable.value = toCType(applyAssignOp(op, before, value), variable.type);
+        this.variables[target.name] = variable.value;
+        this.execute({ kind: 'variable', name: target.name, op, value, before, after: variable.value, span });
+    }
+
+    private declare(declaration: Declaration): void {
+        const scope = this.scopes[this.scopes.length - 1];
+        const { type } = declaration;
+        for (const { name, init, span } of declaration.declarators) {
+            let value: number | null = null;
+            if (init) {
+                const exprValue = this.evaluate(init);
+                value = toCType(exprValue, type);
+                this.variables[name] = value;
+                this.execute({
+                    kind: 'variable', name, op: '=', value: exprValue, before: value, after: value,
+                    note: `${declaration.qualifiers.includes('const') ? 'const ' : ''}${type} ${name}`, span,
+                });
+            }
+            scope.set(name, { type, value });
         }
+    }
 
-        const exprValue = this.parseExpression();
+    // Value of a condition and the first register it reads (the step's register)
+    private test(test: Expression): { value: number; register: string } {
+        return { value: this.evaluate(test), register: registersIn(test)[0] ?? '' };
+    }
 
-        // Optional semicolon
-        if (this.peek().type === 'SEMICOLON') {
-            this.advance();
+    private runFor(statement: ForStatement): void {
+        this.scoped(() => {
+            if (statement.init) this.run(statement.init);
+            const text = statement.test ? formatExpression(statement.test) : 'no condition';
+            for (let iteration = 1; ; iteration++) {
+                const { value, register } = statement.test ? this.test(statement.test) : { value: 1, register: '' };
+                const taken = value !== 0;
+                this.execute({
+                    kind: 'branch', register, value, op: 'for', note: loopNote(text, taken, iteration),
+                    span: statement.test?.span ?? statement.keywordSpan,
+                });
+                if (!taken) return;
+                this.run(statement.body);
+                this.countIteration('for', statement.keywordSpan);
+                if (statement.update) this.run(statement.update);
+            }
+        });
+    }
+
+    run(statement: Statement): void {
+        switch (statement.kind) {
+            case 'empty':
+                return;
+            case 'block':
+                this.scoped(() => statement.body.forEach(s => this.run(s)));
+                return;
+            case 'assign':
+                this.store(statement.target, statement.op, this.evaluate(statement.value), statement.span);
+                return;
+            case 'increment':
+                this.store(statement.target, statement.op, 1, statement.span);
+                return;
+            case 'declaration':
+                this.declare(statement);
+                return;
+            case 'wait':
+                this.execute({
+                    kind: 'wait', register: statement.register.name, op: statement.macro,
+                    value: (1 << this.evaluate(statement.bit)) & INT_MASK,
+                    text: `${statement.macro}(${statement.register.name}, ${formatExpression(statement.bit)})`,
+                    span: statement.span,
+                });
+                return;
+            case 'if': {
+                const { value, register } = this.test(statement.test);
+                const taken = value !== 0;
+                const branch = taken ? 'then branch runs' : statement.alternate ? 'else branch runs' : 'skipped';
+                this.execute({
+                    kind: 'branch', register, value, op: 'if',
+                    note: `(${formatExpression(statement.test)}) is ${taken ? 'true' : 'false'} → ${branch}`,
+                    span: statement.test.span,
+                });
+                if (taken) this.run(statement.consequent);
+                else if (statement.alternate) this.run(statement.alternate);
+                return;
+            }
+            case 'while': {
+                const text = formatExpression(statement.test);
+                for (let iteration = 1; ; iteration++) {
+                    const { value, register } = this.test(statement.test);
+                    const taken = value !== 0;
+                    this.execute({
+                        kind: 'branch', register, value, op: 'while', note: loopNote(text, taken, iteration),
+                        span: statement.test.span,
+                    });
+                    if (!taken) return;
+                    this.run(statement.body);
+                    this.countIteration('while', statement.keywordSpan);
+                }
+            }
+            case 'for':
+                this.runFor(statement);
+                return;
         }
+    }
 
-        return { register, value: exprValue, op };
+    runProgram(program: Program): void {
+        for (const statement of program.body) this.run(statement);
     }
 }
 
+// The AVR core after an assembly answer: r0–r31 and SREG
+export interface CpuState {
+    registers: number[];
+    sreg: number;
+}
+
 export interface EvalResult {
     success: boolean;
     registerStates: Record<string, number>;
     error?: string;
+    variables: Record<string, number>;   // final values of local variables (signed types may be negative)
+    warnings: string[];    // wrong-register bit names, out-of-order 16-bit writes
+    diagnostics: Diagnostic[];   // warnings with source spans, then the error if there is one
+    // Registers only the peripherals changed, e.g. UCSR0A after a UDR0 write
+    peripheralRegisters: string[];
+    cpu?: CpuState;        // assembly answers only
     steps: Array<{
-        register: string;
+        register: string;  // register, or local variable name
         op: string;
         exprValue: number;
         before: number;
         after: number;
+        note?: string;     // e.g. a high-byte write held in TEMP, which branch ran, or a conversion finishing
+        span: SourceSpan;  // the statement, or the condition of a branch
     }>;
 }
 
+// Register values during evaluation. 16-bit registers are stored under their
+// 16-bit name and the H/L halves are views onto it, so OCR1A, OCR1AH and
+// OCR1AL always agree.
+class RegisterFile {
+    private values: Record<string, number> = {};
+    // TEMP byte per 16-bit timer, and which high half last wrote it
+    private temps: Record<string, { value: number; from: string }> = {};
+    private device: DeviceProfile;
+    // Registers the code wrote, and those only the peripherals set
+    private written = new Set<string>();
+    private simulated = new Set<string>();
+    warnings: { code: DiagnosticCode; message: string }[] = [];
+
+    constructor(device: DeviceProfile, initialStates: Record<string, number>) {
+        this.device = device;
+        for (const [name, value] of Object.entries(initialStates)) {
+            const half = wordOf(device, name);
+            if (half) {
+                const word = this.read(half.word.name);
+                this.values[half.word.name] = half.half === 'high'
+                    ? (word & 0x00FF) | ((value & 0xFF) << 8)
+                    : (word & 0xFF00) | (value & 0xFF);
+            } else {
+                this.values[name] = value;
+            }
+        }
+    }
+
+    read(name: string): number {
+        const half = wordOf(this.device, name);
+        if (half) {
+            const word = this.read(half.word.name);
+            return half.half === 'high' ? word >> 8 : word & 0xFF;
+        }
+        // Pins the question does not set read the levels PORTx drives (or
+        // pulls up), so `PINx |= m` writes back every pin that reads high
+        const info = this.device.registerMap[name];
+        if (info?.toggles && !(name in this.values)) return this.read(info.toggles) & writableMask(info);
+        return this.values[name] ?? info?.resetValue ?? 0;
+    }
+
+    // Store a value; returns a note when the write does more than store it
+    // (buffered in TEMP, toggles PORTx, clears flags)
+    write(name: string, value: number): string | undefined {
+        this.written.add(name);
+        const info = this.device.registerMap[name];
+        if (info?.toggles) return this.toggle(info, value);
+
+        let flagNote: string | undefined;
+        if (info) {
+            const current = this.read(name);
+            this.checkReadOnly(info, current, value);
+            const cleared = current & flagMask(info) & value;
+            if (cleared) flagNote = `clears ${bitNames(info, cleared)}`;
+            value = (current & ~writableMask(info) & ~cleared) | (value & writableMask(info));
+        }
+        const note = this.store(name, value);
+        return note && flagNote ? `${flagNote}; ${note}` : note ?? flagNote;
+    }
+
+    // PINx keeps the pin levels; each 1 written flips that PORTx bit
+    private toggle(info: RegisterInfo, value: number): string | undefined {
+        const mask = value & writableMask(info);
+        if (!mask) return undefined;
+        const port = info.toggles!;
+        const before = this.read(port);
+        this.values[port] = before ^ mask;
+        return `toggles ${port} ${bitNames(this.device.registerMap[port], mask)}: ${toHex(before)} → ${toHex(before ^ mask)}`;
+    }
+
+    // Warn when a write tries to set a read-only bit that reads 0
+    private checkReadOnly(info: RegisterInfo, current: number, value: number): void {
+        let readOnly = 0;
+        info.access.forEach((a, i) => {
+            if (a === 'r') readOnly |= (1 << i);
+        });
+        const attempted = value & readOnly & ~current;
+        if (attempted && info.access.every(a => a === 'r')) {
+            // A read-only register such as ADC: its bits have no names to list
+            const name = info.halves ? `${info.name} (${info.halves.low} and ${info.halves.high})` : info.name;
+            this.warnings.push({
+                code: 'read-only-bit',
+                message: `${name} is read-only — writing it does not change it`,
+            });
+        } else if (attempted) {
+            const many = attempted & (attempted - 1);
+            this.warnings.push({
+                code: 'read-only-bit',
+                message: `${bitNames(info, attempted)} in ${info.name} ${many ? 'are' : 'is'} read-only — writing 1 does not set ${many ? 'them' : 'it'}`,
+            });
+        }
+    }
+
+    // Store a value into a register or one half of a 16-bit register
+    private store(name: string, value: number): string | undefined {
+        const half = wordOf(this.device, name);
+        if (!half) {
+            const info = this.device.registerMap[name];
+            if (info?.temp && info.halves) {
+                // A 16-bit access is compiled high byte first, leaving it in TEMP
+                this.temps[info.temp] = { value: value >> 8, from: info.halves.high };
+            }
+            this.values[name] = value;
+            return undefined;
+        }
+
+        const { word } = half;
+        const current = this.read(word.name);
+        if (!word.temp) {
+            this.values[word.name] = half.half === 'high'
+                ? (current & 0x00FF) | (value << 8)
+                : (current & 0xFF00) | value;
+            return undefined;
+        }
+
+        if (half.half === 'high') {
+            this.temps[word.temp] = { value, from: name };
+            return `held in TEMP until ${word.halves!.low} is written`;
+        }
+
+        const temp = this.temps[word.temp];
+        const high = temp?.value ?? 0;
+        if (!temp) {
+            this.warnings.push({
+                code: 'temp-order',
+                message: `${name} was written without writing ${word.halves!.high} first — the high byte comes from TEMP (0x00). Write the high byte first.`,
+            });
+        } else if (temp.from !== word.halves!.high) {
+            this.warnings.push({
+                code: 'temp-order',
+                message: `${name} committed the TEMP byte last written through ${temp.from}, not ${word.halves!.high}.`,
+            });
+        }
+        this.values[word.name] = (high << 8) | value;
+        return `commits TEMP (${toHex(high)}) as ${word.halves!.high}`;
+    }
+
+    // A change made by the hardware itself, which no write rule applies to
+    set(name: string, value: number): void {
+        this.values[name] = value;
+        this.simulated.add(name);
+    }
+
+    peripheralRegisters(): string[] {
+        return [...this.simulated].filter(name => !this.written.has(name));
+    }
+
+    // Final states, with the halves of every 16-bit register alongside it
+    snapshot(): Record<string, number> {
+        const out: Record<string, number> = { ...this.values };
+        for (const [name, value] of Object.entries(this.values)) {
+            const halves = this.device.registerMap[name]?.halves;
+            if (halves) {
+                out[halves.low] = value & 0xFF;
+                out[halves.high] = value >> 8;
+            }
+        }
+        return out;
+    }
+}
+
+function toHex(n: number): string {
+    return '0x' + n.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// Names of the bits in `mask`, e.g. "TOV0, OCF0A"
+function bitNames(info: RegisterInfo, mask: number): string {
+    const names: string[] = [];
+    info.access.forEach((_, i) => {
+        if (mask & (1 << i)) names.push(info.bits[i] ?? `bit ${i}`);
+    });
+    return names.join(', ');
+}
+
+/**
+ * Compound assignments read a flag register back before writing it, so
+ * `TIFR0 |= (1<<TOV0)` clears every pending flag and `ADCSRA &= ~(1<<ADIF)`
+ * clears none of the ones it names. Returns what went differently.
+ */
+function flagWriteWarnings(info: RegisterInfo, op: string, before: number, operand: number, written: number): string[] {
+    const flags = flagMask(info) & before;
+    if (op === '=' || op === 'out' || op === 'sts' || op === 'sbi' || op === 'cbi' || !flags) return [];
+    const warnings: string[] = [];
+    const kept = op === '&=' ? flags & ~operand & ~written : 0;
+    if (kept) {
+        warnings.push(`Writing 0 to ${bitNames(info, kept)} does not clear ${kept & (kept - 1) ? 'them' : 'it'} — flags in ${info.name} clear when a 1 is written`);
+    }
+    const extra = flags & written & (op === '|=' ? ~operand : ~0);
+    if (extra) {
+        const fix = writableMask(info) === 0 ? ` — write only the flag to clear: ${info.name} = (1<<…)` : '';
+        warnings.push(`${info.name} ${op} writes back the flags it reads, so it also clears ${bitNames(info, extra)}${fix}`);
+    }
+    return warnings;
+}
+
+// SBI and CBI write only their own bit: the other flags are written as 0, so
+// they stay pending, and so are the other PINx bits, so they do not toggle
+function bitInstructionValue(info: RegisterInfo, op: string, before: number, mask: number): number {
+    const kept = info.toggles ? 0 : before & ~flagMask(info);
+    return op === 'sbi' ? kept | mask : kept & ~mask;
+}
+
+// The C interpreter as a runner; `load` parses the program
+function interpreterRunner(
+    device: DeviceProfile,
+    load: () => { program: Program; diagnostics: Diagnostic[] },
+    read: (register: string) => number,
+    apply: (effect: Effect) => void
+): Runner {
+    const interpreter = new Interpreter(device, read, apply);
+    return {
+        diagnostics: interpreter.diagnostics,
+        variables: interpreter.variables,
+        run() {
+            const parsed = load();
+            interpreter.diagnostics.push(...parsed.diagnostics);
+            interpreter.runProgram(parsed.program);
+        },
+    };
+}
+
 /**
- * Evaluate one or more C-style bit manipulation statements.
+ * Evaluate one or more C-style bit manipulation statements, or AVR
+ * assembly instructions with `language: 'asm'`.
  * Returns the final register states.
  */
 export function evaluate(
     code: string,
-    initialStates: Record<string, number> = {}
+    initialStates: Record<string, number> = {},
+    device: DeviceProfile = getActiveDevice(),
+    options: EvalOptions = {}
 ): EvalResult {
-    const states: Record<string, number> = { ...initialStates };
-    const steps: EvalResult['steps'] = [];
+    if (options.language === 'asm') {
+        return execute(code, (read, apply) => new AssemblyMachine(code, device, read, apply, options.bitNameCheck), initialStates, device);
+    }
+    return execute(code, (read, apply) => interpreterRunner(device, () => parse(code, device, options.bitNameCheck), read, apply), initialStates, device);
+}
+
+/**
+ * Run a program that is already parsed, e.g. the statements of a partial
+ * parse. `code` is the source its spans point into.
+ */
+export function evaluateProgram(
+    program: Program,
+    code: string,
+    initialStates: Record<string, number> = {},
+    device: DeviceProfile = getActiveDevice()
+): EvalResult {
+    return execute(code, (read, apply) => interpreterRunner(device, () => ({ program, diagnostics: [] }), read, apply), initialStates, device);
+}
 
+/**
+ * Value of an expression on its own, reading registers through `read`.
+ * Null when it needs a running program (variables, ++ and --), is
+ * incomplete, or divides by zero.
+ */
+export function evaluateExpression(
+    expression: Expression,
+    read: (register: string) => number,
+    device: DeviceProfile = getActiveDevice()
+): number | null {
+    let runnable = true;
+    walkExpression(expression, node => {
+        if (node.kind === 'missing' || node.kind === 'update' || (node.kind === 'name' && node.ref === 'variable')) runnable = false;
+    });
+    if (!runnable) return null;
     try {
-        const tokens = tokenize(code);
-        const parser = new Parser(tokens);
-
-        let safety = 0;
-        while (parser.parseStatement !== undefined && safety < 100) {
-            safety++;
-            const stmt = parser.parseStatement();
-            if (stmt === null) {
-                if (tokens[parser['pos']]?.type === 'EOF') break;
-                continue;
-            }
+        return new Interpreter(device, read, () => {}).evaluate(expression);
+    } catch {
+        return null;
+    }
+}
+
+function execute(
+    code: string,
+    runner: (read: (register: string) => number, apply: (effect: Effect) => void) => Runner,
+    initialStates: Record<string, number>,
+    device: DeviceProfile
+): EvalResult {
+    const registers = new RegisterFile(device, initialStates);
+    const peripherals = new Peripherals(device, registers);
+    const steps: EvalResult['steps'] = [];
+    const runtimeWarnings: Diagnostic[] = [];
+
+    // A step takes one cycle (an instruction its own count); what the
+    // peripherals did meanwhile goes in its note
+    const record = ({ note: own, ...step }: EvalResult['steps'][number], notes: (string | undefined)[] = [], cycles = 1): void => {
+        const note = [own, ...notes, ...peripherals.tick(cycles)].filter(Boolean).join('; ');
+        steps.push({ ...step, ...(note ? { note } : {}) });
+    };
+
+    // Apply one effect to the register file and record it as a step
+    const apply = (stmt: Effect): void => {
+        if (stmt.kind === 'variable') {
+            const { name, op, value, before, after, note, span } = stmt;
+            record({ register: name, op, exprValue: value, before, after, note, span }, [], stmt.cycles);
+            return;
+        }
+
+        const before = stmt.register ? registers.read(stmt.register) : 0;
 
-            const before = states[stmt.register] ?? 0;
-            let after: number;
-
-            switch (stmt.op) {
-                case '=':
-                    after = stmt.value & 0xFF;
-                    break;
-                case '|=':
-                    after = (before | stmt.value) & 0xFF;
-                    break;
-                case '&=':
-                    after = (before & stmt.value) & 0xFF;
-                    break;
-                case '^=':
-                    after = (before ^ stmt.value) & 0xFF;
-                    break;
-                default:
-                    throw new Error(`Unknown operator: ${stmt.op}`);
+        if (stmt.kind === 'branch') {
+            record({ register: stmt.register, op: stmt.op, exprValue: stmt.value, before, after: before, note: stmt.note, span: stmt.span }, [], stmt.cycles);
+            return;
+        }
+
+        if (stmt.kind === 'wait') {
+            // Nothing else runs while the loop spins, so only a peripheral can finish it
+            const wanted = stmt.op === 'loop_until_bit_is_set';
+            const waited = peripherals.waitUntil(() => ((registers.read(stmt.register) & stmt.value) !== 0) === wanted);
+            if (!waited) {
+                throw new DiagnosticError({
+                    code: 'wait-never-finishes', severity: 'error', span: stmt.span,
+                    message: `${stmt.text} never finishes: the bit is ${wanted ? 'clear' : 'set'} and nothing changes it`,
+                });
             }
+            const spun = waited.cycles ? `waits ${waited.cycles} cycle${waited.cycles === 1 ? '' : 's'}` : undefined;
+            record({ register: stmt.register, op: stmt.op, exprValue: stmt.value, before, after: registers.read(stmt.register), span: stmt.span },
+                [spun, ...waited.notes]);
+            return;
+        }
 
-            states[stmt.register] = after;
-            steps.push({
-                register: stmt.register,
-                op: stmt.op,
-                exprValue: stmt.value,
-                before,
-                after,
-            });
+        const info = device.registerMap[stmt.register];
+        const value = (info && (stmt.op === 'sbi' || stmt.op === 'cbi')
+            ? bitInstructionValue(info, stmt.op, before, stmt.value)
+            : applyAssignOp(stmt.op, before, stmt.value)) & registerMask(device, stmt.register);
+
+        if (info) {
+            for (const message of flagWriteWarnings(info, stmt.op, before, stmt.value, value)) {
+                runtimeWarnings.push({ code: 'flag-write', severity: 'warning', message, span: stmt.span });
+            }
         }
+        const note = registers.write(stmt.register, value);
+        const started = peripherals.written(stmt.register);
+        for (const { code, message } of [...registers.warnings.splice(0), ...peripherals.warnings.splice(0)]) {
+            runtimeWarnings.push({ code, severity: 'warning', message, span: stmt.span });
+        }
+        record({
+            register: stmt.register,
+            op: stmt.op,
+            exprValue: stmt.value,
+            before,
+            after: registers.read(stmt.register),
+            note,
+            span: stmt.span,
+        }, started, stmt.cycles);
+    };
 
-        return { success: true, registerStates: states, steps };
+    const answer = runner(name => registers.read(name), apply);
+
+    // Warnings in source order
+    const warnings = (): Diagnostic[] => [...answer.diagnostics, ...runtimeWarnings]
+        .sort((a, b) => a.span.start - b.span.start);
+
+    try {
+        answer.run();
+
+        const diagnostics = warnings();
+        return {
+            success: true,
+            registerStates: registers.snapshot(),
+            variables: answer.variables,
+            warnings: diagnostics.map(d => d.message),
+            diagnostics,
+            peripheralRegisters: registers.peripheralRegisters(),
+            ...(answer.cpu ? { cpu: answer.cpu } : {}),
+            steps,
+        };
     } catch (e: any) {
+        const error: Diagnostic = e instanceof DiagnosticError ? e.diagnostic : {
+            code: 'internal-error', severity: 'error',
+            message: e.message || 'Parse error',
+            span: spanAt(code, 0, code.length),
+        };
+        const diagnostics = warnings();
         return {
             success: false,
-            registerStates: states,
-            error: e.message || 'Parse error',
+            registerStates: registers.snapshot(),
+            error: error.message,
+            variables: answer.variables,
+            warnings: diagnostics.map(d => d.message),
+            diagnostics: [...diagnostics, error],
+            peripheralRegisters: registers.peripheralRegisters(),
+            ...(answer.cpu ? { cpu: answer.cpu } : {}),
             steps,
         };
     }
 }
 
 /**
- * Check if user's code produces the expected register state.
+ * Check if user's code produces the expected register state and keeps to
+ * the question's constraints.
  */
 export function checkAnswer(
     userCode: string,
     targetRegister: string,
     initialValue: number,
-    expectedValue: number
+    expectedValue: number,
+    device: DeviceProfile = getActiveDevice(),
+    options: CheckOptions = {}
 ): {
     correct: boolean;
     userResult: number | null;
     expected: number;
     error?: string;
+    warnings: string[];
+    diagnostics: Diagnostic[];
+    violations: Diagnostic[];   // broken constraints, also listed in diagnostics
+    counterexample?: Counterexample;   // a starting value where the answer and the reference differ
+    registerStates: Record<string, number>;   // final value of every register the question sets up or the answer writes
+    differences: RegisterDifference[];   // expected registers first, then unintended writes
     steps: EvalResult['steps'];
+    cpu?: CpuState;
 } {
-    const result = evaluate(userCode, { [targetRegister]: initialValue });
+    const initial = { ...options.initialStates, [targetRegister]: initialValue };
+    const expected = { ...options.expectedStates, [targetRegister]: expectedValue };
+    const result = evaluate(userCode, initial, device, options);
 
     if (!result.success) {
         return {
@@ -334,15 +840,141 @@ export function checkAnswer(
             userResult: null,
             expected: expectedValue,
             error: result.error,
+            warnings: result.warnings,
+            diagnostics: result.diagnostics,
+            violations: [],
+            registerStates: {},
+            differences: [],
             steps: result.steps,
+            ...(result.cpu ? { cpu: result.cpu } : {}),
         };
     }
 
     const userResult = result.registerStates[targetRegister] ?? initialValue;
+    const differences = registerDifferences(result.registerStates, initial, expected, device, result.peripheralRegisters);
+    const rules = options.language === 'asm' ? checkAssemblyConstraints : checkConstraints;
+    const violations = options.constraints ? rules(userCode, options.constraints, device) : [];
+
+    // Only worth proving once the question's own case passes
+    let counterexample: Counterexample | undefined;
+    if (options.reference && differences.length === 0 && violations.length === 0) {
+        counterexample = findCounterexample(userCode, options.reference, targetRegister, initialValue, device, options);
+        if (counterexample) violations.push(describeCounterexample(counterexample, targetRegister, userCode, device, options.language));
+    }
+
     return {
-        correct: userResult === expectedValue,
+        correct: differences.length === 0 && violations.length === 0,
         userResult,
         expected: expectedValue,
+        warnings: result.warnings,
+        diagnostics: [...result.diagnostics, ...violations],
+        violations,
+        ...(counterexample ? { counterexample } : {}),
+        registerStates: { ...initial, ...result.registerStates },
+        differences,
         steps: result.steps,
+        ...(result.cpu ? { cpu: result.cpu } : {}),
+    };
+}
+
+// Compare final register values with the expected ones. Registers the
+// question does not list must keep their starting (or reset) value, unless
+// only a peripheral changed them. The 8-bit halves of a 16-bit register are
+// compared through the register itself.
+function registerDifferences(
+    final: Record<string, number>,
+    initial: Record<string, number>,
+    expected: Record<string, number>,
+    device: DeviceProfile,
+    peripheralRegisters: string[]
+): RegisterDifference[] {
+    const start = (name: string) => initial[name] ?? device.registerMap[name]?.resetValue ?? 0;
+    const differences: RegisterDifference[] = [];
+    const names = [...new Set([...Object.keys(expected), ...Object.keys(final)])];
+    for (const register of names) {
+        const unintended = !(register in expected);
+        if (unintended && (wordOf(device, register) || peripheralRegisters.includes(register))) continue;
+        const actual = final[register] ?? start(register);
+        const want = unintended ? start(register) : expected[register];
+        if (actual !== want) differences.push({ register, expected: want, actual, unintended });
+    }
+    return differences;
+}
+
+// A starting value for which two programs leave a register differently
+export interface Counterexample {
+    initialValue: number;
+    expected: number;             // what the reference leaves
+    actual: number | null;        // what the answer leaves, null if it fails
+    error?: string;
+}
+
+// Random 16-bit samples on top of the edge cases below
+const WIDE_SAMPLES = 256;
+
+/**
+ * Starting values to try: all 256 for an 8-bit register; for a 16-bit one,
+ * `first`, the edge cases (all clear, all set, each bit alone, each bit
+ * missing, alternating patterns) and a fixed pseudo-random sample.
+ */
+export function initialValuesFor(width: 8 | 16, first: number = 0): number[] {
+    if (width === 8) return Array.from({ length: 256 }, (_, i) => i);
+
+    const values = new Set<number>([first & 0xFFFF, 0x0000, 0xFFFF, 0x5555, 0xAAAA, 0x00FF, 0xFF00]);
+    for (let bit = 0; bit < 16; bit++) {
+        values.add(1 << bit);
+        values.add(0xFFFF & ~(1 << bit));
+    }
+    // Same sample every run, so a counterexample can be reproduced
+    let seed = 0x2560;
+    for (let i = 0; i < WIDE_SAMPLES; i++) {
+        seed = (seed * 1103515245 + 12345) & 0x7FFFFFFF;
+        values.add(seed >> 8 & 0xFFFF);
+    }
+    return [...values];
+}
+
+/**
+ * Run an answer and a reference from every starting value of `register`
+ * (see initialValuesFor) and return the first value where they disagree, or
+ * undefined if they implement the same transformation. Starting values the
+ * reference itself cannot run from are skipped. Other registers start
+ * from options.initialStates.
+ */
+export function findCounterexample(
+    userCode: string,
+    referenceCode: string,
+    register: string,
+    first: number,
+    device: DeviceProfile = getActiveDevice(),
+    options: CheckOptions = {}
+): Counterexample | undefined {
+    for (const initialValue of initialValuesFor(registerWidth(device, register), first)) {
+        const states = { ...options.initialStates, [register]: initialValue };
+        const reference = evaluate(referenceCode, states, device, options);
+        if (!reference.success) continue;
+        const expected = reference.registerStates[register] ?? initialValue;
+
+        const answer = evaluate(userCode, states, device, options);
+        if (!answer.success) return { initialValue, expected, actual: null, error: answer.error };
+        const actual = answer.registerStates[register] ?? initialValue;
+        if (actual !== expected) return { initialValue, expected, actual };
+    }
+    return undefined;
+}
+
+function describeCounterexample(counterexample: Counterexample, register: string, code: string, device: DeviceProfile, language: AnswerLanguage = 'c'): Diagnostic {
+    const hex = (n: number) => '0x' + n.toString(16).toUpperCase().padStart(registerWidth(device, register) / 4, '0');
+    const { initialValue, expected, actual, error } = counterexample;
+    const from = `Starting from ${register} = ${hex(initialValue)}`;
+    return {
+        code: 'not-equivalent', severity: 'error',
+        message: actual === null
+            ? `${from}, your code fails: ${error}`
+            : `${from}, your code leaves ${hex(actual)} but should leave ${hex(expected)}`,
+        span: spanAt(code, 0, code.trimEnd().length),
+        fix: language === 'asm'
+            ? 'change only the bits the question names — `sbi`/`cbi`, or read the register, `ori`/`andi`/`eor` and write it back'
+            : 'change only the bits the question names — read-modify-write with `|=`, `&=` or `^=`',
     };
 }
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression, renderExpressionDisplay } from './expression-display';
+import { evaluate } from './evaluator';
+
+describe('16-bit registers in the display', () => {
+    it('previews all 16 bits', () => {
+        const breakdown = parseExpression('OCR1A = 15624;', {});
+        expect(breakdown.width).toBe(16);
+        expect(breakdown.resultPreview).toBe(15624);
+        const html = renderExpressionDisplay(breakdown);
+        expect(html.match(/class="expr-bit /g)).toHaveLength(16);
+        expect(html).toContain('0011110100001000');
+    });
+});
+
+describe('bit macros in the display', () => {
+    it('shows _BV() with the bit and the value it makes', () => {
+        const { parts } = parseExpression('PORTB |= _BV(PB3);', {});
+        expect(parts.map(p => p.text)).toEqual(['PORTB', '|=', '_BV', '(', 'PB3', ')', '']);
+        expect(parts.find(p => p.text === 'PB3')?.label).toBe('bit 3');
+        expect(parts.at(-1)).toEqual({ text: '', type: 'separator', binaryValue: 0x08 });
+    });
+});
+
+describe('live display of the answer being typed', () => {
+    it('follows C precedence, as the grader does', () => {
+        const code = 'PORTB = 1 | 2 << 2;';
+        const breakdown = parseExpression(code, { PORTB: 0x10 });
+        expect(breakdown.operandValue).toBe(9);
+        expect(breakdown.resultPreview).toBe(evaluate(code, { PORTB: 0x10 }).registerStates.PORTB);
+    });
+
+    it('shows the brackets still open as shadow parts', () => {
+        const { parts, resultPreview } = parseExpression('PORTB |= (1<<(PB3', { PORTB: 0x10 });
+        expect(parts.at(-1)).toEqual({ text: '))', type: 'shadow' });
+        expect(resultPreview).toBe(0x18);
+    });
+
+    it('waits for a complete value before previewing', () => {
+        const breakdown = parseExpression('PORTB |= 0x', { PORTB: 0x10 });
+        expect(breakdown.resultPreview).toBeNull();
+        expect(breakdown.description).toBe('typing...');
+    });
+
+    it('starts the last statement from what the earlier ones leave', () => {
+        const breakdown = parseExpression('PORTB = 0x0F;\nPORTB &= ~(1<<PB0);', { PORTB: 0x10 });
+        expect(breakdown.before).toBe(0x0F);
+        expect(breakdown.resultPreview).toBe(0x0E);
+    });
+});
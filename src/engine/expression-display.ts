@@ -1,408 +1,229 @@
-// Expression Display — Incremental expression parser for live visualization
-// Shows a breakdown of what the user is typing in binary, with shadow hints
-
-import { allNamedBits } from '../data/atmega2560';
+// Expression Display — live breakdown of the statement being typed, in binary,
+// with shadow hints for the brackets still open. Built on the same partial
+// parse (parsePartial) and interpreter the grader uses, so the preview is
+// the value the answer will be checked with.
+
+import { registerWidth } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import { decodeField, fieldLabel, fieldMasks, fieldValueName, fieldsOfRegister } from '../data/fields';
+import { walkExpression, walkStatement, type Assignment, type Expression, type Increment, type Statement } from './ast';
+import { evaluateExpression, evaluateProgram } from './evaluator';
+import { parsePartial } from './parser';
 
 export interface ExpressionPart {
     text: string;          // what the user actually typed for this part
     type: 'register' | 'operator' | 'value' | 'paren' | 'shadow' | 'shift-op' | 'separator';
-    binaryValue?: number;  // resolved 8-bit value if applicable
+    binaryValue?: number;  // resolved value if applicable
     label?: string;        // human-readable label (e.g. "bit 5")
 }
 
 export interface ExpressionBreakdown {
     parts: ExpressionPart[];
-    resultPreview: number | null;   // preview of what the full expression would evaluate to
+    resultPreview: number | null;   // the register after the code so far, once the value is complete
     registerName: string | null;
-    operator: string | null;        // '=', '|=', '&=', '^='
+    width: 8 | 16;                  // bit width of the register being written
+    operator: string | null;        // '=', '|=', '&=', '^=', ...
     operandValue: number | null;    // the evaluated RHS operand
+    before: number;                 // the register before the statement
     description: string;            // human-readable description of what's happening
 }
 
-// Resolve an identifier to its numeric value
-function resolveIdentifier(name: string): number | null {
-    if (name in allNamedBits) {
-        return allNamedBits[name];
-    }
-    return null;
-}
+const OPERATOR_WORDS: Record<string, string> = { '=': 'Set', '|=': 'OR', '&=': 'AND', '^=': 'XOR' };
+const OPERATOR_INTROS: Record<string, string> = { '=': 'Assign to', '|=': 'OR with', '&=': 'AND with', '^=': 'XOR with' };
 
-// Parse a number literal string
-function parseNumberLiteral(s: string): number | null {
-    const cleaned = s.trim().toLowerCase();
-    if (cleaned.startsWith('0x')) {
-        const v = parseInt(cleaned, 16);
-        return isNaN(v) ? null : v & 0xFF;
-    }
-    if (cleaned.startsWith('0b')) {
-        const v = parseInt(cleaned.substring(2), 2);
-        return isNaN(v) ? null : v & 0xFF;
-    }
-    if (/^\d+$/.test(cleaned)) {
-        const v = parseInt(cleaned, 10);
-        return isNaN(v) ? null : v & 0xFF;
-    }
-    return null;
+// The assignment or ++/-- written last, nested ones included: the one being typed
+function currentWrite(statement: Statement): Assignment | Increment | null {
+    let current: Assignment | Increment | null = null;
+    walkStatement(statement, s => {
+        if ((s.kind === 'assign' || s.kind === 'increment') && (!current || s.span.start >= current.span.start)) current = s;
+    });
+    return current;
 }
 
-// Try to evaluate a partial RHS expression to a numeric value
-// This is a simplified version that handles common patterns
-function tryEvaluatePartial(expr: string): number | null {
-    const trimmed = expr.trim();
-    if (!trimmed) return null;
-
-    // Direct number
-    const num = parseNumberLiteral(trimmed);
-    if (num !== null) return num;
-
-    // Named bit constant
-    const resolved = resolveIdentifier(trimmed);
-    if (resolved !== null) return resolved;
-
-    // Try patterns like (1<<N), (1<<NAME), or combinations with |
-    try {
-        // Use a safe subset evaluator
-        return safeEval(trimmed);
-    } catch {
-        return null;
-    }
+// Still being typed: an operand not written yet, or 0x / 0b without digits
+function unfinished(expression: Expression): boolean {
+    let found = false;
+    walkExpression(expression, node => {
+        if (node.kind === 'missing' || (node.kind === 'number' && /^0[xb]$/i.test(node.raw))) found = true;
+    });
+    return found;
 }
 
-// Safe evaluator for common bit manipulation patterns
-function safeEval(expr: string): number | null {
-    let s = expr.replace(/\s+/g, '');
-
-    // Remove outer parens
-    while (s.startsWith('(') && s.endsWith(')') && isBalanced(s.substring(1, s.length - 1))) {
-        s = s.substring(1, s.length - 1);
-    }
-
-    // Handle OR combinations: a|b|c
-    const orParts = splitOnOperator(s, '|');
-    if (orParts.length > 1) {
-        let result = 0;
-        for (const part of orParts) {
-            const val = safeEval(part);
-            if (val === null) return null;
-            result |= val;
-        }
-        return result & 0xFF;
-    }
-
-    // Handle AND: a&b
-    const andParts = splitOnOperator(s, '&');
-    if (andParts.length > 1) {
-        let result = 0xFF;
-        for (const part of andParts) {
-            const val = safeEval(part);
-            if (val === null) return null;
-            result &= val;
-        }
-        return result & 0xFF;
-    }
-
-    // Handle XOR: a^b
-    const xorParts = splitOnOperator(s, '^');
-    if (xorParts.length > 1) {
-        let result = 0;
-        for (let i = 0; i < xorParts.length; i++) {
-            const val = safeEval(xorParts[i]);
-            if (val === null) return null;
-            if (i === 0) result = val;
-            else result ^= val;
-        }
-        return result & 0xFF;
-    }
-
-    // Handle NOT: ~expr
-    if (s.startsWith('~')) {
-        const val = safeEval(s.substring(1));
-        if (val === null) return null;
-        return (~val) & 0xFF;
-    }
-
-    // Handle shift: a<<b or a>>b
-    const lshiftIdx = s.indexOf('<<');
-    if (lshiftIdx >= 0) {
-        const left = safeEval(s.substring(0, lshiftIdx));
-        const right = safeEval(s.substring(lshiftIdx + 2));
-        if (left !== null && right !== null) {
-            return (left << right) & 0xFF;
-        }
-        return null;
-    }
-    const rshiftIdx = s.indexOf('>>');
-    if (rshiftIdx >= 0) {
-        const left = safeEval(s.substring(0, rshiftIdx));
-        const right = safeEval(s.substring(rshiftIdx + 2));
-        if (left !== null && right !== null) {
-            return (left >> right) & 0xFF;
+// Display parts for the source between `from` and `to`. Values and operators
+// come from the expression's nodes; brackets and macro names between them are
+// shown as typed. A shift is followed by its value, after its closing brackets.
+function expressionParts(
+    expression: Expression, code: string, from: number, to: number, read: (register: string) => number
+): ExpressionPart[] {
+    const marks: { start: number; end: number; part: ExpressionPart }[] = [];
+    const mark = (start: number, end: number, part: ExpressionPart) => marks.push({ start, end, part });
+    const hint = (node: Expression) => {
+        const value = evaluateExpression(node, read);
+        if (value === null) return;
+        let at = node.span.end;
+        while (at < to && /[\s)]/.test(code[at])) at++;
+        mark(at, at, { text: '', type: 'separator', binaryValue: value });
+    };
+
+    walkExpression(expression, node => {
+        switch (node.kind) {
+            case 'number':
+                // 0x and 0b without digits are still being typed
+                mark(node.span.start, node.span.end, {
+                    text: node.raw, type: 'value', ...(/^0[xb]$/i.test(node.raw) ? {} : { binaryValue: node.value }),
+                });
+                break;
+            case 'name':
+                if (node.ref === 'register') {
+                    mark(node.span.start, node.span.end, { text: node.name, type: 'register', binaryValue: read(node.name) });
+                } else if (node.ref === 'bit') {
+                    const bit = getActiveDevice().allNamedBits[node.name];
+                    mark(node.span.start, node.span.end, { text: node.name, type: 'value', binaryValue: bit, label: `bit ${bit}` });
+                } else {
+                    mark(node.span.start, node.span.end, { text: node.name, type: 'value' });
+                }
+                break;
+            case 'binary':
+                mark(node.opSpan.start, node.opSpan.end, { text: node.op, type: node.op === '<<' || node.op === '>>' ? 'shift-op' : 'operator' });
+                if (node.op === '<<' || node.op === '>>') hint(node);
+                break;
+            case 'unary':
+                mark(node.span.start, node.span.start + node.op.length, { text: node.op, type: 'operator' });
+                break;
+            case 'update': {
+                const start = node.prefix ? node.span.start : node.span.end - node.op.length;
+                mark(start, start + node.op.length, { text: node.op, type: 'operator' });
+                break;
+            }
+            case 'call':
+                mark(node.span.start, node.span.start + node.callee.length, { text: node.callee, type: 'shift-op' });
+                if (node.callee === '_BV') hint(node);
+                break;
         }
-        return null;
-    }
-
-    // Direct number
-    const num = parseNumberLiteral(s);
-    if (num !== null) return num;
-
-    // Named constant
-    if (s in allNamedBits) return allNamedBits[s];
+    });
 
-    return null;
-}
-
-function isBalanced(s: string): boolean {
-    let depth = 0;
-    for (const c of s) {
-        if (c === '(') depth++;
-        if (c === ')') depth--;
-        if (depth < 0) return false;
-    }
-    return depth === 0;
-}
-
-function splitOnOperator(s: string, op: string): string[] {
-    const parts: string[] = [];
-    let depth = 0;
-    let current = '';
-    for (let i = 0; i < s.length; i++) {
-        if (s[i] === '(') depth++;
-        if (s[i] === ')') depth--;
-        if (depth === 0 && s[i] === op && !(op === '&' && s[i + 1] === '=') && !(op === '|' && s[i + 1] === '=') && !(op === '^' && s[i + 1] === '=')) {
-            // Make sure we're not matching << or >>
-            if (op === '<' && s[i + 1] === '<') { current += s[i]; continue; }
-            if (op === '>' && s[i + 1] === '>') { current += s[i]; continue; }
-            parts.push(current);
-            current = '';
-            continue;
-        }
-        current += s[i];
+    // Zero-width hints go before whatever starts at the same place
+    marks.sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start));
+    const parts: ExpressionPart[] = [];
+    let cursor = from;
+    for (const { start, end, part } of marks) {
+        const between = code.slice(cursor, start).replace(/\s+/g, '');
+        if (between) parts.push({ text: between, type: 'paren' });
+        parts.push(part);
+        cursor = Math.max(cursor, end);
     }
-    if (current) parts.push(current);
+    const rest = code.slice(cursor, to).replace(/\s+/g, '');
+    if (rest) parts.push({ text: rest, type: 'paren' });
     return parts;
 }
 
-// Count unmatched open parens
-function countUnmatchedParens(s: string): number {
-    let depth = 0;
-    for (const c of s) {
-        if (c === '(') depth++;
-        if (c === ')') depth = Math.max(0, depth - 1);
-    }
-    return depth;
-}
-
 /**
- * Parse a partial expression and produce a structured breakdown for display.
- * This handles incomplete inputs gracefully.
+ * Break down the statement being typed (the last one) for display. Handles
+ * unfinished input: the brackets it still needs come back as shadow parts,
+ * and the preview appears once the value is complete. `initialStates` are
+ * the register values the answer starts from.
  */
-export function parseExpression(
-    input: string,
-    _registerName: string,
-    initialValue: number
-): ExpressionBreakdown {
-    const trimmed = input.trim();
-    const parts: ExpressionPart[] = [];
-    let operator: string | null = null;
-    let operandValue: number | null = null;
-    let resultPreview: number | null = null;
-    let description = '';
-    let foundRegister: string | null = null;
-
-    if (!trimmed) {
-        return { parts: [], resultPreview: null, registerName: null, operator: null, operandValue: null, description: '' };
-    }
-
-    // Stage 1: Detect register name at the start
-    const regMatch = trimmed.match(/^([A-Z][A-Z0-9_]*)/);
-    if (regMatch) {
-        foundRegister = regMatch[1];
-        parts.push({
-            text: foundRegister,
-            type: 'register',
-            binaryValue: initialValue,
-        });
-
-        const afterReg = trimmed.substring(foundRegister.length).trim();
-
-        if (!afterReg) {
-            description = `Register ${foundRegister}`;
-            return { parts, resultPreview: initialValue, registerName: foundRegister, operator: null, operandValue: null, description };
-        }
-
-        // Stage 2: Detect operator
-        const opMatch = afterReg.match(/^(\|=|&=|\^=|=)/);
-        if (opMatch) {
-            operator = opMatch[1];
-            const opLabels: Record<string, string> = {
-                '=': '←',
-                '|=': '|=',
-                '&=': '&=',
-                '^=': '^=',
+export function parseExpression(input: string, initialStates: Record<string, number>): ExpressionBreakdown {
+    const device = getActiveDevice();
+    const empty: ExpressionBreakdown = {
+        parts: [], resultPreview: null, registerName: null, width: 8, operator: null, operandValue: null, before: 0, description: '',
+    };
+    const parsed = parsePartial(input, device, 'off');
+    const current = parsed.statements.at(-1);
+    if (!current) return empty;
+
+    // Registers as the statements before this one leave them
+    const earlier = parsed.statements.slice(0, -1).flatMap(s => (s.node ? [s.node] : []));
+    const states = { ...initialStates, ...evaluateProgram({ body: earlier }, input, initialStates, device).registerStates };
+    const read = (register: string) => states[register] ?? device.registerMap[register]?.resetValue ?? 0;
+    const shadow: ExpressionPart[] = parsed.closers ? [{ text: parsed.closers, type: 'shadow' }] : [];
+
+    const write = current.node && currentWrite(current.node);
+    if (!write || write.target.ref !== 'register') {
+        // No register write yet: a register name on its own, or one with half an operator (PORTB |)
+        const text = input.slice(current.span.start, current.span.end).trim();
+        const name = /^[A-Za-z_]\w*/.exec(text)?.[0];
+        if (!current.node && name && device.allRegisterNames.has(name)) {
+            const rest = text.slice(name.length).trim();
+            const before = read(name);
+            return {
+                ...empty,
+                parts: [{ text: name, type: 'register', binaryValue: before }, ...(rest ? [{ text: rest, type: 'operator' as const }] : [])],
+                registerName: name, width: registerWidth(device, name), before,
+                resultPreview: rest ? null : before,
+                description: rest ? `${name} ${rest} ...` : `Register ${name}`,
             };
-            parts.push({
-                text: opLabels[operator] || operator,
-                type: 'operator',
-            });
-
-            const afterOp = afterReg.substring(opMatch[1].length).trim();
-
-            if (!afterOp) {
-                const opDesc: Record<string, string> = {
-                    '=': 'Assign to',
-                    '|=': 'OR with',
-                    '&=': 'AND with',
-                    '^=': 'XOR with',
-                };
-                description = `${opDesc[operator]} ${foundRegister} ...`;
-                return { parts, resultPreview: null, registerName: foundRegister, operator, operandValue: null, description };
-            }
-
-            // Stage 3: Parse the RHS expression
-            // Remove trailing semicolon for evaluation
-            const rhsClean = afterOp.replace(/;$/, '').trim();
-
-            // Try to evaluate the full RHS
-            operandValue = tryEvaluatePartial(rhsClean);
-
-            // Build parts for the RHS
-            const rhsParts = buildRhsParts(rhsClean, afterOp);
-            parts.push(...rhsParts);
-
-            // Add shadow closing parens if needed
-            const unmatchedParens = countUnmatchedParens(rhsClean);
-            if (unmatchedParens > 0) {
-                parts.push({
-                    text: ')'.repeat(unmatchedParens),
-                    type: 'shadow',
-                });
-            }
-
-            // Calculate result preview
-            if (operandValue !== null) {
-                switch (operator) {
-                    case '=':
-                        resultPreview = operandValue & 0xFF;
-                        break;
-                    case '|=':
-                        resultPreview = (initialValue | operandValue) & 0xFF;
-                        break;
-                    case '&=':
-                        resultPreview = (initialValue & operandValue) & 0xFF;
-                        break;
-                    case '^=':
-                        resultPreview = (initialValue ^ operandValue) & 0xFF;
-                        break;
-                }
-            }
-
-            // Build description
-            if (operandValue !== null) {
-                const opWord: Record<string, string> = {
-                    '=': 'Set',
-                    '|=': 'OR',
-                    '&=': 'AND',
-                    '^=': 'XOR',
-                };
-                description = `${opWord[operator]} → ${toBin8(operandValue)}`;
-            } else {
-                description = 'typing...';
-            }
-        } else {
-            // No operator yet, just the register (or partial operator like |)
-            const partialOp = afterReg.trim();
-            if (partialOp) {
-                parts.push({ text: partialOp, type: 'operator' });
-                description = `${foundRegister} ${partialOp} ...`;
-            }
         }
-    } else {
-        // Not starting with a register — just show raw input
-        parts.push({ text: trimmed, type: 'value' });
-        description = 'typing...';
+        return { ...empty, parts: [{ text, type: 'value' }, ...shadow], description: 'typing...' };
     }
 
-    return { parts, resultPreview, registerName: foundRegister, operator, operandValue, description };
-}
-
-/**
- * Build display parts for the RHS of an assignment
- */
-function buildRhsParts(rhs: string, _rawAfterOp: string): ExpressionPart[] {
-    const parts: ExpressionPart[] = [];
-
-    // Pattern: (1<<N) or (1<<NAME) — single shift
-    const shiftMatch = rhs.match(/^\(?(\d+)\s*<<\s*(\w+)\)?$/);
-    if (shiftMatch) {
-        const base = parseInt(shiftMatch[1]);
-        const shiftBy = shiftMatch[2];
-        const shiftNum = parseNumberLiteral(shiftBy) ?? resolveIdentifier(shiftBy);
-        const evaluated = shiftNum !== null ? (base << shiftNum) & 0xFF : null;
-
-        parts.push({ text: '(', type: 'paren' });
-        parts.push({ text: String(base), type: 'value', binaryValue: base & 0xFF, label: `${base}` });
-        parts.push({ text: '<<', type: 'shift-op' });
-        parts.push({
-            text: shiftBy,
-            type: 'value',
-            binaryValue: shiftNum ?? undefined,
-            label: shiftNum !== null ? `bit ${shiftNum}` : shiftBy,
-        });
-        // Only add closing paren if it's actually in the input
-        if (rhs.endsWith(')') || rhs.endsWith(');')) {
-            parts.push({ text: ')', type: 'paren' });
-        }
+    const registerName = write.target.name;
+    const width = registerWidth(device, registerName);
+    const before = read(registerName);
+    const parts: ExpressionPart[] = [{ text: registerName, type: 'register', binaryValue: before }];
+    parts.push({ text: write.op === '=' ? '←' : write.op, type: 'operator' });
 
-        if (evaluated !== null) {
-            parts.push({ text: `= ${toBin8(evaluated)}`, type: 'separator', binaryValue: evaluated });
-        }
-        return parts;
+    if (write.kind === 'assign' && write.value.kind !== 'missing') {
+        const opEnd = input.indexOf(write.op, write.target.span.end) + write.op.length;
+        parts.push(...expressionParts(write.value, input, opEnd, write.span.end, read));
     }
+    parts.push(...shadow);
 
-    // Pattern: ~(...) — complement
-    if (rhs.startsWith('~')) {
-        parts.push({ text: '~', type: 'operator' });
-        const inner = rhs.substring(1);
-        const innerParts = buildRhsParts(inner, inner);
-        parts.push(...innerParts);
-        return parts;
+    // Once the value is complete, the preview is what running the code so far
+    // leaves in the register, and the operand is the one the write used
+    let resultPreview: number | null = null;
+    let operandValue: number | null = null;
+    if (write.kind === 'increment' || !unfinished(write.value)) {
+        const run = evaluateProgram(parsed.program, input, initialStates, device);
+        if (run.success) resultPreview = run.registerStates[registerName] ?? read(registerName);
+        const step = run.steps.filter(s => s.span.start === write.span.start).at(-1);
+        if (write.kind === 'assign') operandValue = step?.exprValue ?? evaluateExpression(write.value, read, device);
     }
 
-    // Pattern: multiple OR'd shifts (1<<a)|(1<<b)
-    if (rhs.includes('|') && rhs.includes('<<')) {
-        const orSegments = splitOnOperator(rhs.replace(/^\(/, '').replace(/\)$/, ''), '|');
-        for (let i = 0; i < orSegments.length; i++) {
-            if (i > 0) parts.push({ text: '|', type: 'operator' });
-            const seg = orSegments[i].trim();
-            const segParts = buildRhsParts(seg, seg);
-            parts.push(...segParts);
-        }
-        return parts;
-    }
+    const description = write.kind === 'increment' ? `${registerName}${write.op}`
+        : write.value.kind === 'missing' ? `${OPERATOR_INTROS[write.op] ?? write.op} ${registerName} ...`
+        : operandValue === null ? 'typing...'
+        : `${OPERATOR_WORDS[write.op] ?? write.op} → ${toBin(operandValue, width)}`;
 
-    // Simple value (hex, decimal, binary literal, named constant)
-    const numVal = tryEvaluatePartial(rhs);
-    if (numVal !== null) {
-        parts.push({ text: rhs, type: 'value', binaryValue: numVal });
-    } else {
-        // Partial/incomplete — just show as-is
-        parts.push({ text: rhs, type: 'value' });
-    }
+    return { parts, resultPreview, registerName, width, operator: write.op, operandValue, before, description };
+}
 
-    return parts;
+function toBin(n: number, width: 8 | 16): string {
+    const mask = width === 16 ? 0xFFFF : 0xFF;
+    return (n & mask).toString(2).padStart(width, '0');
 }
 
-function toBin8(n: number): string {
-    return (n & 0xFF).toString(2).padStart(8, '0');
+// Describe the multi-bit fields of a register by meaning, e.g. "CS02:0 = 011 → clk/64".
+// Fields that continue in another register only show the bits held here.
+function renderFieldNotes(registerName: string, before: number, after: number): string {
+    const fields = fieldsOfRegister(getActiveDevice().fields, registerName);
+    if (fields.length === 0) return '';
+
+    const rows = fields.map(f => {
+        const mask = fieldMasks(f)[registerName];
+        const changed = ((before ^ after) & mask) !== 0;
+        const cls = `expr-field ${changed ? 'expr-field-changed' : ''}`;
+
+        if (f.parts.every(p => p.register === registerName)) {
+            const value = decodeField(f, { [registerName]: after });
+            const meaning = fieldValueName(f, value) ?? 'reserved';
+            return `<span class="${cls}">${fieldLabel(f)} = ${value.toString(2).padStart(f.width, '0')} → ${meaning}</span>`;
+        }
+
+        const others = [...new Set(f.parts.map(p => p.register).filter(r => r !== registerName))];
+        const local = f.parts.filter(p => p.register === registerName)
+            .map(p => ((after >> p.lsb) & ((1 << p.width) - 1)).toString(2).padStart(p.width, '0'))
+            .join(' ');
+        return `<span class="${cls}">${fieldLabel(f)} bits here = ${local} (rest in ${others.join(', ')})</span>`;
+    });
+
+    return `<div class="expr-fields">${rows.join('')}</div>`;
 }
 
 /**
  * Render the expression breakdown as HTML
  */
-export function renderExpressionDisplay(
-    breakdown: ExpressionBreakdown,
-    initialValue: number
-): string {
+export function renderExpressionDisplay(breakdown: ExpressionBreakdown): string {
     if (breakdown.parts.length === 0) return '';
 
     const parts = breakdown.parts;
@@ -428,7 +249,7 @@ export function renderExpressionDisplay(
             case 'value':
                 equationHtml += `<span class="expr-value">${escapedText}</span>`;
                 if (part.binaryValue !== undefined) {
-                    equationHtml += `<span class="expr-binary-hint">${toBin8(part.binaryValue)}</span>`;
+                    equationHtml += `<span class="expr-binary-hint">${toBin(part.binaryValue, breakdown.width)}</span>`;
                 }
                 break;
             case 'paren':
@@ -439,7 +260,7 @@ export function renderExpressionDisplay(
                 break;
             case 'separator':
                 if (part.binaryValue !== undefined) {
-                    equationHtml += `<span class="expr-result-hint">→ ${toBin8(part.binaryValue)}</span>`;
+                    equationHtml += `<span class="expr-result-hint">→ ${toBin(part.binaryValue, breakdown.width)}</span>`;
                 }
                 break;
         }
@@ -449,23 +270,25 @@ export function renderExpressionDisplay(
     // Build the binary preview row if we have a result
     let binaryPreview = '';
     if (breakdown.resultPreview !== null && breakdown.operator) {
-        const prevBin = toBin8(initialValue);
-        const resBin = toBin8(breakdown.resultPreview);
+        const prevBin = toBin(breakdown.before, breakdown.width);
+        const resBin = toBin(breakdown.resultPreview, breakdown.width);
 
         // Show which bits changed
         const bitCells = resBin.split('').map((bit, i) => {
             const prevBit = prevBin[i];
             const changed = bit !== prevBit;
-            const bitIdx = 7 - i;
-            return `<span class="expr-bit ${bit === '1' ? 'expr-bit-on' : 'expr-bit-off'} ${changed ? 'expr-bit-changed' : ''}"
+            const bitIdx = breakdown.width - 1 - i;
+            const byteStart = breakdown.width === 16 && bitIdx === 7;
+            return `<span class="expr-bit ${bit === '1' ? 'expr-bit-on' : 'expr-bit-off'} ${changed ? 'expr-bit-changed' : ''} ${byteStart ? 'expr-bit-low-byte' : ''}"
                     title="bit ${bitIdx}">${bit}</span>`;
         }).join('');
 
         binaryPreview = `
       <div class="expr-preview">
         <span class="expr-preview-label">Result:</span>
-        <span class="expr-preview-bits">${bitCells}</span>
+        <span class="expr-preview-bits ${breakdown.width === 16 ? 'expr-preview-bits-16' : ''}">${bitCells}</span>
       </div>
+      ${breakdown.registerName ? renderFieldNotes(breakdown.registerName, breakdown.before, breakdown.resultPreview) : ''}
     `;
     }
 
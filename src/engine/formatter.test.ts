@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { formatCanonical, formatProgram } from './formatter';
+import { parse } from './parser';
+
+const device = getDevice('atmega328p')!;
+
+const format = (code: string) => formatProgram(parse(code, device).program);
+const canonical = (code: string) => formatCanonical(code, device);
+
+describe('formatter', () => {
+    it('parses into an AST', () => {
+        const [statement] = parse('PORTB |= (1<<PB3);', device).program.body;
+        expect(statement).toMatchObject({
+            kind: 'assign', op: '|=', target: { kind: 'name', name: 'PORTB', ref: 'register' },
+            value: { kind: 'binary', op: '<<', left: { kind: 'number', value: 1 }, right: { kind: 'name', name: 'PB3', ref: 'bit' } },
+        });
+    });
+
+    it('prints the code as written, spaced and with the brackets C needs', () => {
+        expect(format('PORTB|=_BV(PB5)|_BV(PB3);')).toBe('PORTB |= _BV(PB5) | _BV(PB3);');
+        expect(format('PORTB = (1 + 2) * 3;')).toBe('PORTB = (1 + 2) * 3;');
+        expect(format('PORTB = 1 + 2 * 3;')).toBe('PORTB = 1 + 2 * 3;');
+        expect(format('PORTB ++;')).toBe('PORTB++;');
+    });
+
+    it('gives equivalent spellings the same canonical form', () => {
+        const expected = 'PORTB |= (1 << PB5) | (1 << PB3);';
+        expect(canonical('PORTB|=_BV(PB5)|_BV(PB3);')).toBe(expected);
+        expect(canonical('PORTB |= (1<<PB3)|(1<<PB5);')).toBe(expected);
+        expect(canonical('PORTB = PORTB | 0x08;')).toBe('PORTB |= 0x08;');
+        expect(canonical('PORTB=~(1<<3)&0xff;')).toBe('PORTB = ~(1 << 3) & 0xFF;');
+    });
+
+    it('braces and indents blocks', () => {
+        expect(canonical('if(PINB&1){PORTB=1;}else PORTB=2;')).toBe('if (PINB & 1) {\n    PORTB = 1;\n} else {\n    PORTB = 2;\n}');
+        expect(canonical('for(uint8_t i=0;i<3;i++)PORTB^=1;')).toBe('for (uint8_t i = 0; i < 3; i++) {\n    PORTB ^= 1;\n}');
+    });
+
+    it('gives null for code that does not parse', () => {
+        expect(canonical('PORTB |= (1<<')).toBeNull();
+    });
+});
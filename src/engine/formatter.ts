@@ -0,0 +1,322 @@
+// Formatter — prints an AST back as C, and a canonical form of an answer so
+// that equivalent spellings read the same: `_BV(PB5)|_BV(PB3)` and
+// `(1<<PB3) | (1<<PB5)` both become `(1 << PB5) | (1 << PB3)`.
+
+import type { DeviceProfile } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import type {
+    Assignment, AssignOperator, BinaryExpression, BinaryOperator, Expression, Program, Statement,
+} from './ast';
+import { parse } from './parser';
+
+const INDENT = '    ';
+
+// Binding strength of each operator when printing; higher binds tighter
+const PRECEDENCE: Record<BinaryOperator, number> = {
+    '||': 2, '&&': 3, '|': 4, '^': 5, '&': 6,
+    '==': 7, '!=': 7, '<': 8, '>': 8, '<=': 8, '>=': 8,
+    '<<': 9, '>>': 9, '+': 10, '-': 10, '*': 11, '/': 11, '%': 11,
+};
+const CONDITIONAL = 1;
+const UNARY = 12;
+const PRIMARY = 13;
+
+const BITWISE = new Set<BinaryOperator>(['|', '^', '&']);
+
+// Operators with a compound assignment form (|=, +=, ...)
+const COMPOUND_OPERATORS = new Set<BinaryOperator>(['|', '^', '&', '+', '-', '*', '/', '%', '<<', '>>']);
+
+function precedenceOf(expression: Expression): number {
+    switch (expression.kind) {
+        case 'binary': return PRECEDENCE[expression.op];
+        case 'conditional': return CONDITIONAL;
+        case 'unary': return UNARY;
+        case 'update': return expression.prefix ? UNARY : PRIMARY;
+        default: return PRIMARY;
+    }
+}
+
+// 1 << n — written (1<<n) wherever it appears
+function isMaskShift(expression: Expression): boolean {
+    return expression.kind === 'binary' && expression.op === '<<'
+        && expression.left.kind === 'number' && expression.left.value === 1;
+}
+
+// Parentheses C needs, plus the ones gcc's -Wparentheses asks for: a shift,
+// comparison or other operator inside a bitwise one, && inside ||, and
+// arithmetic inside a shift
+function needsParens(child: Expression, parent: BinaryOperator, side: 'left' | 'right'): boolean {
+    if (isMaskShift(child)) return true;
+    const own = precedenceOf(child);
+    const outer = PRECEDENCE[parent];
+    if (own < outer || (side === 'right' && own === outer)) return true;
+    if (child.kind !== 'binary') return false;
+    if (BITWISE.has(parent)) return child.op !== parent;
+    if (parent === '||') return child.op === '&&';
+    if (parent === '<<' || parent === '>>') return own > outer;
+    return false;
+}
+
+export function formatExpression(expression: Expression): string {
+    switch (expression.kind) {
+        case 'number':
+            return expression.raw;
+        case 'name':
+            return expression.name;
+        case 'unary': {
+            const { operand } = expression;
+            const operandText = formatExpression(operand);
+            // ~(1 << 3), and -(-x) rather than --x
+            const wrap = precedenceOf(operand) < UNARY
+                || ((expression.op === '-' || expression.op === '+') && /^[-+]/.test(operandText));
+            return `${expression.op}${wrap ? `(${operandText})` : operandText}`;
+        }
+        case 'binary': {
+            const left = formatExpression(expression.left);
+            const right = formatExpression(expression.right);
+            return `${needsParens(expression.left, expression.op, 'left') ? `(${left})` : left} ${expression.op} `
+                + (needsParens(expression.right, expression.op, 'right') ? `(${right})` : right);
+        }
+        case 'conditional': {
+            const test = formatExpression(expression.test);
+            const wrapTest = expression.test.kind === 'conditional';
+            return `${wrapTest ? `(${test})` : test} ? ${formatExpression(expression.consequent)} : ${formatExpression(expression.alternate)}`;
+        }
+        case 'update':
+            return expression.prefix ? `${expression.op}${expression.target.name}` : `${expression.target.name}${expression.op}`;
+        case 'call':
+            return `${expression.callee}(${expression.args.map(formatExpression).join(', ')})`;
+        case 'missing':
+            return '…';
+    }
+}
+
+// The value of an assignment or initializer
+function formatValue(expression: Expression): string {
+    const text = formatExpression(expression);
+    return isMaskShift(expression) ? `(${text})` : text;
+}
+
+// A simple statement without its semicolon (also the parts of a for header)
+function formatSimple(statement: Statement): string {
+    switch (statement.kind) {
+        case 'assign':
+            return `${statement.target.name} ${statement.op} ${formatValue(statement.value)}`;
+        case 'increment':
+            return statement.prefix ? `${statement.op}${statement.target.name}` : `${statement.target.name}${statement.op}`;
+        case 'declaration': {
+            const declarators = statement.declarators
+                .map(d => (d.init ? `${d.name} = ${formatValue(d.init)}` : d.name));
+            return `${[...statement.qualifiers, statement.type].join(' ')} ${declarators.join(', ')}`;
+        }
+        case 'wait':
+            return `${statement.macro}(${statement.register.name}, ${formatExpression(statement.bit)})`;
+        default:
+            return '';
+    }
+}
+
+// `header {` ... `}` for a block body, or the body indented on its own line
+function withBody(header: string, body: Statement, depth: number): string[] {
+    const pad = INDENT.repeat(depth);
+    if (body.kind !== 'block') return [`${pad}${header}`, ...formatStatement(body, depth + 1)];
+    if (body.body.length === 0) return [`${pad}${header} {}`];
+    return [`${pad}${header} {`, ...body.body.flatMap(s => formatStatement(s, depth + 1)), `${pad}}`];
+}
+
+function formatStatement(statement: Statement, depth: number): string[] {
+    const pad = INDENT.repeat(depth);
+    switch (statement.kind) {
+        case 'empty':
+            return [`${pad};`];
+        case 'block':
+            if (statement.body.length === 0) return [`${pad}{}`];
+            return [`${pad}{`, ...statement.body.flatMap(s => formatStatement(s, depth + 1)), `${pad}}`];
+        case 'if': {
+            const lines = withBody(`if (${formatExpression(statement.test)})`, statement.consequent, depth);
+            const { alternate } = statement;
+            if (!alternate) return lines;
+            // else if chains stay flat
+            const elseLines = alternate.kind === 'if'
+                ? formatStatement(alternate, depth).map((line, i) => (i === 0 ? `${pad}else ${line.trimStart()}` : line))
+                : withBody('else', alternate, depth);
+            // } else { after a braced then-branch
+            if (lines[lines.length - 1] === `${pad}}`) {
+                lines.pop();
+                elseLines[0] = `${pad}} ${elseLines[0].trimStart()}`;
+            }
+            return [...lines, ...elseLines];
+        }
+        case 'while':
+            return withBody(`while (${formatExpression(statement.test)})`, statement.body, depth);
+        case 'for': {
+            const init = statement.init ? formatSimple(statement.init) : '';
+            const test = statement.test ? ` ${formatExpression(statement.test)}` : '';
+            const update = statement.update ? ` ${formatSimple(statement.update)}` : '';
+            return withBody(`for (${init};${test};${update})`, statement.body, depth);
+        }
+        default:
+            return [`${pad}${formatSimple(statement)};`];
+    }
+}
+
+// The program as C, one statement per line, four-space indents
+export function formatProgram(program: Program): string {
+    return program.body.flatMap(s => formatStatement(s, 0)).join('\n');
+}
+
+// ─── Canonical form ─────────────────────────────────────────────────────
+
+// (1 << n) or (1 << BITNAME); returns the bit number
+function maskBit(expression: Expression, device: DeviceProfile): number | null {
+    if (expression.kind !== 'binary' || expression.op !== '<<') return null;
+    const { left, right } = expression;
+    if (left.kind !== 'number' || left.value !== 1) return null;
+    if (right.kind === 'number') return right.value;
+    if (right.kind === 'name' && right.ref === 'bit') return device.allNamedBits[right.name];
+    return null;
+}
+
+// Operands of a chain of one associative operator: a | (b | c) | d → [a, b, c, d]
+function flatten(expression: Expression, op: BinaryOperator): Expression[] {
+    if (expression.kind !== 'binary' || expression.op !== op) return [expression];
+    return [...flatten(expression.left, op), ...flatten(expression.right, op)];
+}
+
+function chain(operands: Expression[], template: BinaryExpression): Expression {
+    return operands.reduce((left, right) => ({ ...template, left, right }));
+}
+
+function canonicalNumber(raw: string): string {
+    if (/^0x/i.test(raw)) return '0x' + raw.slice(2).toUpperCase();
+    if (/^0b/i.test(raw)) return '0b' + raw.slice(2);
+    return raw;
+}
+
+function canonicalExpression(expression: Expression, device: DeviceProfile): Expression {
+    switch (expression.kind) {
+        case 'number':
+            return { ...expression, raw: canonicalNumber(expression.raw) };
+        case 'call':
+            // _BV(n) is (1 << n)
+            if (expression.callee === '_BV') {
+                return {
+                    kind: 'binary', op: '<<', opSpan: expression.span, span: expression.span,
+                    left: { kind: 'number', value: 1, raw: '1', span: expression.span },
+                    right: canonicalExpression(expression.args[0], device),
+                };
+            }
+            return { ...expression, args: expression.args.map(arg => canonicalExpression(arg, device)) };
+        case 'unary':
+            return { ...expression, operand: canonicalExpression(expression.operand, device) };
+        case 'conditional':
+            return {
+                ...expression,
+                test: canonicalExpression(expression.test, device),
+                consequent: canonicalExpression(expression.consequent, device),
+                alternate: canonicalExpression(expression.alternate, device),
+            };
+        case 'binary': {
+            if (!BITWISE.has(expression.op)) {
+                return {
+                    ...expression,
+                    left: canonicalExpression(expression.left, device),
+                    right: canonicalExpression(expression.right, device),
+                };
+            }
+            // A run of bit masks is listed high bit first, like the datasheet
+            const operands = flatten(expression, expression.op).map(e => canonicalExpression(e, device));
+            const bits = operands.map(e => maskBit(e, device));
+            if (bits.every(bit => bit !== null)) {
+                const order = operands.map((_, i) => i).sort((a, b) => bits[b]! - bits[a]!);
+                return chain(order.map(i => operands[i]), expression);
+            }
+            return chain(operands, expression);
+        }
+        default:
+            return expression;
+    }
+}
+
+// PORTB = PORTB | x → PORTB |= x
+function compoundAssignment(statement: Assignment): Assignment {
+    const { target, value } = statement;
+    if (statement.op !== '=' || value.kind !== 'binary' || !COMPOUND_OPERATORS.has(value.op)) return statement;
+    const isTarget = (e: Expression) => e.kind === 'name' && e.name === target.name;
+    const op = `${value.op}=` as AssignOperator;
+    if (isTarget(value.left)) return { ...statement, op, value: value.right };
+    if (!BITWISE.has(value.op)) return statement;
+
+    // Bitwise operators commute, so the target can be anywhere in the chain
+    const operands = flatten(value, value.op);
+    const at = operands.findIndex(isTarget);
+    if (at < 0) return statement;
+    return { ...statement, op, value: chain(operands.filter((_, i) => i !== at), value) };
+}
+
+// Bodies of if/while/for always get braces; stray semicolons go
+function canonicalBody(statement: Statement, device: DeviceProfile): Statement {
+    const canonical = canonicalStatement(statement, device);
+    if (canonical.kind === 'block') return canonical;
+    return { kind: 'block', body: canonical.kind === 'empty' ? [] : [canonical], span: statement.span };
+}
+
+function canonicalStatements(statements: Statement[], device: DeviceProfile): Statement[] {
+    return statements.filter(s => s.kind !== 'empty').map(s => canonicalStatement(s, device));
+}
+
+function canonicalStatement(statement: Statement, device: DeviceProfile): Statement {
+    switch (statement.kind) {
+        case 'assign': {
+            const compound = compoundAssignment(statement);
+            return { ...compound, value: canonicalExpression(compound.value, device) };
+        }
+        case 'declaration':
+            return {
+                ...statement,
+                declarators: statement.declarators.map(d => ({ ...d, init: d.init && canonicalExpression(d.init, device) })),
+            };
+        case 'wait':
+            return { ...statement, bit: canonicalExpression(statement.bit, device) };
+        case 'block':
+            return { ...statement, body: canonicalStatements(statement.body, device) };
+        case 'if':
+            return {
+                ...statement,
+                test: canonicalExpression(statement.test, device),
+                consequent: canonicalBody(statement.consequent, device),
+                // else if stays a chain rather than nesting in braces
+                alternate: statement.alternate && (statement.alternate.kind === 'if'
+                    ? canonicalStatement(statement.alternate, device)
+                    : canonicalBody(statement.alternate, device)),
+            };
+        case 'while':
+            return { ...statement, test: canonicalExpression(statement.test, device), body: canonicalBody(statement.body, device) };
+        case 'for':
+            return {
+                ...statement,
+                init: statement.init && canonicalStatement(statement.init, device) as typeof statement.init,
+                test: statement.test && canonicalExpression(statement.test, device),
+                update: statement.update && canonicalStatement(statement.update, device) as typeof statement.update,
+                body: canonicalBody(statement.body, device),
+            };
+        default:
+            return statement;
+    }
+}
+
+export function canonicalize(program: Program, device: DeviceProfile = getActiveDevice()): Program {
+    return { body: canonicalStatements(program.body, device) };
+}
+
+/**
+ * Canonical C for an answer, or null if it does not parse.
+ */
+export function formatCanonical(code: string, device: DeviceProfile = getActiveDevice()): string | null {
+    try {
+        const { program } = parse(code, device, 'off');
+        return formatProgram(canonicalize(program, device));
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { checkAnswer } from './evaluator';
+import { assemblyVariant, generateQuestion, type Question, type QuestionTopic } from './generator';
+
+const device = getDevice('atmega2560')!;
+
+function questions(topic: QuestionTopic, count = 60, difficulty = 10): Question[] {
+    return Array.from({ length: count }, () => generateQuestion([topic], difficulty, device));
+}
+
+function check(q: Question, answer = q.sampleAnswer!) {
+    return checkAnswer(answer, q.register, q.initialValue, q.expectedValue, device, {
+        language: q.language,
+        bitNameCheck: q.bitNameCheck,
+        constraints: q.constraints,
+        reference: q.checkAllValues ? q.sampleAnswer : undefined,
+        initialStates: q.initialStates,
+        expectedStates: q.expectedStates,
+    });
+}
+
+describe('Arduino pin questions', () => {
+    it('asks for the header pin behind a port bit', () => {
+        for (const q of questions('arduino_pins').filter(q => q.isPinAnswer)) {
+            const port = device.ports.find(p => p.port === q.register)!;
+            const bit = 31 - Math.clz32(q.initialValue);
+            expect(q.expectedValue).toBe(port.arduinoPins[bit]);
+            expect(q.prompt).toContain(port.bits[bit]);
+        }
+    });
+
+    it('asks for register code that the sample answer passes', () => {
+        for (const q of questions('arduino_pins').filter(q => !q.isReadState)) {
+            const port = device.ports.find(p => p.ddr === q.register || p.port === q.register)!;
+            const pin = Number(/\*\*(\d+)\*\*/.exec(q.prompt)![1]);
+            expect(port.arduinoPins).toContain(pin);
+            expect(check(q).correct).toBe(true);
+        }
+    });
+
+    it('does not accept a plain = that overwrites the other pins', () => {
+        const q = questions('arduino_pins').find(q => !q.isReadState && !q.initialStates)!;
+        expect(check(q, `${q.register} = ${q.expectedValue};`).correct).toBe(false);
+    });
+});
+
+describe('register quirk questions', () => {
+    it('asks questions the sample answer passes', () => {
+        for (const q of questions('register_quirks').filter(q => !q.isReadState)) {
+            expect(check(q).correct).toBe(true);
+        }
+    });
+});
+
+describe('multi-register questions', () => {
+    it('set up and check every register they name', () => {
+        const multi = questions('arduino_pins', 200).filter(q => q.expectedStates);
+        expect(multi.length).toBeGreaterThan(0);
+        for (const q of multi) {
+            expect(Object.keys(q.expectedStates!)).toEqual(Object.keys(q.initialStates!));
+            expect(q.expectedStates![q.register]).toBe(q.expectedValue);
+            expect(check(q).correct).toBe(true);
+            // Only the direction half of the answer, when the output level has to change
+            const changes = Object.keys(q.expectedStates!).filter(r => q.expectedStates![r] !== q.initialStates![r]);
+            if (changes.length > 1) expect(check(q, q.sampleAnswer!.split('\n')[0]).correct).toBe(false);
+        }
+    });
+});
+
+describe('assembly variants', () => {
+    it('asks for a single SBI where one does', () => {
+        // Early questions set a single bit
+        const variants = questions('set_bits', 30, 1).flatMap(q => assemblyVariant(q, device) ?? []);
+        for (const variant of variants) {
+            expect(variant.language).toBe('asm');
+            expect(check(variant).correct).toBe(true);
+        }
+        const single = variants.filter(v => v.sampleAnswer!.startsWith('sbi '));
+        expect(single.length).toBeGreaterThan(0);
+        for (const variant of single) {
+            expect(variant.prompt).toContain('Answer in AVR assembly using a single instruction.');
+            expect(variant.constraints?.maxInstructions).toBe(1);
+        }
+    });
+
+    it('shows a read-state question\'s code as assembly', () => {
+        const q = questions('read_state').map(q => assemblyVariant(q, device)).find(v => v);
+        expect(q?.prompt).toContain('```asm');
+    });
+});
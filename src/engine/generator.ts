@@ -1,7 +1,15 @@
 // Question generator - produces infinite random bit manipulation challenges
 // with progressive difficulty and topic selection
 
-import { ports, getCommonPort, namedRegisterBits, type PortInfo } from '../data/atmega2560';
+import {
+    flagMask, getCommonPort, namedBitsOf, portMask, writableMask,
+    type DeviceProfile, type PortInfo, type RegisterInfo,
+} from '../data/device';
+import { encodeField, fieldBitName, fieldBitPosition, fieldLabel, fieldMasks, type FieldInfo } from '../data/fields';
+import { getActiveDevice } from '../data/devices';
+import { assemblySource } from './compiler';
+import { checkAnswer, evaluate, type AnswerLanguage, type BitNameCheck } from './evaluator';
+import type { AnswerConstraints } from './constraints';
 
 export type QuestionTopic =
     | 'hex_assign'
@@ -10,6 +18,10 @@ export type QuestionTopic =
     | 'toggle_bits'
     | 'combined_ops'
     | 'named_bits'
+    | 'field_config'
+    | 'arduino_pins'
+    | 'wide_registers'
+    | 'register_quirks'
     | 'read_state';
 
 export const TOPIC_LABELS: Record<QuestionTopic, string> = {
@@ -19,6 +31,10 @@ export const TOPIC_LABELS: Record<QuestionTopic, string> = {
     toggle_bits: 'Toggle Bits',
     combined_ops: 'Combined Ops',
     named_bits: 'Named Bits',
+    field_config: 'Field Config',
+    arduino_pins: 'Arduino Pins',
+    wide_registers: '16-bit Registers',
+    register_quirks: 'Register Quirks',
     read_state: 'Read State',
 };
 
@@ -36,6 +52,15 @@ export interface Question {
     acceptsMultipleStatements: boolean;
     isReadState: boolean; // true = user must type the resulting value, not code
     sampleAnswer?: string;
+    isPinAnswer?: boolean; // read-state answer is an Arduino pin number
+    bitNameCheck?: BitNameCheck; // bit names from another register: warn (default) or fail
+    constraints?: AnswerConstraints; // how the answer must be written, checked with the value
+    checkAllValues?: boolean; // the answer must match sampleAnswer from every starting value, not just initialValue
+    language?: AnswerLanguage; // 'asm': answered in AVR assembly (see assemblyVariant)
+    // Questions that set up several registers: every register's start and
+    // expected value, `register` included. Other registers must not change.
+    initialStates?: Record<string, number>;
+    expectedStates?: Record<string, number>;
 }
 
 // Helpers
@@ -43,9 +68,11 @@ function randInt(min: number, max: number): number {
     return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
-function randBits(count: number): number[] {
+// Pick `count` distinct bit indices below `width` (ports may have fewer than 8 pins)
+function randBits(count: number, width: number = 8): number[] {
     const bits: number[] = [];
-    const available = [0, 1, 2, 3, 4, 5, 6, 7];
+    const available = Array.from({ length: width }, (_, i) => i);
+    count = Math.min(count, width);
     for (let i = 0; i < count; i++) {
         const idx = Math.floor(Math.random() * available.length);
         bits.push(available.splice(idx, 1)[0]);
@@ -67,11 +94,11 @@ function uid(): string {
 
 // ─── GENERATORS PER TOPIC ───────────────────────────────────────────────
 
-function genHexAssign(difficulty: number): Question {
-    const port = getCommonPort();
+function genHexAssign(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
     const bitCount = Math.min(8, difficulty <= 3 ? randInt(1, 3) : difficulty <= 6 ? randInt(2, 5) : randInt(3, 8));
-    const bits = randBits(bitCount);
+    const bits = randBits(bitCount, port.bits.length);
     let expected = 0;
     for (const b of bits) expected |= (1 << b);
 
@@ -89,15 +116,16 @@ function genHexAssign(difficulty: number): Question {
         acceptsMultipleStatements: false,
         isReadState: false,
         sampleAnswer: `${reg} = ${toHex(expected)};`,
+        constraints: { requireHex: true, maxStatements: 1 },
     };
 }
 
-function genSetBits(difficulty: number): Question {
-    const port = getCommonPort();
+function genSetBits(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
-    const initial = difficulty <= 4 ? 0x00 : randInt(0, 255);
+    const initial = difficulty <= 4 ? 0x00 : randInt(0, 255) & portMask(port);
     const bitCount = difficulty <= 3 ? 1 : difficulty <= 6 ? randInt(1, 3) : randInt(2, 4);
-    const bits = randBits(bitCount);
+    const bits = randBits(bitCount, port.bits.length);
 
     let expected = initial;
     for (const b of bits) expected |= (1 << b);
@@ -119,17 +147,19 @@ function genSetBits(difficulty: number): Question {
         sampleAnswer: bits.length === 1
             ? `${reg} |= (1<<${port.bits[bits[0]]});`
             : `${reg} |= ${bits.map(b => `(1<<${port.bits[b]})`).join('|')};`,
+        constraints: { requiredOperators: ['|='], forbiddenOperators: ['='] },
+        checkAllValues: true,
     };
 }
 
-function genClearBits(difficulty: number): Question {
-    const port = getCommonPort();
+function genClearBits(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
     const bitCount = difficulty <= 3 ? 1 : difficulty <= 6 ? randInt(1, 3) : randInt(2, 4);
-    const bits = randBits(bitCount);
+    const bits = randBits(bitCount, port.bits.length);
 
     // Make sure initial value has those bits set so clearing makes a difference
-    let initial = randInt(0, 255);
+    let initial = randInt(0, 255) & portMask(port);
     for (const b of bits) initial |= (1 << b);
     initial &= 0xFF;
 
@@ -153,15 +183,17 @@ function genClearBits(difficulty: number): Question {
         sampleAnswer: bits.length === 1
             ? `${reg} &= ~(1<<${port.bits[bits[0]]});`
             : `${reg} &= ~(${bits.map(b => `(1<<${port.bits[b]})`).join('|')});`,
+        constraints: { requiredOperators: ['&=', '~'], forbiddenOperators: ['='] },
+        checkAllValues: true,
     };
 }
 
-function genToggleBits(difficulty: number): Question {
-    const port = getCommonPort();
+function genToggleBits(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
-    const initial = randInt(0, 255);
+    const initial = randInt(0, 255) & portMask(port);
     const bitCount = difficulty <= 3 ? 1 : difficulty <= 6 ? randInt(1, 3) : randInt(2, 4);
-    const bits = randBits(bitCount);
+    const bits = randBits(bitCount, port.bits.length);
 
     let expected = initial;
     for (const b of bits) expected ^= (1 << b);
@@ -183,16 +215,18 @@ function genToggleBits(difficulty: number): Question {
         sampleAnswer: bits.length === 1
             ? `${reg} ^= (1<<${port.bits[bits[0]]});`
             : `${reg} ^= ${bits.map(b => `(1<<${port.bits[b]})`).join('|')};`,
+        constraints: { requiredOperators: ['^='], forbiddenOperators: ['='] },
+        checkAllValues: true,
     };
 }
 
-function genCombinedOps(difficulty: number): Question {
-    const port = getCommonPort();
+function genCombinedOps(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
-    const initial = randInt(0, 255);
+    const initial = randInt(0, 255) & portMask(port);
 
     // Pick different bits for set and clear
-    const allBits = randBits(Math.min(6, randInt(3, 5)));
+    const allBits = randBits(Math.min(6, randInt(3, 5)), port.bits.length);
     const mid = Math.ceil(allBits.length / 2);
     const setBits = allBits.slice(0, mid);
     const clearBits = allBits.slice(mid);
@@ -222,15 +256,20 @@ Write the statements to achieve this (without affecting other bits).`,
         acceptsMultipleStatements: true,
         isReadState: false,
         sampleAnswer: `${reg} |= ${setBits.map(b => `(1<<${port.bits[b]})`).join('|')};\n${reg} &= ~(${clearBits.map(b => `(1<<${port.bits[b]})`).join('|')});`,
+        constraints: { forbiddenOperators: ['='] },
+        checkAllValues: true,
     };
 }
 
-function genNamedBits(difficulty: number): Question {
-    // Pick a random peripheral register with named bits
-    const regNames = Object.keys(namedRegisterBits);
+function genNamedBits(difficulty: number, device: DeviceProfile): Question {
+    // Pick a random peripheral register with named bits that hold what is
+    // written (flags and read-only bits are for the quirks topic)
+    const storable = (name: string) =>
+        Object.keys(device.namedRegisterBits[name]).filter(b => writableMask(device.registerMap[name]) & (1 << device.namedRegisterBits[name][b]));
+    const regNames = Object.keys(device.namedRegisterBits).filter(name => storable(name).length > 0);
     const regName = regNames[Math.floor(Math.random() * regNames.length)];
-    const bits = namedRegisterBits[regName];
-    const bitNames = Object.keys(bits);
+    const bits = device.namedRegisterBits[regName];
+    const bitNames = storable(regName);
 
     const count = Math.min(bitNames.length, difficulty <= 4 ? randInt(1, 2) : randInt(2, 4));
     const chosen: string[] = [];
@@ -258,13 +297,563 @@ function genNamedBits(difficulty: number): Question {
         acceptsMultipleStatements: false,
         isReadState: false,
         sampleAnswer: `${regName} = ${chosen.map(n => `(1<<${n})`).join('|')};`,
+        bitNameCheck: 'error',
+        constraints: { requireNamedBits: true, forbidMagicNumbers: true },
     };
 }
 
-function genReadState(difficulty: number): Question {
-    const port = getCommonPort();
+// Fields that fit in one writable register and have a named non-zero value
+function configurableFields(device: DeviceProfile): FieldInfo[] {
+    return device.fields.filter(f => {
+        const reg = f.parts[0].register;
+        const info = device.registerMap[reg];
+        if (!info || f.parts.some(p => p.register !== reg)) return false;
+        const writable = writableMask(info);
+        if ((fieldMasks(f)[reg] & writable) !== fieldMasks(f)[reg]) return false;
+        return f.values.some(v => v.value !== 0);
+    });
+}
+
+function genFieldConfig(difficulty: number, device: DeviceProfile): Question {
+    const candidates = configurableFields(device);
+    if (candidates.length === 0) return genNamedBits(difficulty, device);
+
+    const f = candidates[Math.floor(Math.random() * candidates.length)];
+    const reg = f.parts[0].register;
+    const mask = fieldMasks(f)[reg];
+    // Skip encodings that share a name with another (ADPS 0 and 1 are both clk/2)
+    const values = f.values.filter(v => v.value !== 0 && f.values.filter(o => o.name === v.name).length === 1);
+    const choice = values[Math.floor(Math.random() * values.length)];
+    const bits = encodeField(f, choice.value)[reg];
+
+    // Named bits set by this value, MSB first as in the datasheet
+    const setNames: string[] = [];
+    const allNames: string[] = [];
+    for (let k = f.width - 1; k >= 0; k--) {
+        allNames.push(fieldBitName(f, k));
+        if ((choice.value >> k) & 1) setNames.push(fieldBitName(f, k));
+    }
+    const setExpr = setNames.map(n => `(1<<${n})`).join('|');
+    const clearExpr = allNames.map(n => `(1<<${n})`).join('|');
+
+    const label = `**${f.caption}** (${fieldLabel(f)} in **${reg}**)`;
+    const bitList = Array.from({ length: f.width }, (_, k) => fieldBitPosition(f, f.width - 1 - k).bit);
+    const encoding = choice.value.toString(2).padStart(f.width, '0');
+
+    if (difficulty <= 4) {
+        return {
+            id: uid(),
+            topic: 'field_config',
+            difficulty,
+            prompt: `Set the ${label} to **${choice.name}**.\n\n${reg} starts at \`0x00\`; leave all other bits LOW. Use the named bit constants.`,
+            register: reg,
+            initialValue: 0,
+            expectedValue: bits,
+            hint: `${fieldLabel(f)} = ${encoding} for ${choice.name}. Set the bits that are 1: ${reg} = ${setExpr};`,
+            acceptsMultipleStatements: false,
+            isReadState: false,
+            sampleAnswer: `${reg} = ${setExpr};`,
+            bitNameCheck: 'error',
+            constraints: { requireNamedBits: true, forbidMagicNumbers: true },
+        };
+    }
+
+    // Random starting value: the field must be cleared first, other bits preserved
+    const initial = randInt(0, 255) & writableMask(device.registerMap[reg]);
+    const expected = (initial & ~mask) | bits;
+
+    return {
+        id: uid(),
+        topic: 'field_config',
+        difficulty,
+        prompt: `Starting with **${reg}** = \`${toHex(initial)}\` (${toBin8(initial)}), set the ${label} to **${choice.name}**.\n\nThe field sits in bits ${bitList.join(', ')}. Do not change any other bits, and use the named bit constants.`,
+        register: reg,
+        initialValue: initial,
+        expectedValue: expected,
+        hint: `${fieldLabel(f)} = ${encoding} for ${choice.name}. Clear the whole field with &= ~(...), then |= the bits that are 1.`,
+        acceptsMultipleStatements: true,
+        isReadState: false,
+        sampleAnswer: `${reg} &= ~(${clearExpr});\n${reg} |= ${setExpr};`,
+        bitNameCheck: 'error',
+        constraints: { requireNamedBits: true, forbidMagicNumbers: true },
+    };
+}
+
+// Ports with at least one pin on the Arduino headers
+function headerPorts(device: DeviceProfile): PortInfo[] {
+    return device.ports.filter(p => p.arduinoPins.some(n => n !== null));
+}
+
+function headerBits(port: PortInfo): number[] {
+    return port.arduinoPins.flatMap((n, bit) => (n !== null ? [bit] : []));
+}
+
+type PinAction = 'output' | 'input' | 'high' | 'low' | 'pullup';
+
+function genArduinoPins(difficulty: number, device: DeviceProfile): Question {
+    const ports = headerPorts(device);
+    if (ports.length === 0) return genSetBits(difficulty, device);
+    const port = ports[Math.floor(Math.random() * ports.length)];
+    const available = headerBits(port);
+
+    // Reverse drill: name the Arduino pin behind a port bit
+    if (Math.random() < 0.3) {
+        const bit = available[Math.floor(Math.random() * available.length)];
+        const pin = port.arduinoPins[bit]!;
+        return {
+            id: uid(),
+            topic: 'arduino_pins',
+            difficulty,
+            prompt: `On the **${device.board}**, which digital pin number is **${port.bits[bit]}** (bit ${bit} of ${port.port})?\n\nEnter the Arduino pin number (e.g. \`13\`).`,
+            register: port.port,
+            initialValue: 1 << bit,
+            expectedValue: pin,
+            hint: `Look up port ${port.name} in the pin map on the cheatsheet.`,
+            acceptsMultipleStatements: false,
+            isReadState: true,
+            sampleAnswer: String(pin),
+            isPinAnswer: true,
+        };
+    }
+
+    // Combined drill: pinMode and digitalWrite together, DDRx and PORTx
+    if (difficulty >= 5 && Math.random() < 0.35) return genArduinoOutput(difficulty, device, port, available);
+
+    // Forward drill: digitalWrite/pinMode in register terms
+    const count = difficulty <= 5 ? 1 : Math.min(available.length, randInt(1, 2));
+    const bits: number[] = [];
+    const pool = [...available];
+    for (let i = 0; i < count; i++) {
+        bits.push(pool.splice(Math.floor(Math.random() * pool.length), 1)[0]);
+    }
+    bits.sort((a, b) => a - b);
+
+    const actions: PinAction[] = ['output', 'input', 'high', 'low', 'pullup'];
+    const action = actions[Math.floor(Math.random() * actions.length)];
+    const useDdr = action === 'output' || action === 'input';
+    const reg = useDdr ? port.ddr : port.port;
+    const names = useDdr ? port.ddrBits : port.bits;
+    const setting = action === 'output' || action === 'high' || action === 'pullup';
+
+    const initial = difficulty <= 3 ? 0 : randInt(0, 255) & portMask(port);
+    let mask = 0;
+    for (const b of bits) mask |= (1 << b);
+    const expected = setting ? initial | mask : initial & ~mask;
+
+    const plural = bits.length > 1;
+    const pinList = bits.map(b => `**${port.arduinoPins[b]}**`).join(' and ');
+    const pins = `${plural ? 'digital pins' : 'digital pin'} ${pinList}`;
+    const an = (mode: string) => (plural ? `${mode}s` : `an ${mode}`);
+    const already = (mode: string) => `${plural ? 'Digital pins' : 'Digital pin'} ${pinList} ${plural ? 'are' : 'is'} already ${an(mode)}.`;
+    const them = plural ? 'them' : 'it';
+    const verb: Record<PinAction, string> = {
+        output: `Make ${pins} ${an('OUTPUT')} (\`pinMode(..., OUTPUT)\`).`,
+        input: `Make ${pins} ${an('INPUT')} (\`pinMode(..., INPUT)\`).`,
+        high: `${already('output')} Drive ${them} HIGH (\`digitalWrite(..., HIGH)\`).`,
+        low: `${already('output')} Drive ${them} LOW (\`digitalWrite(..., LOW)\`).`,
+        pullup: `${already('input')} Enable the internal pull-up (\`pinMode(..., INPUT_PULLUP)\`).`,
+    };
+
+    const operand = bits.map(b => `(1<<${names[b]})`).join('|');
+    const sample = setting ? `${reg} |= ${operand};` : `${reg} &= ~(${bits.length > 1 ? operand : `1<<${names[bits[0]]}`});`;
+
+    return {
+        id: uid(),
+        topic: 'arduino_pins',
+        difficulty,
+        prompt: `On the **${device.board}**: ${verb[action]}\n\nWrite the register code without affecting other pins.`,
+        register: reg,
+        initialValue: initial,
+        expectedValue: expected,
+        hint: `Pin ${port.arduinoPins[bits[0]]} is ${port.bits[bits[0]]}. Direction lives in ${port.ddr}, output level and pull-ups in ${port.port}.`,
+        acceptsMultipleStatements: false,
+        isReadState: false,
+        sampleAnswer: sample,
+        constraints: { forbiddenOperators: ['='] },
+        checkAllValues: true,
+    };
+}
+
+// pinMode(OUTPUT) then digitalWrite: set the DDRx bits and drive the PORTx bits
+function genArduinoOutput(difficulty: number, device: DeviceProfile, port: PortInfo, available: number[]): Question {
+    const pool = [...available];
+    const bits = Array.from({ length: Math.min(pool.length, randInt(1, 2)) }, () => pool.splice(Math.floor(Math.random() * pool.length), 1)[0])
+        .sort((a, b) => a - b);
+    const mask = bits.reduce((m, b) => m | (1 << b), 0);
+    const high = Math.random() < 0.5;
+
+    const initialDdr = randInt(0, 255) & portMask(port) & ~mask;
+    const initialPort = randInt(0, 255) & portMask(port);
+    const expectedDdr = initialDdr | mask;
+    const expectedPort = high ? initialPort | mask : initialPort & ~mask;
+
+    const ddrOperand = bits.map(b => `(1<<${port.ddrBits[b]})`).join('|');
+    const portOperand = bits.map(b => `(1<<${port.bits[b]})`).join('|');
+    const pins = bits.map(b => `**${port.arduinoPins[b]}**`).join(' and ');
+    const level = high ? 'HIGH' : 'LOW';
+
+    return {
+        id: uid(),
+        topic: 'arduino_pins',
+        difficulty,
+        prompt: `On the **${device.board}**: make digital ${bits.length > 1 ? 'pins' : 'pin'} ${pins} ${bits.length > 1 ? 'OUTPUTs' : 'an OUTPUT'} driven **${level}** (\`pinMode(..., OUTPUT)\` then \`digitalWrite(..., ${level})\`).\n\n${port.ddr} = \`${toHex(initialDdr)}\`, ${port.port} = \`${toHex(initialPort)}\`. Write the register code without affecting other pins.`,
+        register: port.ddr,
+        initialValue: initialDdr,
+        expectedValue: expectedDdr,
+        hint: `Set the direction bits in ${port.ddr} with |=, then ${high ? 'set' : 'clear'} the output bits in ${port.port}.`,
+        acceptsMultipleStatements: true,
+        isReadState: false,
+        sampleAnswer: `${port.ddr} |= ${ddrOperand};\n${port.port} ${high ? `|= ${portOperand}` : `&= ~(${portOperand})`};`,
+        constraints: { forbiddenOperators: ['='] },
+        initialStates: { [port.ddr]: initialDdr, [port.port]: initialPort },
+        expectedStates: { [port.ddr]: expectedDdr, [port.port]: expectedPort },
+    };
+}
+
+// Arduino boards clock the AVR at 16 MHz
+const F_CPU = 16_000_000;
+
+function toHex16(n: number): string {
+    return '0x' + (n & 0xFFFF).toString(16).toUpperCase().padStart(4, '0');
+}
+
+// Timer compare values that come out exact: [prescaler, period in ms]
+function timerPeriods(): { prescaler: number; ms: number; ticks: number }[] {
+    const out: { prescaler: number; ms: number; ticks: number }[] = [];
+    for (const prescaler of [8, 64, 256, 1024]) {
+        for (const ms of [1, 2, 5, 10, 20, 50, 100, 200, 250, 500, 1000]) {
+            const ticks = (F_CPU / prescaler) * ms / 1000;
+            if (Number.isInteger(ticks) && ticks <= 0x10000 && ticks >= 16) out.push({ prescaler, ms, ticks });
+        }
+    }
+    return out;
+}
+
+function genWideRegisters(difficulty: number, device: DeviceProfile): Question {
+    const writable = (r: { width: number; access: string[] }) => r.width === 16 && r.access.every(a => a !== 'r');
+    const compares = device.registers.filter(r => writable(r) && r.temp && /^OCR\d+A$/.test(r.name));
+    const baudRegs = device.registers.filter(r => writable(r) && /^UBRR\d*$/.test(r.name));
+    const buffered = device.registers.filter(r => writable(r) && r.temp);
+
+    const usarts = baudRegs.filter(r => device.registerMap[r.name.replace('UBRR', 'UCSR') + 'B']);
+
+    const kinds: ('compare' | 'baud' | 'halves' | 'usart')[] = [];
+    if (compares.length) kinds.push('compare');
+    if (baudRegs.length) kinds.push('baud');
+    if (usarts.length && difficulty >= 6) kinds.push('usart');
+    if (buffered.length && difficulty >= 5) kinds.push('halves');
+    if (kinds.length === 0) return genHexAssign(difficulty, device);
+
+    const kind = kinds[Math.floor(Math.random() * kinds.length)];
+    const pick = <T>(xs: T[]): T => xs[Math.floor(Math.random() * xs.length)];
+
+    if (kind === 'compare') {
+        const reg = pick(compares).name;
+        const t = reg.replace(/^OCR(\d+)A$/, '$1');
+        const { prescaler, ms, ticks } = pick(timerPeriods());
+        const value = ticks - 1;
+        return {
+            id: uid(),
+            topic: 'wide_registers',
+            difficulty,
+            prompt: `Timer${t} runs in CTC mode at **clk/${prescaler}** from a ${F_CPU / 1_000_000} MHz clock.\n\nWrite the 16-bit **${reg}** value that gives a compare match every **${ms} ms**.`,
+            register: reg,
+            initialValue: 0,
+            expectedValue: value,
+            hint: `${reg} = F_CPU / ${prescaler} × ${ms / 1000} s − 1 = ${ticks} − 1. The compiler writes both bytes of a 16-bit register for you.`,
+            acceptsMultipleStatements: false,
+            isReadState: false,
+            sampleAnswer: `${reg} = ${value};`,
+        };
+    }
+
+    if (kind === 'baud') {
+        const reg = pick(baudRegs).name;
+        const baud = pick([2400, 4800, 9600, 19200, 38400, 57600, 115200]);
+        const value = Math.round(F_CPU / 16 / baud) - 1;
+        return {
+            id: uid(),
+            topic: 'wide_registers',
+            difficulty,
+            prompt: `Set **${reg}** for **${baud} baud** in normal-speed asynchronous mode (F_CPU = ${F_CPU / 1_000_000} MHz).\n\nUse UBRR = F_CPU / (16 × baud) − 1, rounded to the nearest integer.`,
+            register: reg,
+            initialValue: 0,
+            expectedValue: value,
+            hint: `${F_CPU} / (16 × ${baud}) − 1 ≈ ${value}`,
+            acceptsMultipleStatements: false,
+            isReadState: false,
+            sampleAnswer: `${reg} = ${value};`,
+        };
+    }
+
+    // Full USART set-up: baud rate, enables and frame format in three registers
+    if (kind === 'usart') {
+        const baudReg = pick(usarts).name;
+        const u = baudReg.replace('UBRR', '');
+        const [ucsrb, ucsrc] = [`UCSR${u}B`, `UCSR${u}C`];
+        const baud = pick([9600, 19200, 38400, 57600]);
+        const ubrr = Math.round(F_CPU / 16 / baud) - 1;
+        const frame = pick([
+            { name: '8N1', bits: [`UCSZ${u}1`, `UCSZ${u}0`] },
+            { name: '8N2', bits: [`USBS${u}`, `UCSZ${u}1`, `UCSZ${u}0`] },
+            { name: '8E1', bits: [`UPM${u}1`, `UCSZ${u}1`, `UCSZ${u}0`] },
+        ]);
+        const enables = [`RXEN${u}`, `TXEN${u}`];
+        const value = (names: string[]) => names.reduce((v, n) => v | (1 << device.allNamedBits[n]), 0);
+        const expr = (names: string[]) => names.map(n => `(1<<${n})`).join('|');
+        const resetC = device.registerMap[ucsrc].resetValue;
+
+        return {
+            id: uid(),
+            topic: 'wide_registers',
+            difficulty,
+            prompt: `Initialise **USART${u}** for **${baud} baud, ${frame.name}** with both the receiver and the transmitter enabled (F_CPU = ${F_CPU / 1_000_000} MHz, normal speed).\n\nSet **${baudReg}**, **${ucsrb}** and **${ucsrc}**.`,
+            register: baudReg,
+            initialValue: 0,
+            expectedValue: ubrr,
+            hint: `${baudReg} = F_CPU / (16 × ${baud}) − 1 ≈ ${ubrr}. ${ucsrb} enables RX and TX; ${ucsrc} holds the character size (UCSZ), parity (UPM) and stop bits (USBS).`,
+            acceptsMultipleStatements: true,
+            isReadState: false,
+            sampleAnswer: `${baudReg} = ${ubrr};\n${ucsrb} = ${expr(enables)};\n${ucsrc} = ${expr(frame.bits)};`,
+            bitNameCheck: 'error',
+            initialStates: { [baudReg]: 0, [ucsrb]: 0, [ucsrc]: resetC },
+            expectedStates: { [baudReg]: ubrr, [ucsrb]: value(enables), [ucsrc]: value(frame.bits) },
+        };
+    }
+
+    // Byte-wise write through TEMP: high byte first
+    const info = pick(buffered);
+    const { low, high } = info.halves!;
+    const value = randInt(0x0100, 0xFFFF);
+    const initial = randInt(0, 0xFFFF);
+    return {
+        id: uid(),
+        topic: 'wide_registers',
+        difficulty,
+        prompt: `Starting with **${info.name}** = \`${toHex16(initial)}\`, write \`${toHex16(value)}\` to it using the 8-bit halves **${high}** and **${low}**.\n\nMind the order — the timer's TEMP register decides which byte must go first.`,
+        register: info.name,
+        initialValue: initial,
+        expectedValue: value,
+        hint: `Writing ${high} only fills TEMP; writing ${low} then stores TEMP:${low} in one go. So write ${high} first.`,
+        acceptsMultipleStatements: true,
+        isReadState: false,
+        sampleAnswer: `${high} = ${toHex(value >> 8)};\n${low} = ${toHex(value & 0xFF)};`,
+    };
+}
+
+// Names of a register's bits with the given access, MSB first, e.g. ['RXC0', 'UDRE0']
+function bitsWithAccess(info: RegisterInfo, access: string): string[] {
+    return info.bits.flatMap((name, i) => (info.access[i] === access ? [name ?? `bit ${i}`] : [])).reverse();
+}
+
+// Datasheet write semantics: PINx toggles, write-1-to-clear flags, read-only
+// bits; and status bits only the hardware sets, which the answer polls for
+function genRegisterQuirks(difficulty: number, device: DeviceProfile): Question {
+    const flagRegisters = device.registers.filter(r => {
+        const flags = flagMask(r);
+        // Flag-only registers clear with a plain write; mixed ones need exactly one flag for |=
+        return r.width === 8 && flags && (writableMask(r) === 0 ? (flags & (flags - 1)) !== 0 : (flags & (flags - 1)) === 0);
+    });
+    const readOnlyRegisters = Object.keys(device.namedRegisterBits)
+        .map(name => device.registerMap[name])
+        .filter(r => r.access.includes('r') && writableMask(r) !== 0);
+
+    const adc = device.registerMap.ADCSRA && namedBitsOf(device.registerMap.ADCSRA);
+    const hasUsart = !!device.registerMap.UCSR0A && !!device.registerMap.UDR0;
+
+    const kinds: ('pin_toggle' | 'pin_readback' | 'flag_clear' | 'read_only' | 'adc_wait' | 'usart_wait')[] = ['pin_toggle'];
+    if (flagRegisters.length && difficulty >= 3) kinds.push('flag_clear');
+    if (difficulty >= 5) kinds.push('pin_readback');
+    if (readOnlyRegisters.length && difficulty >= 5) kinds.push('read_only');
+    if (adc && 'ADSC' in adc && 'ADIF' in adc && difficulty >= 6) kinds.push('adc_wait');
+    if (hasUsart && difficulty >= 6) kinds.push('usart_wait');
+    const kind = kinds[Math.floor(Math.random() * kinds.length)];
+
+    // ADIF can only be set by a conversion finishing, so the answer has to wait for it
+    if (kind === 'adc_wait') {
+        const initial = (1 << adc.ADEN) | randInt(1, 7);
+        const expected = (initial | (1 << adc.ADIF)) & 0xFF;
+        const wait = Math.random() < 0.5 ? 'while (ADCSRA & (1<<ADSC));' : 'loop_until_bit_is_clear(ADCSRA, ADSC);';
+        return {
+            id: uid(),
+            topic: 'register_quirks',
+            difficulty,
+            prompt: `The ADC is enabled: **ADCSRA** = \`${toHex(initial)}\` (${toBin8(initial)}). Start a conversion and wait until it has finished, keeping the prescaler setting.
+
+ADSC reads 1 while the conversion runs; when it is done ADSC clears and the ADIF flag sets.`,
+            register: 'ADCSRA',
+            initialValue: initial,
+            expectedValue: expected,
+            hint: `Set ADSC with |= so ADEN and ADPS stay, then spin until ADSC reads 0: ADCSRA |= (1<<ADSC); ${wait}`,
+            acceptsMultipleStatements: true,
+            isReadState: false,
+            sampleAnswer: `ADCSRA |= (1<<ADSC);\n${wait}`,
+        };
+    }
+
+    // TXC0 sets once the whole frame has left the shift register
+    if (kind === 'usart_wait') {
+        const byte = randInt(0x21, 0x7E);
+        const ready = 1 << device.allNamedBits.UDRE0;
+        const sent = ready | (1 << device.allNamedBits.TXC0);
+        const enabled = 1 << device.allNamedBits.TXEN0;
+        return {
+            id: uid(),
+            topic: 'register_quirks',
+            difficulty,
+            prompt: `The USART0 transmitter is enabled (**UCSR0B** = \`${toHex(enabled)}\`). Send the character \`'${String.fromCharCode(byte)}'\` (\`${toHex(byte)}\`) and wait until the frame has gone out completely.
+
+Writing **UDR0** clears UDRE0 until the shift register takes the byte; **TXC0** in UCSR0A sets when the last stop bit is sent.`,
+            register: 'UCSR0A',
+            initialValue: ready,
+            expectedValue: sent,
+            hint: `UDRE0 is already set, so write the byte straight away, then spin on TXC0: UDR0 = ${toHex(byte)}; loop_until_bit_is_set(UCSR0A, TXC0);`,
+            acceptsMultipleStatements: true,
+            isReadState: false,
+            sampleAnswer: `UDR0 = ${toHex(byte)};\nwhile (!(UCSR0A & (1<<TXC0)));`,
+            initialStates: { UCSR0A: ready, UCSR0B: enabled, UDR0: 0 },
+            expectedStates: { UCSR0A: sent, UCSR0B: enabled, UDR0: byte },
+        };
+    }
+
+    if (kind === 'pin_toggle' || kind === 'pin_readback') {
+        const port = getCommonPort(device);
+        const initial = randInt(0, 255) & portMask(port);
+        const bits = randBits(difficulty <= 4 ? 1 : randInt(1, 2), port.bits.length);
+        const mask = bits.reduce((m, b) => m | (1 << b), 0);
+        const operand = bits.map(b => `(1<<${port.bits[b]})`).join('|');
+
+        if (kind === 'pin_toggle') {
+            return {
+                id: uid(),
+                topic: 'register_quirks',
+                difficulty,
+                prompt: `Toggle ${bits.map(b => `**${port.bits[b]}**`).join(' and ')} of **${port.port}** with a single write to **${port.pin}**.
+
+Current ${port.port}: \`${toHex(initial)}\` (${toBin8(initial)})`,
+                register: port.port,
+                initialValue: initial,
+                expectedValue: initial ^ mask,
+                hint: `Writing a 1 to a bit of ${port.pin} flips that bit of ${port.port}; 0 bits do nothing. ${port.pin} = ${operand};`,
+                acceptsMultipleStatements: false,
+                isReadState: false,
+                sampleAnswer: `${port.pin} = ${operand};`,
+                constraints: { requiredWrites: [port.pin], maxStatements: 1 },
+                checkAllValues: true,
+            };
+        }
+
+        // |= reads the pin levels back, so every pin that reads HIGH toggles too
+        const pins = randInt(0, 255) & portMask(port);
+        const expected = initial ^ ((pins | mask) & portMask(port));
+        return {
+            id: uid(),
+            topic: 'register_quirks',
+            difficulty,
+            prompt: `**${port.port}** = \`${toHex(initial)}\` and the pins read **${port.pin}** = \`${toHex(pins)}\`. What is ${port.port} after:
+
+\`\`\`c
+${port.pin} |= ${operand};
+\`\`\`
+
+Enter the result in hex (e.g. \`0xAB\`) or binary (e.g. \`10101011\`).`,
+            register: port.port,
+            initialValue: initial,
+            expectedValue: expected,
+            hint: `|= reads ${port.pin} (${toHex(pins)}), ORs in ${toHex(mask)} and writes ${toHex((pins | mask) & portMask(port))} back. Every 1 written to ${port.pin} toggles that ${port.port} bit.`,
+            acceptsMultipleStatements: false,
+            isReadState: true,
+            sampleAnswer: toHex(expected),
+        };
+    }
+
+    if (kind === 'flag_clear') {
+        const info = flagRegisters[Math.floor(Math.random() * flagRegisters.length)];
+        const flags = flagMask(info);
+        const named = namedBitsOf(info);
+        const flagNames = Object.keys(named).filter(n => flags & (1 << named[n]));
+        const target = flagNames[Math.floor(Math.random() * flagNames.length)];
+        const bit = 1 << named[target];
+        const flagOnly = writableMask(info) === 0;
+
+        // Several pending flags, or the flag among random settings
+        const initial = flagOnly
+            ? (randInt(0, 255) & flags) | bit | (flags & ~bit & -(flags & ~bit))
+            : (randInt(0, 255) & writableMask(info)) | bit;
+        const expected = initial & ~bit;
+        const sample = flagOnly ? `${info.name} = (1<<${target});` : `${info.name} |= (1<<${target});`;
+        const others = flagOnly ? 'without clearing the other pending flags' : 'without changing the other bits';
+
+        return {
+            id: uid(),
+            topic: 'register_quirks',
+            difficulty,
+            prompt: `**${info.name}** = \`${toHex(initial)}\` (${toBin8(initial)}). Clear the **${target}** flag ${others}.
+
+${bitsWithAccess(info, 'w1c').join(', ')} ${flagNames.length > 1 ? 'are flags' : 'is a flag'} cleared by writing a 1 to ${flagNames.length > 1 ? 'them' : 'it'}.`,
+            register: info.name,
+            initialValue: initial,
+            expectedValue: expected,
+            hint: flagOnly
+                ? `Writing 0 to a flag does nothing, and |= would write back every pending flag. Write only the one you want cleared: ${sample}`
+                : `&= ~ writes 0 to ${target}, which leaves it set. |= writes the settings back unchanged and a 1 to ${target}: ${sample}`,
+            acceptsMultipleStatements: false,
+            isReadState: false,
+            sampleAnswer: sample,
+            bitNameCheck: 'error',
+            constraints: { requireNamedBits: true },
+            checkAllValues: true,
+        };
+    }
+
+    // Read-only bits keep their value whatever is written
+    const info = readOnlyRegisters[Math.floor(Math.random() * readOnlyRegisters.length)];
+    const writable = writableMask(info);
+    const flags = flagMask(info);
+    let readOnly = 0;
+    info.access.forEach((a, i) => {
+        if (a === 'r') readOnly |= (1 << i);
+    });
+    const initial = (randInt(0, 255) & (writable | readOnly | flags)) | (readOnly & -readOnly);
+    const value = randInt(0, 255) & (writable | readOnly) & ~flags;
+    const expected = (initial & ~writable) | (value & writable);
+    const flagNames = bitsWithAccess(info, 'w1c');
+    const flagNote = flagNames.length ? ` ${flagNames.join(', ')} clear${flagNames.length > 1 ? '' : 's'} only when a 1 is written.` : '';
+
+    return {
+        id: uid(),
+        topic: 'register_quirks',
+        difficulty,
+        prompt: `**${info.name}** reads \`${toHex(initial)}\` (${toBin8(initial)}). What does it read after:
+
+\`\`\`c
+${info.name} = ${toHex(value)};
+\`\`\`
+
+Read-only bits: ${bitsWithAccess(info, 'r').join(', ')}.${flagNote} Enter the result in hex or binary.`,
+        register: info.name,
+        initialValue: initial,
+        expectedValue: expected,
+        hint: `Only the writable bits take the new value (${toBin8(value & writable)}); the read-only bits keep ${toBin8(initial & readOnly)}.`,
+        acceptsMultipleStatements: false,
+        isReadState: true,
+        sampleAnswer: toHex(expected),
+    };
+}
+
+function genReadState(difficulty: number, device: DeviceProfile): Question {
+    const port = getCommonPort(device);
     const reg = port.port;
-    const initial = randInt(0, 255);
+    const initial = randInt(0, 255) & portMask(port);
+
+    // One random set/clear/toggle of a port bit, as code and as its effect
+    const randomOp = (): { code: string; apply: (v: number) => number } => {
+        const bit = randInt(0, port.bits.length - 1);
+        const opType = randInt(0, 2); // 0=set, 1=clear, 2=toggle
+        if (opType === 0) return { code: `${reg} |= (1<<${port.bits[bit]});`, apply: v => v | (1 << bit) };
+        if (opType === 1) return { code: `${reg} &= ~(1<<${port.bits[bit]});`, apply: v => v & ~(1 << bit) };
+        return { code: `${reg} ^= (1<<${port.bits[bit]});`, apply: v => v ^ (1 << bit) };
+    };
 
     // Generate 1-3 random operations
     const ops: string[] = [];
@@ -272,19 +861,25 @@ function genReadState(difficulty: number): Question {
     const numOps = difficulty <= 3 ? 1 : difficulty <= 6 ? 2 : 3;
 
     for (let i = 0; i < numOps; i++) {
-        const bit = randInt(0, 7);
-        const opType = randInt(0, 2); // 0=set, 1=clear, 2=toggle
-        if (opType === 0) {
-            ops.push(`${reg} |= (1<<${port.bits[bit]});`);
-            state |= (1 << bit);
-        } else if (opType === 1) {
-            ops.push(`${reg} &= ~(1<<${port.bits[bit]});`);
-            state &= ~(1 << bit);
-        } else {
-            ops.push(`${reg} ^= (1<<${port.bits[bit]});`);
-            state ^= (1 << bit);
-        }
-        state &= 0xFF;
+        const op = randomOp();
+        ops.push(op.code);
+        state = op.apply(state) & 0xFF;
+    }
+
+    // From difficulty 5 the last step branches on a bit of the current value
+    const conditional = difficulty >= 5;
+    if (conditional) {
+        const testBit = randInt(0, port.bits.length - 1);
+        const thenOp = randomOp();
+        const elseOp = randomOp();
+        ops.push(
+            `if (${reg} & (1<<${port.bits[testBit]})) {`,
+            `    ${thenOp.code}`,
+            '} else {',
+            `    ${elseOp.code}`,
+            '}',
+        );
+        state = (state & (1 << testBit) ? thenOp.apply(state) : elseOp.apply(state)) & 0xFF;
     }
 
     return {
@@ -295,7 +890,9 @@ function genReadState(difficulty: number): Question {
         register: reg,
         initialValue: initial,
         expectedValue: state,
-        hint: `Work through each operation step by step on the binary representation.`,
+        hint: conditional
+            ? `Work through each operation step by step on the binary representation. Test the if condition against the value at that point — only one branch runs.`
+            : `Work through each operation step by step on the binary representation.`,
         acceptsMultipleStatements: false,
         isReadState: true,
         sampleAnswer: toHex(state),
@@ -304,13 +901,17 @@ function genReadState(difficulty: number): Question {
 
 // ─── MAIN GENERATOR ─────────────────────────────────────────────────────
 
-const generators: Record<QuestionTopic, (d: number) => Question> = {
+const generators: Record<QuestionTopic, (d: number, device: DeviceProfile) => Question> = {
     hex_assign: genHexAssign,
     set_bits: genSetBits,
     clear_bits: genClearBits,
     toggle_bits: genToggleBits,
     combined_ops: genCombinedOps,
     named_bits: genNamedBits,
+    field_config: genFieldConfig,
+    arduino_pins: genArduinoPins,
+    wide_registers: genWideRegisters,
+    register_quirks: genRegisterQuirks,
     read_state: genReadState,
 };
 
@@ -322,6 +923,10 @@ const topicUnlockLevel: Record<QuestionTopic, number> = {
     toggle_bits: 3,
     combined_ops: 4,
     named_bits: 5,
+    field_config: 6,
+    arduino_pins: 3,
+    wide_registers: 5,
+    register_quirks: 6,
     read_state: 2,
 };
 
@@ -330,7 +935,8 @@ const topicUnlockLevel: Record<QuestionTopic, number> = {
  */
 export function generateQuestion(
     selectedTopics: QuestionTopic[] | 'all',
-    playerLevel: number = 1
+    playerLevel: number = 1,
+    device: DeviceProfile = getActiveDevice()
 ): Question {
     // Determine available topics based on player level
     let available: QuestionTopic[];
@@ -352,9 +958,88 @@ export function generateQuestion(
     // Add some randomness: ±2 around base
     const difficulty = Math.max(1, Math.min(10, baseDifficulty + randInt(-2, 1)));
 
-    return generators[topic](difficulty);
+    return generators[topic](difficulty, device);
 }
 
 export function getAvailableTopics(playerLevel: number): QuestionTopic[] {
     return ALL_TOPICS.filter(t => playerLevel >= topicUnlockLevel[t]);
 }
+
+// ─── ASSEMBLY VARIANTS ──────────────────────────────────────────────────
+
+// Prompt wording that only fits a C answer
+const C_WORDING: [string, string][] = [
+    ['Write a single assignment using hex notation.', 'Write the value as a hex constant.'],
+    ['Write the register code', 'Write the instructions'],
+];
+
+// One hint sentence per kind of instruction the sample answer uses
+const ASSEMBLY_HINTS: [RegExp, string][] = [
+    [/^(sbi|cbi) /m, 'SBI and CBI set or clear one bit of a low I/O register (0x00–0x1F) in a single instruction.'],
+    [/^in /m, 'IN copies an I/O register into a working register, where ORI, ANDI or EOR change it.'],
+    [/^out /m, 'OUT writes a working register to an I/O register.'],
+    [/^(lds|sts) /m, 'Registers outside the I/O space need LDS and STS instead.'],
+    [/^ldi /m, 'LDI loads a constant, into r16–r31 only.'],
+    [/^eor /m, 'There is no EOR with a constant: LDI the mask into a second register first.'],
+    [/^(sbis|sbic|sbrs|sbrc) /m, 'SBIS/SBIC (SBRS/SBRC on a loaded copy) skip the next instruction when the bit is set/clear — skip over an RJMP to branch, or to loop until the bit changes.'],
+];
+
+function assemblyHint(source: string, ...first: string[]): string {
+    return [...first, ...ASSEMBLY_HINTS.filter(([uses]) => uses.test(source)).map(([, hint]) => hint)].join(' ');
+}
+
+/**
+ * The same question answered in AVR assembly. The sample answer becomes
+ * assembler source and must pass the question as it stands; read-state
+ * questions show their code as assembly instead. Null when the sample has
+ * no assembly form (see assemblySource) or the assembly behaves otherwise,
+ * e.g. SBI on a PINx register toggles only its own bit.
+ */
+export function assemblyVariant(question: Question, device: DeviceProfile = getActiveDevice()): Question | null {
+    const initialStates = { ...question.initialStates, [question.register]: question.initialValue };
+
+    if (question.isReadState) {
+        const block = /```c\n([\s\S]*?)\n```/.exec(question.prompt);
+        if (!block) return question;
+        const source = assemblySource(block[1], device);
+        if (!source) return null;
+        const result = evaluate(source, initialStates, device, { language: 'asm' });
+        if (!result.success || (result.registerStates[question.register] ?? question.initialValue) !== question.expectedValue) return null;
+        return {
+            ...question,
+            language: 'asm',
+            prompt: question.prompt.replace(block[0], '```asm\n' + source + '\n```'),
+            hint: assemblyHint(source, 'Work through each instruction step by step on the binary representation.'),
+        };
+    }
+
+    const source = question.sampleAnswer && assemblySource(question.sampleAnswer, device);
+    if (!source) return null;
+    const single = source.split('\n').filter(line => !line.endsWith(':')).length === 1;
+    const { requireHex, requireNamedBits, forbidMagicNumbers, requiredWrites } = question.constraints ?? {};
+    const constraints: AnswerConstraints = {
+        ...(requireHex ? { requireHex } : {}),
+        ...(requireNamedBits ? { requireNamedBits } : {}),
+        ...(forbidMagicNumbers ? { forbidMagicNumbers } : {}),
+        ...(requiredWrites ? { requiredWrites } : {}),
+        ...(single ? { maxInstructions: 1 } : {}),
+    };
+    const check = checkAnswer(source, question.register, question.initialValue, question.expectedValue, device, {
+        language: 'asm',
+        constraints,
+        bitNameCheck: question.bitNameCheck,
+        initialStates: question.initialStates,
+        expectedStates: question.expectedStates,
+    });
+    if (!check.correct) return null;
+
+    const prompt = C_WORDING.reduce((text, [c, asm]) => text.replace(c, asm), question.prompt);
+    return {
+        ...question,
+        language: 'asm',
+        prompt: `${prompt}\n\nAnswer in AVR assembly${single ? ' using a single instruction' : ''}.`,
+        hint: assemblyHint(source),
+        sampleAnswer: source,
+        constraints: Object.keys(constraints).length > 0 ? constraints : undefined,
+    };
+}
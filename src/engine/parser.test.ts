@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { evaluate } from './evaluator';
+import { parsePartial } from './parser';
+
+const device = getDevice('atmega2560')!;
+
+const errorOf = (code: string) => evaluate(code, {}, device).diagnostics.find(d => d.severity === 'error');
+
+describe('mistyped assignment operators', () => {
+    it.each([['|', '|='], ['&', '&='], ['^', '^=']])('suggests the fix for =%s', (op, fixed) => {
+        const code = `PORTB =${op} (1<<3);`;
+        const error = errorOf(code);
+        expect(error?.code).toBe('expected-assignment');
+        expect(error?.fix).toBe(`did you mean \`${fixed}\`?`);
+        expect(code.slice(error!.span.start, error!.span.end)).toBe(`=${op}`);
+    });
+
+    it('leaves a spaced `= |` to the generic error', () => {
+        expect(errorOf('PORTB = | (1<<3);')?.fix).not.toBe('did you mean `|=`?');
+    });
+
+    it('suggests |= for an operator missing its =', () => {
+        expect(errorOf('PORTB | (1<<3);')?.fix).toBe('did you mean `|=`?');
+    });
+});
+
+describe('diagnostics', () => {
+    const firstError = (code: string) => parsePartial(code, device).errors[0];
+
+    it('locates an error by line and column', () => {
+        expect(firstError('PORTB = 1;\nDDRB |= (1 << PB9);')).toEqual({
+            code: 'unknown-identifier', severity: 'error', message: 'Unknown name: PB9',
+            span: { start: 25, end: 28, line: 2, column: 15 }, fix: 'did you mean `PB0`?',
+        });
+    });
+
+    it('suggests the name a typo was meant to be', () => {
+        expect(firstError('PROTB = 1;')?.fix).toBe('did you mean `PORTB`?');
+        expect(firstError('portb = 1;')?.fix).toBe('did you mean `PORTB`?');
+    });
+
+    it('asks for a missing bracket where it belongs', () => {
+        expect(firstError('PORTB |= (1<<PB3;')).toMatchObject({
+            code: 'missing-paren', message: "Missing ')' before ';'", span: { start: 16, end: 17 }, fix: 'add `)`',
+        });
+    });
+
+    it('explains a comparison written as a statement', () => {
+        expect(firstError('PORTB == 1;')).toMatchObject({ code: 'expected-assignment', fix: 'did you mean `=`?' });
+    });
+});
+
+describe('incremental parsing', () => {
+    const programs = [
+        'if (PINA & (1<<PA2)) { PORTB |= (1<<PB7); } else PORTB &= ~(1<<PB7);',
+        'uint8_t mask = (1<<PB0) | (1<<PB3);\nfor (uint8_t i = 0; i < 3; i++) { PORTB ^= mask; }',
+        'DDRB =| (1<<DDB5); PORTB = x++; while (!(UCSR0A & (1<<UDRE0))) ;',
+        'loop_until_bit_is_set(ADCSRA, ADIF); ADCSRA |= _BV(ADIF); OCR1A = 1000;',
+    ];
+
+    it.each(programs)('matches a fresh parse after every key of %s', program => {
+        for (let i = 1; i <= program.length; i++) {
+            const code = program.slice(0, i);
+            // A copy of the device has no earlier parses to pick up from
+            expect(parsePartial(code, device)).toEqual(parsePartial(code, { ...device }));
+        }
+    });
+
+    it('matches a fresh parse after deleting each character', () => {
+        const program = programs[0];
+        parsePartial(program, device);
+        for (let i = program.length - 1; i >= 0; i--) {
+            const code = program.slice(0, i) + program.slice(i + 1);
+            expect(parsePartial(code, device)).toEqual(parsePartial(code, { ...device }));
+        }
+    });
+});
+
+describe('partial parses', () => {
+    it('parses unfinished code into a missing operand and the brackets still open', () => {
+        const partial = parsePartial('PORTB |= (1 << ', device);
+        expect(partial.program.body[0]).toMatchObject({
+            kind: 'assign', op: '|=', value: { kind: 'binary', op: '<<', right: { kind: 'missing' } },
+        });
+        expect(partial.closers).toBe(')');
+        expect(partial.errors.length).toBeGreaterThan(0);
+    });
+
+    it('keeps the statements around one it cannot get past', () => {
+        const partial = parsePartial('PORTB = 1; PORTB = = 2; PORTB = 3;', device);
+        expect(partial.statements.map(s => s.node !== null)).toEqual([true, false, true]);
+        expect(partial.program.body).toHaveLength(2);
+    });
+});
@@ -0,0 +1,961 @@
+// Parser for answers: C-style statements in, an AST (ast.ts) out
+// Statements: =, |=, &=, ^=, +=, -=, *=, /=, %=, <<=, >>= assignments, ++ and --
+// Control flow: if/else, while, for, { } blocks
+// Local variables: uint8_t, int8_t, uint16_t, int16_t, int (volatile/const allowed)
+// Operators: every C operator except assignment inside an expression, with C
+// precedence: ?:, ||, &&, |, ^, &, == !=, < > <= >=, << >>, + -, * / %, unary ~ ! - + ++ --
+// Literals: hex (0xFF), decimal, binary (0b1010); // and /* */ comments
+// Named identifiers: PA3, RXEN0, etc.; register names read the current value
+// avr-libc macros: _BV(), bit_is_set(), bit_is_clear(),
+// loop_until_bit_is_set(), loop_until_bit_is_clear()
+
+import { bitBelongsTo, type DeviceProfile } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import {
+    DiagnosticError, didYouMean, joinSpans,
+    type Diagnostic, type DiagnosticCode, type SourceSpan,
+} from './diagnostics';
+import {
+    registersIn, walkExpression,
+    type Assignment, type AssignOperator, type BinaryOperator, type Block, type Declaration, type Declarator,
+    type Expression, type ForStatement, type IfStatement, type Increment, type MacroCall, type NameReference,
+    type Program, type Statement, type UnaryOperator, type Wait, type WaitMacro, type WhileStatement,
+} from './ast';
+
+// Token types
+type TokenType =
+    | 'NUMBER' | 'IDENTIFIER' | 'LPAREN' | 'RPAREN'
+    | 'OR' | 'AND' | 'XOR' | 'NOT' | 'LSHIFT' | 'RSHIFT'
+    | 'PLUS' | 'MINUS' | 'STAR' | 'SLASH' | 'PERCENT' | 'INC' | 'DEC'
+    | 'LOGICAL_OR' | 'LOGICAL_AND' | 'BANG' | 'QUESTION' | 'COLON'
+    | 'EQ' | 'NE' | 'LT' | 'GT' | 'LE' | 'GE'
+    | 'ASSIGN' | 'OR_ASSIGN' | 'AND_ASSIGN' | 'XOR_ASSIGN'
+    | 'ADD_ASSIGN' | 'SUB_ASSIGN' | 'MUL_ASSIGN' | 'DIV_ASSIGN' | 'MOD_ASSIGN'
+    | 'LSHIFT_ASSIGN' | 'RSHIFT_ASSIGN'
+    | 'LBRACE' | 'RBRACE' | 'COMMA' | 'SEMICOLON' | 'EOF';
+
+// Text of the tokens expect() can ask for, other than IDENTIFIER
+const PUNCTUATION: Partial<Record<TokenType, string>> = {
+    LPAREN: '(', RPAREN: ')', LBRACE: '{', COMMA: ',', SEMICOLON: ';', COLON: ':',
+};
+
+function describeToken(t: Token): string {
+    return t.type === 'EOF' ? 'the end of the code' : `'${t.value}'`;
+}
+
+const COMPOUND_ASSIGNMENTS = new Set(['|=', '&=', '^=', '+=', '-=', '*=', '/=', '%=', '<<=', '>>=']);
+
+const MACROS = ['_BV', 'bit_is_set', 'bit_is_clear', 'loop_until_bit_is_set', 'loop_until_bit_is_clear'];
+
+const ASSIGN_OPERATORS = new Set<TokenType>([
+    'ASSIGN', 'OR_ASSIGN', 'AND_ASSIGN', 'XOR_ASSIGN',
+    'ADD_ASSIGN', 'SUB_ASSIGN', 'MUL_ASSIGN', 'DIV_ASSIGN', 'MOD_ASSIGN',
+    'LSHIFT_ASSIGN', 'RSHIFT_ASSIGN',
+]);
+
+// int is 16 bits on AVR
+export const INT_MASK = 0xFFFF;
+
+interface Token {
+    type: TokenType;
+    value: string;
+    numValue?: number;
+    span: SourceSpan;
+}
+
+// Tokens from the start, or from just after the token `after`, ending with
+// EOF. Bad characters and empty 0x / 0b literals are reported and skipped
+// over rather than thrown, so the tokens of the rest of the code are still there.
+function tokenize(input: string, after?: Token): { tokens: Token[]; errors: Diagnostic[] } {
+    const tokens: Token[] = [];
+    const errors: Diagnostic[] = [];
+    let i = after?.span.end ?? 0;
+    const s = input;
+    // Lines are counted as the scan moves forward, not from the start for every token
+    let line = after?.span.line ?? 1;
+    let lineStart = after ? after.span.start - after.span.column + 1 : 0;
+    let counted = after?.span.start ?? 0;
+    const spanOf = (start: number, end: number): SourceSpan => {
+        for (; counted < start; counted++) {
+            if (s[counted] === '\n') {
+                line++;
+                lineStart = counted + 1;
+            }
+        }
+        return { start, end, line, column: start - lineStart + 1 };
+    };
+    // Fixed-text token starting at i
+    const push = (type: TokenType, value: string) => {
+        tokens.push({ type, value, span: spanOf(i, i + value.length) });
+    };
+
+    while (i < s.length) {
+        // Skip whitespace
+        if (/\s/.test(s[i])) { i++; continue; }
+
+        // Comments
+        if (s.startsWith('//', i)) {
+            while (i < s.length && s[i] !== '\n') i++;
+            continue;
+        }
+        if (s.startsWith('/*', i)) {
+            const end = s.indexOf('*/', i + 2);
+            i = end < 0 ? s.length : end + 2;
+            continue;
+        }
+
+        // Semicolon
+        if (s[i] === ';') { push('SEMICOLON', ';'); i++; continue; }
+        if (s[i] === ',') { push('COMMA', ','); i++; continue; }
+
+        // Three-char operators
+        if (s.startsWith('<<=', i)) { push('LSHIFT_ASSIGN', '<<='); i += 3; continue; }
+        if (s.startsWith('>>=', i)) { push('RSHIFT_ASSIGN', '>>='); i += 3; continue; }
+
+        // Two-char operators
+        if (i + 1 < s.length) {
+            const two = s.substring(i, i + 2);
+            if (two === '|=') { push('OR_ASSIGN', '|='); i += 2; continue; }
+            if (two === '&=') { push('AND_ASSIGN', '&='); i += 2; continue; }
+            if (two === '^=') { push('XOR_ASSIGN', '^='); i += 2; continue; }
+            if (two === '<<') { push('LSHIFT', '<<'); i += 2; continue; }
+            if (two === '>>') { push('RSHIFT', '>>'); i += 2; continue; }
+            if (two === '||') { push('LOGICAL_OR', '||'); i += 2; continue; }
+            if (two === '&&') { push('LOGICAL_AND', '&&'); i += 2; continue; }
+            if (two === '==') { push('EQ', '=='); i += 2; continue; }
+            if (two === '!=') { push('NE', '!='); i += 2; continue; }
+            if (two === '<=') { push('LE', '<='); i += 2; continue; }
+            if (two === '>=') { push('GE', '>='); i += 2; continue; }
+            if (two === '++') { push('INC', '++'); i += 2; continue; }
+            if (two === '--') { push('DEC', '--'); i += 2; continue; }
+            if (two === '+=') { push('ADD_ASSIGN', '+='); i += 2; continue; }
+            if (two === '-=') { push('SUB_ASSIGN', '-='); i += 2; continue; }
+            if (two === '*=') { push('MUL_ASSIGN', '*='); i += 2; continue; }
+            if (two === '/=') { push('DIV_ASSIGN', '/='); i += 2; continue; }
+            if (two === '%=') { push('MOD_ASSIGN', '%='); i += 2; continue; }
+        }
+
+        // Single-char operators
+        if (s[i] === '=') { push('ASSIGN', '='); i++; continue; }
+        if (s[i] === '|') { push('OR', '|'); i++; continue; }
+        if (s[i] === '&') { push('AND', '&'); i++; continue; }
+        if (s[i] === '^') { push('XOR', '^'); i++; continue; }
+        if (s[i] === '~') { push('NOT', '~'); i++; continue; }
+        if (s[i] === '!') { push('BANG', '!'); i++; continue; }
+        if (s[i] === '<') { push('LT', '<'); i++; continue; }
+        if (s[i] === '>') { push('GT', '>'); i++; continue; }
+        if (s[i] === '+') { push('PLUS', '+'); i++; continue; }
+        if (s[i] === '-') { push('MINUS', '-'); i++; continue; }
+        if (s[i] === '*') { push('STAR', '*'); i++; continue; }
+        if (s[i] === '/') { push('SLASH', '/'); i++; continue; }
+        if (s[i] === '%') { push('PERCENT', '%'); i++; continue; }
+        if (s[i] === '?') { push('QUESTION', '?'); i++; continue; }
+        if (s[i] === ':') { push('COLON', ':'); i++; continue; }
+        if (s[i] === '(') { push('LPAREN', '('); i++; continue; }
+        if (s[i] === ')') { push('RPAREN', ')'); i++; continue; }
+        if (s[i] === '{') { push('LBRACE', '{'); i++; continue; }
+        if (s[i] === '}') { push('RBRACE', '}'); i++; continue; }
+
+        // Numbers: hex (0x..), binary (0b..), decimal
+        if (/[0-9]/.test(s[i])) {
+            const start = i;
+            let numStr = '';
+            let numValue: number;
+            if (s[i] === '0' && i + 1 < s.length && (s[i + 1] === 'x' || s[i + 1] === 'X')) {
+                numStr = '0x';
+                i += 2;
+                while (i < s.length && /[0-9a-fA-F]/.test(s[i])) { numStr += s[i]; i++; }
+                numValue = parseInt(numStr, 16);
+            } else if (s[i] === '0' && i + 1 < s.length && (s[i + 1] === 'b' || s[i + 1] === 'B')) {
+                numStr = '0b';
+                i += 2;
+                while (i < s.length && /[01]/.test(s[i])) { numStr += s[i]; i++; }
+                numValue = parseInt(numStr.substring(2), 2);
+            } else {
+                while (i < s.length && /[0-9]/.test(s[i])) { numStr += s[i]; i++; }
+                numValue = parseInt(numStr, 10);
+            }
+            const span = spanOf(start, i);
+            if (isNaN(numValue)) {
+                errors.push({
+                    code: 'unexpected-token', severity: 'error', span,
+                    message: `'${numStr}' has no digits`,
+                    fix: numStr === '0x' ? 'hex digits follow `0x`, e.g. `0x20`' : 'binary digits follow `0b`, e.g. `0b00100000`',
+                });
+                numValue = 0;
+            }
+            tokens.push({ type: 'NUMBER', value: numStr, numValue: numValue & INT_MASK, span });
+            continue;
+        }
+
+        // Identifiers (register names, bit names)
+        if (/[a-zA-Z_]/.test(s[i])) {
+            const start = i;
+            let id = '';
+            while (i < s.length && /[a-zA-Z0-9_]/.test(s[i])) { id += s[i]; i++; }
+            tokens.push({ type: 'IDENTIFIER', value: id, span: spanOf(start, i) });
+            continue;
+        }
+
+        errors.push({
+            code: 'unexpected-character', severity: 'error',
+            message: `Unexpected character '${s[i]}'`,
+            span: spanOf(i, i + 1),
+        });
+        i++;
+    }
+
+    // End of input sits just after the last non-blank character
+    const end = input.trimEnd().length;
+    tokens.push({ type: 'EOF', value: '', span: spanOf(end, end) });
+    return { tokens, errors };
+}
+
+
+// What to do when a named bit is used with a register it does not belong to,
+// e.g. UCSR0B |= (1<<ADEN)
+export type BitNameCheck = 'off' | 'warn' | 'error';
+
+// Local variable types: width and signedness (int is 16 bits on AVR)
+export const C_TYPES: Record<string, { bits: 8 | 16; signed: boolean }> = {
+    uint8_t: { bits: 8, signed: false },
+    int8_t: { bits: 8, signed: true },
+    uint16_t: { bits: 16, signed: false },
+    int16_t: { bits: 16, signed: true },
+    int: { bits: 16, signed: true },
+};
+
+const TYPE_QUALIFIERS = new Set(['volatile', 'const']);
+const KEYWORDS = new Set(['if', 'else', 'while', 'for', ...TYPE_QUALIFIERS, ...Object.keys(C_TYPES)]);
+
+const BINARY_OPERATORS: Partial<Record<TokenType, BinaryOperator>> = {
+    LOGICAL_OR: '||', LOGICAL_AND: '&&', OR: '|', XOR: '^', AND: '&',
+    EQ: '==', NE: '!=', LT: '<', GT: '>', LE: '<=', GE: '>=',
+    LSHIFT: '<<', RSHIFT: '>>', PLUS: '+', MINUS: '-', STAR: '*', SLASH: '/', PERCENT: '%',
+};
+
+// Binary operators from loosest to tightest binding; each level is left-associative
+const PRECEDENCE: TokenType[][] = [
+    ['LOGICAL_OR'],
+    ['LOGICAL_AND'],
+    ['OR'],
+    ['XOR'],
+    ['AND'],
+    ['EQ', 'NE'],
+    ['LT', 'GT', 'LE', 'GE'],
+    ['LSHIFT', 'RSHIFT'],
+    ['PLUS', 'MINUS'],
+    ['STAR', 'SLASH', 'PERCENT'],
+];
+
+const UNARY_OPERATORS: Partial<Record<TokenType, UnaryOperator>> = {
+    NOT: '~', BANG: '!', MINUS: '-', PLUS: '+',
+};
+
+// A declared local variable, as far as parsing cares
+interface Declared {
+    type: string;
+    isConst: boolean;
+}
+
+// One top-level statement and what parsing it gave; kept from one parse to
+// the next so the statements before an edit are not parsed again
+interface StatementRecord {
+    node: Statement | null;     // null when the statement has an error it cannot get past
+    end: number;                // index of the token after it
+    reach: number;              // index of the furthest token parsing it looked at
+    span: SourceSpan;
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+    declared: [string, Declared][];   // top-level variables it declares
+}
+
+// Recursive descent parser. Names are resolved as they are read (block
+// scopes decide what is a variable), so unknown names, const writes and
+// misplaced bit names are reported here rather than while running.
+// Code that ends early is recorded as an error and parsing carries on as if
+// the missing parts were there (a `missing` operand, a closing ')' or '}'),
+// so the statement being typed still gets a node. Any other error ends the
+// statement; parsing picks up again after it.
+class Parser {
+    private tokens: Token[];
+    private pos: number;
+    // Index of the furthest token looked at so far
+    private reach = 0;
+    private device: DeviceProfile;
+    private bitNameCheck: BitNameCheck;
+    // Block scopes of local variables, innermost last
+    private scopes: Map<string, Declared>[] = [new Map()];
+    diagnostics: Diagnostic[] = [];   // warnings so far
+    errors: Diagnostic[] = [];        // errors so far
+
+    constructor(tokens: Token[], device: DeviceProfile, bitNameCheck: BitNameCheck = 'warn') {
+        this.tokens = tokens;
+        this.pos = 0;
+        this.device = device;
+        this.bitNameCheck = bitNameCheck;
+    }
+
+    // Flag bit names that belong to none of the registers in a statement
+    private checkBitOwners(...parts: Expression[]): void {
+        if (this.bitNameCheck === 'off') return;
+        const registers = [...new Set(parts.flatMap(registersIn))];
+        if (registers.length === 0) return;
+        for (const part of parts) {
+            walkExpression(part, bit => {
+                if (bit.kind !== 'name' || bit.ref !== 'bit') return;
+                if (registers.some(r => bitBelongsTo(this.device, bit.name, r))) return;
+
+                const message = `${bit.name} is a bit of ${this.device.bitOwners[bit.name].join('/')}, not ${registers.join('/')}`;
+                if (this.bitNameCheck === 'error') this.fail('bit-name-mismatch', message, bit.span);
+                this.warn('bit-name-mismatch', message, bit.span);
+            });
+        }
+    }
+
+    private fail(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): never {
+        throw new DiagnosticError({ code, severity: 'error', message, span, ...(fix ? { fix } : {}) });
+    }
+
+    private warn(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): void {
+        if (this.diagnostics.some(d => d.message === message && d.span.start === span.start)) return;
+        this.diagnostics.push({ code, severity: 'warning', message, span, ...(fix ? { fix } : {}) });
+    }
+
+    // The code ended where more was needed: record it and carry on
+    private incomplete(code: DiagnosticCode, message: string, span: SourceSpan, fix?: string): void {
+        this.errors.push({ code, severity: 'error', message, span, ...(fix ? { fix } : {}) });
+    }
+
+    // Span from the token at `start` to the last token consumed
+    private spanFrom(start: number): SourceSpan {
+        return joinSpans(this.tokens[start].span, this.tokens[Math.max(start, this.pos - 1)].span);
+    }
+
+    // Names that could have been meant by an unknown identifier
+    private knownNames(): string[] {
+        return [
+            ...this.device.allRegisterNames,
+            ...Object.keys(this.device.allNamedBits),
+            ...this.scopes.flatMap(scope => [...scope.keys()]),
+        ];
+    }
+
+    private lookupVariable(name: string): Declared | undefined {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const variable = this.scopes[i].get(name);
+            if (variable) return variable;
+        }
+        return undefined;
+    }
+
+    // Parse `fn` inside a new block scope
+    private scoped<T>(fn: () => T): T {
+        this.scopes.push(new Map());
+        try {
+            return fn();
+        } finally {
+            this.scopes.pop();
+        }
+    }
+
+    private peek(): Token {
+        this.reach = Math.max(this.reach, this.pos);
+        return this.tokens[this.pos] ?? this.tokens[this.tokens.length - 1];
+    }
+
+    // The token after the next one, if there is one
+    private peekSecond(): Token | undefined {
+        this.reach = Math.max(this.reach, this.pos + 1);
+        return this.tokens[this.pos + 1];
+    }
+
+    private advance(): Token {
+        const t = this.tokens[this.pos];
+        this.pos++;
+        return t;
+    }
+
+    private expect(type: TokenType): Token {
+        const t = this.peek();
+        if (t.type !== type) {
+            const punctuation = PUNCTUATION[type];
+            if (punctuation) {
+                const code = type === 'RPAREN' ? 'missing-paren' : 'missing-token';
+                const message = `Missing '${punctuation}' before ${describeToken(t)}`;
+                if (t.type !== 'EOF') this.fail(code, message, t.span, `add \`${punctuation}\``);
+                // Stand in for the token the code has not reached yet
+                this.incomplete(code, message, t.span, `add \`${punctuation}\``);
+                return { type, value: punctuation, span: t.span };
+            }
+            this.fail('unexpected-token', `Expected a name but got ${describeToken(t)}`, t.span);
+        }
+        return this.advance();
+    }
+
+    private isKeyword(word: string): boolean {
+        const t = this.peek();
+        return t.type === 'IDENTIFIER' && t.value === word;
+    }
+
+    // Parse a full expression (right-hand side)
+    parseExpression(): Expression {
+        return this.parseConditional();
+    }
+
+    // cond ? a : b
+    private parseConditional(): Expression {
+        const start = this.pos;
+        const test = this.parseBinary(0);
+        if (this.peek().type !== 'QUESTION') return test;
+        this.advance();
+        const consequent = this.parseExpression();
+        this.expect('COLON');
+        const alternate = this.parseConditional();
+        return { kind: 'conditional', test, consequent, alternate, span: this.spanFrom(start) };
+    }
+
+    // Binary operators at PRECEDENCE[level] and tighter
+    private parseBinary(level: number): Expression {
+        if (level === PRECEDENCE.length) return this.parseUnary();
+        const start = this.pos;
+        let left = this.parseBinary(level + 1);
+        while (PRECEDENCE[level].includes(this.peek().type)) {
+            const opToken = this.advance();
+            const right = this.parseBinary(level + 1);
+            left = {
+                kind: 'binary', op: BINARY_OPERATORS[opToken.type]!, left, right,
+                opSpan: opToken.span, span: this.spanFrom(start),
+            };
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        const start = this.pos;
+        const type = this.peek().type;
+        const op = UNARY_OPERATORS[type];
+        if (op) {
+            this.advance();
+            const operand = this.parseUnary();
+            return { kind: 'unary', op, operand, span: this.spanFrom(start) };
+        }
+        if (type === 'INC' || type === 'DEC') {
+            // ++x / --x yields the new value
+            const op = this.advance().value as '++' | '--';
+            const target = this.parseTarget();
+            return { kind: 'update', op, prefix: true, target, span: this.spanFrom(start) };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Expression {
+        const t = this.peek();
+
+        if (t.type === 'NUMBER') {
+            this.advance();
+            return { kind: 'number', value: t.numValue!, raw: t.value, span: t.span };
+        }
+
+        if (t.type === 'IDENTIFIER') {
+            const next = this.peekSecond()?.type;
+            if (next === 'INC' || next === 'DEC') {
+                // x++ / x-- yields the old value
+                const start = this.pos;
+                const target = this.parseTarget();
+                const op = this.advance().value as '++' | '--';
+                return { kind: 'update', op, prefix: false, target, span: this.spanFrom(start) };
+            }
+            if (next !== undefined && ASSIGN_OPERATORS.has(next)) {
+                const opToken = this.peekSecond()!;
+                if (opToken.value === '=') {
+                    this.fail('assignment-in-expression', `'${t.value} =' assigns inside an expression`, opToken.span, 'did you mean `==`?');
+                }
+                this.fail('assignment-in-expression', `'${t.value} ${opToken.value}' assigns inside an expression`, opToken.span,
+                    'put the assignment in its own statement');
+            }
+
+            this.advance();
+            if (this.peek().type === 'LPAREN') {
+                return this.parseCall(t);
+            }
+            if (this.lookupVariable(t.value)) {
+                return { kind: 'name', name: t.value, ref: 'variable', span: t.span };
+            }
+            if (t.value in this.device.allNamedBits) {
+                return { kind: 'name', name: t.value, ref: 'bit', span: t.span };
+            }
+            // A register name reads its current value
+            if (this.device.allRegisterNames.has(t.value)) {
+                return { kind: 'name', name: t.value, ref: 'register', span: t.span };
+            }
+            this.fail('unknown-identifier', `Unknown name: ${t.value}`, t.span, didYouMean(t.value, this.knownNames()));
+        }
+
+        if (t.type === 'LPAREN') {
+            this.advance();
+            const expression = this.parseExpression();
+            this.expect('RPAREN');
+            return expression;
+        }
+
+        if (t.type === 'EOF') {
+            this.incomplete('incomplete-code', 'The expression is incomplete', t.span, 'add a value, e.g. `(1<<PB5)`');
+            return { kind: 'missing', span: t.span };
+        }
+        this.fail('unexpected-token', `Expected a value but got ${describeToken(t)}`, t.span);
+    }
+
+    // The sfr argument of the avr-libc bit macros must name a register
+    private parseRegisterArgument(macro: string): NameReference {
+        const t = this.peek();
+        if (t.type !== 'IDENTIFIER' || !this.device.allRegisterNames.has(t.value)) {
+            this.fail('macro-argument', `${macro}() expects a register as its first argument, got ${describeToken(t)}`, t.span,
+                t.type === 'IDENTIFIER' ? didYouMean(t.value, this.device.allRegisterNames) : undefined);
+        }
+        this.advance();
+        return { kind: 'name', name: t.value, ref: 'register', span: t.span };
+    }
+
+    // avr-libc macros used as values: _BV(bit), bit_is_set(sfr, bit), bit_is_clear(sfr, bit)
+    private parseCall(nameToken: Token): MacroCall {
+        const name = nameToken.value;
+        const start = this.pos - 1;
+        this.expect('LPAREN');
+        let args: Expression[];
+
+        switch (name) {
+            case '_BV':
+                args = [this.parseExpression()];
+                break;
+            case 'bit_is_set':
+            case 'bit_is_clear': {
+                const sfr = this.parseRegisterArgument(name);
+                this.expect('COMMA');
+                args = [sfr, this.parseExpression()];
+                break;
+            }
+            case 'loop_until_bit_is_set':
+            case 'loop_until_bit_is_clear':
+                this.fail('macro-misuse', `${name}() is a statement and has no value`, nameToken.span,
+                    `use \`${name === 'loop_until_bit_is_set' ? 'bit_is_set' : 'bit_is_clear'}()\` to test the bit`);
+            default:
+                this.fail('unknown-function', `Unknown function: ${name}()`, nameToken.span, didYouMean(name, MACROS));
+        }
+
+        this.expect('RPAREN');
+        return { kind: 'call', callee: name as MacroCall['callee'], args, span: this.spanFrom(start) };
+    }
+
+    // loop_until_bit_is_set(sfr, bit); / loop_until_bit_is_clear(sfr, bit);
+    private parseWait(macro: WaitMacro): Wait {
+        const start = this.pos;
+        this.advance();
+        this.expect('LPAREN');
+        const register = this.parseRegisterArgument(macro);
+        this.expect('COMMA');
+        const bit = this.parseExpression();
+        this.expect('RPAREN');
+        const span = this.spanFrom(start);
+
+        this.checkBitOwners(register, bit);
+        if (this.peek().type === 'SEMICOLON') {
+            this.advance();
+        }
+        return { kind: 'wait', macro, register, bit, span };
+    }
+
+    private parseAssignOp(): AssignOperator {
+        const opToken = this.peek();
+        // PORTB =| (1<<3) — a compound operator written the wrong way round
+        const next = this.peekSecond();
+        if (opToken.type === 'ASSIGN' && next && (next.type === 'OR' || next.type === 'AND' || next.type === 'XOR') && next.span.start === opToken.span.end) {
+            this.fail('expected-assignment', `'=${next.value}' is not an operator`, joinSpans(opToken.span, next.span), `did you mean \`${next.value}=\`?`);
+        }
+        if (ASSIGN_OPERATORS.has(opToken.type)) {
+            this.advance();
+            return opToken.value as AssignOperator;
+        }
+
+        // PORTB | (1<<3) — an operator missing its '='; PORTB == 1 — one '=' too many
+        const compound = `${opToken.value}=`;
+        const fix = opToken.type === 'EQ' ? 'did you mean `=`?'
+            : COMPOUND_ASSIGNMENTS.has(compound) ? `did you mean \`${compound}\`?`
+            : 'use `=`, `|=`, `&=` or `^=`';
+        this.fail('expected-assignment', `Expected an assignment operator but got ${describeToken(opToken)}`, opToken.span, fix);
+    }
+
+    // A register or variable name that is written to
+    private parseTarget(): NameReference {
+        const t = this.expect('IDENTIFIER');
+        const name = t.value;
+        const variable = this.lookupVariable(name);
+        if (variable) {
+            if (variable.isConst) {
+                this.fail('const-assignment', `${name} is const and cannot be assigned`, t.span, `drop \`const\` from its declaration`);
+            }
+            return { kind: 'name', name, ref: 'variable', span: t.span };
+        }
+        if (!this.device.allRegisterNames.has(name)) {
+            this.fail('unknown-identifier', `Unknown register or variable: ${name}`, t.span,
+                didYouMean(name, [...this.knownNames(), ...Object.keys(C_TYPES)]));
+        }
+        return { kind: 'name', name, ref: 'register', span: t.span };
+    }
+
+    // target op= expression, ++target, target++ (no semicolon — also used in for headers)
+    private parseAssignment(): Assignment | Increment {
+        const start = this.pos;
+        if (this.peek().type === 'INC' || this.peek().type === 'DEC') {
+            const op = this.advance().value as '++' | '--';
+            const target = this.parseTarget();
+            return { kind: 'increment', op, prefix: true, target, span: this.spanFrom(start) };
+        }
+
+        const target = this.parseTarget();
+        if (this.peek().type === 'INC' || this.peek().type === 'DEC') {
+            const op = this.advance().value as '++' | '--';
+            return { kind: 'increment', op, prefix: false, target, span: this.spanFrom(start) };
+        }
+
+        const op = this.parseAssignOp();
+        const value = this.parseExpression();
+        this.checkBitOwners(target, value);
+        return { kind: 'assign', target, op, value, span: this.spanFrom(start) };
+    }
+
+    private isDeclarationStart(): boolean {
+        const t = this.peek();
+        return t.type === 'IDENTIFIER' && (TYPE_QUALIFIERS.has(t.value) || t.value in C_TYPES);
+    }
+
+    // [volatile] [const] type name [= expr] {, name [= expr]} (no semicolon)
+    private parseDeclaration(): Declaration {
+        const start = this.pos;
+        const qualifiers: Declaration['qualifiers'] = [];
+        while (TYPE_QUALIFIERS.has(this.peek().value)) {
+            qualifiers.push(this.advance().value as 'volatile' | 'const');
+        }
+        const isConst = qualifiers.includes('const');
+        const typeToken = this.expect('IDENTIFIER');
+        const type = typeToken.value;
+        if (!(type in C_TYPES)) {
+            this.fail('unknown-type', `Unknown type: ${type}`, typeToken.span,
+                didYouMean(type, Object.keys(C_TYPES)) ?? `use ${Object.keys(C_TYPES).join(', ')}`);
+        }
+
+        const scope = this.scopes[this.scopes.length - 1];
+        const declarators: Declarator[] = [];
+        for (;;) {
+            const declaratorStart = this.pos;
+            const nameToken = this.expect('IDENTIFIER');
+            const name = nameToken.value;
+            const clash = KEYWORDS.has(name) ? 'a keyword'
+                : this.device.allRegisterNames.has(name) ? 'a register'
+                : name in this.device.allNamedBits ? 'a bit name'
+                : null;
+            if (clash) this.fail('reserved-name', `'${name}' is ${clash} and cannot name a variable`, nameToken.span);
+            if (scope.has(name)) this.fail('redeclared', `'${name}' is already declared`, nameToken.span, 'drop the type to assign to it');
+
+            let init: Expression | null = null;
+            if (this.peek().type === 'ASSIGN') {
+                this.advance();
+                init = this.parseExpression();
+                this.checkBitOwners(init);
+            } else if (isConst) {
+                this.fail('missing-initializer', `const ${name} needs an initial value`, nameToken.span, `add \`= value\` after ${name}`);
+            }
+            scope.set(name, { type, isConst });
+            declarators.push({ name, init, span: this.spanFrom(declaratorStart) });
+
+            if (this.peek().type !== 'COMMA') break;
+            this.advance();
+        }
+        return { kind: 'declaration', qualifiers, type, declarators, span: this.spanFrom(start) };
+    }
+
+    // ( condition )
+    private parseCondition(): Expression {
+        this.expect('LPAREN');
+        const test = this.parseExpression();
+        this.checkBitOwners(test);
+        this.expect('RPAREN');
+        return test;
+    }
+
+    // if (cond) stmt [else stmt]
+    private parseIf(): IfStatement {
+        const start = this.pos;
+        this.advance();
+        const test = this.parseCondition();
+        const consequent = this.parseStatement(false);
+        let alternate: Statement | null = null;
+        if (this.isKeyword('else')) {
+            this.advance();
+            alternate = this.parseStatement(false);
+        }
+        return { kind: 'if', test, consequent, alternate, span: this.spanFrom(start) };
+    }
+
+    // while (cond) stmt
+    private parseWhile(): WhileStatement {
+        const start = this.pos;
+        const keyword = this.advance();
+        const test = this.parseCondition();
+        const body = this.parseStatement(false);
+        return { kind: 'while', test, body, keywordSpan: keyword.span, span: this.spanFrom(start) };
+    }
+
+    // for (init; cond; update) stmt — variables declared in the header belong to the loop
+    private parseFor(): ForStatement {
+        const start = this.pos;
+        const keyword = this.advance();
+        this.expect('LPAREN');
+        return this.scoped(() => {
+            const init = this.isDeclarationStart() ? this.parseDeclaration()
+                : this.peek().type !== 'SEMICOLON' ? this.parseAssignment()
+                : null;
+            this.expect('SEMICOLON');
+
+            let test: Expression | null = null;
+            if (this.peek().type !== 'SEMICOLON') {
+                test = this.parseExpression();
+                this.checkBitOwners(test);
+            }
+            this.expect('SEMICOLON');
+
+            const update = this.peek().type !== 'RPAREN' ? this.parseAssignment() : null;
+            this.expect('RPAREN');
+            const body = this.parseStatement(false);
+            return { kind: 'for', init, test, update, body, keywordSpan: keyword.span, span: this.spanFrom(start) };
+        });
+    }
+
+    // { stmt* } — a new scope for local variables
+    private parseBlock(): Block {
+        const start = this.pos;
+        const open = this.expect('LBRACE');
+        const body = this.scoped(() => {
+            const statements: Statement[] = [];
+            while (this.peek().type !== 'RBRACE') {
+                if (this.peek().type === 'EOF') {
+                    this.incomplete('missing-brace', `Missing '}' to close the block opened on line ${open.span.line}`, this.peek().span, 'add `}`');
+                    break;
+                }
+                statements.push(this.parseStatement());
+            }
+            return statements;
+        });
+        if (this.peek().type === 'RBRACE') this.advance();
+        return { kind: 'block', body, span: this.spanFrom(start) };
+    }
+
+    // One statement: a declaration, an assignment, a busy-wait, a block or
+    // control flow. The body of an if or loop cannot be a bare declaration,
+    // as in C.
+    parseStatement(allowDeclaration = true): Statement {
+        const t = this.peek();
+        if (t.type === 'EOF') {
+            this.incomplete('incomplete-code', 'Expected a statement but the code ended', t.span);
+            return { kind: 'empty', span: t.span };
+        }
+        if (t.type === 'SEMICOLON') { this.advance(); return { kind: 'empty', span: t.span }; }
+        if (t.type === 'LBRACE') return this.parseBlock();
+        if (t.type === 'RBRACE') this.fail('unexpected-token', `Unexpected '}'`, t.span, 'remove it, or add the `{` it closes');
+
+        if (t.type === 'IDENTIFIER') {
+            switch (t.value) {
+                case 'if': return this.parseIf();
+                case 'while': return this.parseWhile();
+                case 'for': return this.parseFor();
+                case 'else': this.fail('else-without-if', `'else' without a matching 'if'`, t.span);
+                case 'loop_until_bit_is_set':
+                case 'loop_until_bit_is_clear':
+                    return this.parseWait(t.value);
+            }
+        }
+
+        let statement: Statement;
+        if (this.isDeclarationStart()) {
+            if (!allowDeclaration) this.fail('declaration-needs-block', 'A declaration here needs { } around it', t.span, 'wrap it in `{ }`');
+            statement = this.parseDeclaration();
+        } else {
+            statement = this.parseAssignment();
+        }
+
+        // Optional semicolon
+        if (this.peek().type === 'SEMICOLON') {
+            this.advance();
+        }
+        return statement;
+    }
+
+    // After an error, skip to the end of the statement: its ';' or the '}'
+    // closing the block it opened
+    private skipStatement(start: number): void {
+        let depth = 0;
+        for (let i = start; ; i++) {
+            const type = this.tokens[i].type;
+            if (type === 'EOF') {
+                this.pos = i;
+                return;
+            }
+            if (type === 'LBRACE') depth++;
+            if ((type === 'SEMICOLON' && depth === 0) || (type === 'RBRACE' && --depth <= 0)) {
+                this.pos = i + 1;
+                return;
+            }
+        }
+    }
+
+    // Every top-level statement, carrying on after the `reused` ones
+    parseStatements(reused: StatementRecord[]): StatementRecord[] {
+        const records = [...reused];
+        for (const record of reused) {
+            for (const [name, variable] of record.declared) this.scopes[0].set(name, variable);
+            this.diagnostics.push(...record.warnings);
+        }
+        this.pos = reused.at(-1)?.end ?? 0;
+
+        while (this.peek().type !== 'EOF') {
+            const start = this.pos;
+            const errorCount = this.errors.length;
+            const warningCount = this.diagnostics.length;
+            const declaredCount = this.scopes[0].size;
+            this.reach = start;
+            let node: Statement | null = null;
+            try {
+                node = this.parseStatement();
+            } catch (e) {
+                if (!(e instanceof DiagnosticError)) throw e;
+                this.errors.push(e.diagnostic);
+                this.skipStatement(start);
+            }
+            records.push({
+                node, end: this.pos, reach: Math.max(this.reach, this.pos), span: this.spanFrom(start),
+                errors: this.errors.slice(errorCount),
+                warnings: this.diagnostics.slice(warningCount),
+                declared: [...this.scopes[0]].slice(declaredCount),
+            });
+        }
+        return records;
+    }
+}
+
+/** A top-level statement of a partial parse */
+export interface PartialStatement {
+    node: Statement | null;     // null when the statement has an error it cannot get past
+    span: SourceSpan;
+    errors: Diagnostic[];
+}
+
+export interface PartialParse {
+    program: Program;           // the statements that have a node, incomplete ones included
+    statements: PartialStatement[];
+    errors: Diagnostic[];       // bad characters first, then parse errors in order
+    warnings: Diagnostic[];
+    closers: string;            // brackets still open at the end, innermost first, e.g. ')}'
+}
+
+// A parse kept to pick up from
+interface ParseState {
+    input: string;
+    tokens: Token[];
+    tokenErrors: Diagnostic[];
+    records: StatementRecord[];
+    result: PartialParse;
+}
+
+// Recent parses per device and bit name check, most recent first. More than
+// one is kept because answers are graded against a reference in turn.
+const RECENT_PARSES = 4;
+const recentParses = new WeakMap<DeviceProfile, Map<BitNameCheck, ParseState[]>>();
+
+function commonPrefixLength(a: string, b: string): number {
+    const max = Math.min(a.length, b.length);
+    let i = 0;
+    while (i < max && a[i] === b[i]) i++;
+    return i;
+}
+
+// Closing brackets for the ( and { left open, innermost first
+function unclosed(tokens: Token[]): string {
+    const open: string[] = [];
+    for (const t of tokens) {
+        if (t.type === 'LPAREN') open.push(')');
+        else if (t.type === 'LBRACE') open.push('}');
+        else if ((t.type === 'RPAREN' && open.at(-1) === ')') || (t.type === 'RBRACE' && open.at(-1) === '}')) open.pop();
+    }
+    return open.reverse().join('');
+}
+
+// Parse `code`, keeping what it shares with `previous`: a token is kept when
+// it and the character after it are unchanged, a statement when every token
+// parsing it looked at is kept. After an error that can be well past its end,
+// which is rewound to the ';' or '}'.
+function reparse(code: string, device: DeviceProfile, bitNameCheck: BitNameCheck, previous?: ParseState): ParseState {
+    let kept: Token[] = [];
+    let keptErrors: Diagnostic[] = [];
+    let reused: StatementRecord[] = [];
+    if (previous) {
+        const same = commonPrefixLength(previous.input, code);
+        let count = 0;
+        while (count < previous.tokens.length - 1 && previous.tokens[count].span.end < same) count++;
+        kept = previous.tokens.slice(0, count);
+        const resume = kept.at(-1)?.span.end ?? 0;
+        keptErrors = previous.tokenErrors.filter(e => e.span.end <= resume);
+        // Only a run from the start: a later statement may follow from how an
+        // earlier one failed
+        const changed = previous.records.findIndex(r => r.reach >= count);
+        reused = changed === -1 ? previous.records : previous.records.slice(0, changed);
+    }
+
+    const rest = tokenize(code, kept.at(-1));
+    const tokens = [...kept, ...rest.tokens];
+    const tokenErrors = [...keptErrors, ...rest.errors];
+    const records = new Parser(tokens, device, bitNameCheck).parseStatements(reused);
+
+    const result: PartialParse = {
+        program: { body: records.flatMap(r => (r.node ? [r.node] : [])) },
+        statements: records.map(({ node, span, errors }) => ({ node, span, errors })),
+        errors: [...tokenErrors, ...records.flatMap(r => r.errors)],
+        warnings: records.flatMap(r => r.warnings),
+        closers: unclosed(tokens),
+    };
+    return { input: code, tokens, tokenErrors, records, result };
+}
+
+/**
+ * Parse code that may be unfinished or wrong, e.g. an answer as it is typed.
+ * Never throws: errors come back alongside a partial AST, and an operand the
+ * code ends before is a `missing` node. Parsing picks up from the last parse
+ * of similar code, so only the statements from the first change on are
+ * parsed again. The result is shared; do not modify it.
+ */
+export function parsePartial(
+    code: string,
+    device: DeviceProfile = getActiveDevice(),
+    bitNameCheck: BitNameCheck = 'warn'
+): PartialParse {
+    let byCheck = recentParses.get(device);
+    if (!byCheck) recentParses.set(device, byCheck = new Map());
+    const recent = byCheck.get(bitNameCheck) ?? [];
+
+    const state = recent.find(s => s.input === code) ?? reparse(code, device, bitNameCheck, recent[0]);
+    byCheck.set(bitNameCheck, [state, ...recent.filter(s => s !== state)].slice(0, RECENT_PARSES));
+    return state.result;
+}
+
+/**
+ * Parse C-style statements into an AST, resolving names against the device.
+ * Throws a DiagnosticError at the first error; warnings come back alongside.
+ */
+export function parse(
+    code: string,
+    device: DeviceProfile = getActiveDevice(),
+    bitNameCheck: BitNameCheck = 'warn'
+): { program: Program; diagnostics: Diagnostic[] } {
+    const { program, errors, warnings } = parsePartial(code, device, bitNameCheck);
+    if (errors.length > 0) throw new DiagnosticError(errors[0]);
+    return { program, diagnostics: [...warnings] };
+}
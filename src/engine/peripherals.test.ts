@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { getDevice } from '../data/devices';
+import { evaluate } from './evaluator';
+import { ADC_CONVERSION_CYCLES, Peripherals, type PeripheralRegisters } from './peripherals';
+
+const device = getDevice('atmega328p')!;
+
+const ADEN = 0x80, ADSC = 0x40, ADIF = 0x10;
+const UDRE0 = 0x20, TXC0 = 0x40;
+
+const notes = (code: string) => evaluate(code, {}, device).steps.flatMap(s => s.note ?? []);
+
+// Registers held in a plain object, starting from their reset values
+function registers(): PeripheralRegisters & { values: Record<string, number> } {
+    const values: Record<string, number> = {};
+    return {
+        values,
+        read: name => values[name] ?? device.registerMap[name]?.resetValue ?? 0,
+        set: (name, value) => { values[name] = value; },
+    };
+}
+
+describe('ADC', () => {
+    it('clears ADSC and sets ADIF once the conversion is done', () => {
+        const regs = registers();
+        const peripherals = new Peripherals(device, regs);
+        regs.set('ADCSRA', ADEN | ADSC);
+        expect(peripherals.written('ADCSRA')).toEqual([`starts an ADC conversion (${ADC_CONVERSION_CYCLES} cycles)`]);
+        peripherals.tick(ADC_CONVERSION_CYCLES - 1);
+        expect(regs.values.ADCSRA).toBe(ADEN | ADSC);
+        expect(peripherals.tick()).toEqual(['ADC conversion complete: ADSC clears, ADIF sets']);
+        expect(regs.values.ADCSRA).toBe(ADEN | ADIF);
+    });
+
+    it('runs the polling loops students write', () => {
+        const result = evaluate('ADCSRA |= (1<<ADEN) | (1<<ADSC);\nwhile (!(ADCSRA & (1<<ADIF)));\nADCSRA |= (1<<ADIF);', {}, device);
+        expect(result.success).toBe(true);
+        expect(result.registerStates.ADCSRA).toBe(ADEN);
+        expect(result.steps.filter(s => s.op === 'while').length).toBeGreaterThan(1);
+    });
+
+    it('starts nothing without ADEN, so a wait on ADSC never ends', () => {
+        const result = evaluate('ADCSRA |= (1<<ADSC);\nwhile (ADCSRA & (1<<ADSC));', {}, device);
+        expect(result.success).toBe(false);
+        expect(result.steps[0].note).toBe('ADEN is clear, so no conversion starts');
+        const peripherals = new Peripherals(device, registers());
+        expect(peripherals.waitUntil(() => false)).toBeNull();
+    });
+});
+
+describe('USART transmitter', () => {
+    it('clears UDRE0 on a UDR0 write, then sets it and TXC0 as the frame goes out', () => {
+        const result = evaluate('UCSR0B = (1<<TXEN0);\nUDR0 = 0x41;\nwhile (!(UCSR0A & (1<<TXC0)));', {}, device);
+        expect(result.success).toBe(true);
+        expect(result.registerStates.UCSR0A).toBe(UDRE0 | TXC0);
+        // The code never wrote UCSR0A
+        expect(result.peripheralRegisters).toEqual(['UCSR0A']);
+        expect(result.steps[1].note).toBe('fills the transmit buffer: UDRE0 clears; UDR0 moves to the shift register: UDRE0 sets');
+    });
+
+    it('sends nothing without TXEN0', () => {
+        expect(notes('UDR0 = 0x41;')).toEqual(['TXEN0 is clear, so nothing is sent']);
+    });
+});
+
+describe('write-1-to-clear flags', () => {
+    it('clears the flags written with 1 and leaves the rest', () => {
+        const result = evaluate('TIFR0 = (1<<TOV0);', { TIFR0: 0x07 }, device);
+        expect(result.registerStates.TIFR0).toBe(0x06);
+        expect(result.steps[0].note).toBe('clears TOV0');
+    });
+});
@@ -0,0 +1,201 @@
+// Peripheral model — the hardware that changes registers on its own while an
+// answer runs. Time is counted in simulated cycles, one per step (statement
+// run, condition tested or variable update) or the cycles of each assembly
+// instruction, so polling loops such as `while (!(ADCSRA & (1<<ADIF)));`
+// finish after a realistic number of turns.
+//
+//   ADC     setting ADSC (with ADEN set) starts a conversion; ADSC reads 1
+//           until it finishes, then clears and ADIF sets
+//   USARTn  with TXENn set, a UDRn write fills the transmit buffer (UDREn
+//           clears); the byte moves to the shift register on the next cycle
+//           (UDREn sets) and TXCn sets when the last frame is out
+//
+// Write-1-to-clear flags (TIFRn, ADIF, TXCn) are handled by the register file.
+
+import { namedBitsOf, type DeviceProfile } from '../data/device';
+import type { DiagnosticCode } from './diagnostics';
+
+// A conversion takes 13 ADC clocks
+export const ADC_CONVERSION_CYCLES = 13;
+// Start bit, 8 data bits, stop bit
+export const USART_FRAME_CYCLES = 10;
+
+// Register access for the model: writes here bypass the datasheet write rules
+export interface PeripheralRegisters {
+    read(name: string): number;
+    set(name: string, value: number): void;
+}
+
+interface Peripheral {
+    // The code wrote `register`; returns a note when that starts or stops something
+    written(register: string, now: number): string | undefined;
+    // Cycle of the next change this peripheral will make, null when idle
+    next(): number | null;
+    // Make the changes due by `now`; returns what happened
+    advance(now: number): string[];
+}
+
+class Adc implements Peripheral {
+    private registers: PeripheralRegisters;
+    private aden: number;
+    private adsc: number;
+    private adif: number;
+    private done: number | null = null;   // cycle the running conversion finishes
+
+    constructor(registers: PeripheralRegisters, bits: Record<string, number>) {
+        this.registers = registers;
+        this.aden = 1 << bits.ADEN;
+        this.adsc = 1 << bits.ADSC;
+        this.adif = 1 << bits.ADIF;
+    }
+
+    written(register: string, now: number): string | undefined {
+        if (register !== 'ADCSRA') return undefined;
+        const value = this.registers.read('ADCSRA');
+        if (this.done !== null) {
+            if (!(value & this.aden)) {
+                this.done = null;
+                this.registers.set('ADCSRA', value & ~this.adsc);
+                return 'clearing ADEN ends the conversion';
+            }
+            // Writing 0 to ADSC does not stop a conversion
+            this.registers.set('ADCSRA', value | this.adsc);
+            return undefined;
+        }
+        if (!(value & this.adsc)) return undefined;
+        if (!(value & this.aden)) return 'ADEN is clear, so no conversion starts';
+        this.done = now + ADC_CONVERSION_CYCLES;
+        return `starts an ADC conversion (${ADC_CONVERSION_CYCLES} cycles)`;
+    }
+
+    next(): number | null {
+        return this.done;
+    }
+
+    advance(now: number): string[] {
+        if (this.done === null || this.done > now) return [];
+        this.done = null;
+        this.registers.set('ADCSRA', (this.registers.read('ADCSRA') & ~this.adsc) | this.adif);
+        return ['ADC conversion complete: ADSC clears, ADIF sets'];
+    }
+}
+
+class UsartTransmitter implements Peripheral {
+    private registers: PeripheralRegisters;
+    private warnings: { code: DiagnosticCode; message: string }[];
+    private u: number;
+    private udre: number;
+    private txc: number;
+    private txen: number;
+    private buffered = false;               // a byte waits in UDRn
+    private load: number | null = null;     // cycle the buffer moves to the idle shift register
+    private sent: number | null = null;     // cycle the frame in the shift register is out
+
+    constructor(registers: PeripheralRegisters, warnings: { code: DiagnosticCode; message: string }[], u: number, a: Record<string, number>, b: Record<string, number>) {
+        this.registers = registers;
+        this.warnings = warnings;
+        this.u = u;
+        this.udre = 1 << a[`UDRE${u}`];
+        this.txc = 1 << a[`TXC${u}`];
+        this.txen = 1 << b[`TXEN${u}`];
+    }
+
+    private setStatus(set: number, clear: number): void {
+        const name = `UCSR${this.u}A`;
+        this.registers.set(name, (this.registers.read(name) & ~clear) | set);
+    }
+
+    written(register: string, now: number): string | undefined {
+        if (register !== `UDR${this.u}`) return undefined;
+        if (!(this.registers.read(`UCSR${this.u}B`) & this.txen)) return `TXEN${this.u} is clear, so nothing is sent`;
+        if (!(this.registers.read(`UCSR${this.u}A`) & this.udre)) {
+            this.warnings.push({
+                code: 'udr-overrun',
+                message: `UDR${this.u} was written while UDRE${this.u} was clear — the transmit buffer is full, so the byte is lost. Wait for UDRE${this.u} first.`,
+            });
+            return undefined;
+        }
+        this.buffered = true;
+        this.setStatus(0, this.udre);
+        if (this.sent === null) this.load = now + 1;
+        return `fills the transmit buffer: UDRE${this.u} clears`;
+    }
+
+    next(): number | null {
+        return this.load ?? this.sent;
+    }
+
+    advance(now: number): string[] {
+        const notes: string[] = [];
+        for (let at = this.next(); at !== null && at <= now; at = this.next()) {
+            if (at === this.load) {
+                this.load = null;
+                this.buffered = false;
+                this.sent = at + USART_FRAME_CYCLES;
+                this.setStatus(this.udre, 0);
+                notes.push(`UDR${this.u} moves to the shift register: UDRE${this.u} sets`);
+            } else if (this.buffered) {
+                // The next byte follows the frame straight away
+                this.load = at;
+            } else {
+                this.sent = null;
+                this.setStatus(this.txc, 0);
+                notes.push(`frame sent: TXC${this.u} sets`);
+            }
+        }
+        return notes;
+    }
+}
+
+/**
+ * The peripherals of a device that change registers by themselves. The
+ * evaluator reports each write the code makes and advances time after
+ * each step.
+ */
+export class Peripherals {
+    private units: Peripheral[] = [];
+    private now = 0;
+    warnings: { code: DiagnosticCode; message: string }[] = [];
+
+    constructor(device: DeviceProfile, registers: PeripheralRegisters) {
+        const adc = device.registerMap.ADCSRA;
+        if (adc) {
+            const bits = namedBitsOf(adc);
+            if ('ADEN' in bits && 'ADSC' in bits && 'ADIF' in bits) this.units.push(new Adc(registers, bits));
+        }
+        for (let u = 0; device.registerMap[`UCSR${u}A`]; u++) {
+            const a = namedBitsOf(device.registerMap[`UCSR${u}A`]);
+            const b = namedBitsOf(device.registerMap[`UCSR${u}B`]);
+            if (device.registerMap[`UDR${u}`] && `UDRE${u}` in a && `TXC${u}` in a && `TXEN${u}` in b) {
+                this.units.push(new UsartTransmitter(registers, this.warnings, u, a, b));
+            }
+        }
+    }
+
+    written(register: string): string[] {
+        return this.units.flatMap(unit => unit.written(register, this.now) ?? []);
+    }
+
+    // One step's (or instruction's) worth of time
+    tick(cycles = 1): string[] {
+        this.now += cycles;
+        return this.units.flatMap(unit => unit.advance(this.now));
+    }
+
+    /**
+     * Let time pass until `done` holds, as a busy-wait does. Returns the
+     * cycles waited and what happened, or null if nothing is going to
+     * change and the wait would never end.
+     */
+    waitUntil(done: () => boolean): { cycles: number; notes: string[] } | null {
+        const start = this.now;
+        const notes: string[] = [];
+        while (!done()) {
+            const next = Math.min(...this.units.map(unit => unit.next() ?? Infinity));
+            if (next === Infinity) return null;
+            this.now = Math.max(next, this.now);
+            notes.push(...this.units.flatMap(unit => unit.advance(this.now)));
+        }
+        return { cycles: this.now - start, notes };
+    }
+}
@@ -0,0 +1,52 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getDevice, setActiveDevice } from '../data/devices';
+import { evaluate } from './evaluator';
+import { renderTimeline } from './timeline';
+
+const device = getDevice('atmega328p')!;
+
+const stepsOf = (code: string) => evaluate(code, { PORTB: 0x01 }, device).steps;
+
+describe('timeline', () => {
+    // The timeline sizes register rows for the active device
+    beforeAll(() => {
+        setActiveDevice('atmega328p');
+    });
+
+    it('shows nothing without steps', () => {
+        expect(renderTimeline([], '', 0)).toBe('');
+    });
+
+    it('highlights the line of the current statement', () => {
+        const code = 'PORTB |= (1<<PB3);\nPORTB &= ~(1<<PB0);';
+        const html = renderTimeline(stepsOf(code), code, 1);
+        expect(html).toContain('Step 2 / 2');
+        expect(html).toMatch(/timeline-line-current"><span class="timeline-line-number">2</);
+        expect(html).not.toMatch(/timeline-line-current"><span class="timeline-line-number">1</);
+    });
+
+    it('shows before, operand and after with the changed bits marked', () => {
+        const code = 'PORTB |= (1<<PB3);';
+        const html = renderTimeline(stepsOf(code), code, 0);
+        expect(html).toContain('PORTB |= 0x08');
+        expect(html).toContain('0x01');
+        expect(html).toContain('0x09');
+        expect(html.match(/timeline-bit-changed/g)).toHaveLength(1);
+    });
+
+    it('clamps the index and disables the buttons at either end', () => {
+        const code = 'PORTB = 1;\nPORTB = 2;';
+        const steps = stepsOf(code);
+        expect(renderTimeline(steps, code, 5)).toContain('Step 2 / 2');
+        expect(renderTimeline(steps, code, -1)).toMatch(/data-step-nav="-1" disabled/);
+        expect(renderTimeline(steps, code, 1)).toMatch(/data-step-nav="1" disabled/);
+    });
+
+    it('shows a branch as its condition', () => {
+        const code = 'if (PORTB & 1) {\n    PORTB = 0;\n}';
+        const html = renderTimeline(stepsOf(code), code, 0);
+        expect(html).toContain('if: ');
+        expect(html).toContain('condition');
+        expect(html).not.toContain('timeline-row-after');
+    });
+});
@@ -0,0 +1,117 @@
+// Timeline — step-through view of EvalResult.steps. Shows the answer with the
+// current statement's line highlighted, and the register before, the operand
+// and the register after as bit rows with the changed bits marked.
+
+import { registerWidth } from '../data/device';
+import { getActiveDevice } from '../data/devices';
+import { isAssemblyBranch, isAssemblyOp } from './assembly';
+import type { EvalResult } from './evaluator';
+
+type Step = EvalResult['steps'][number];
+
+// Step dots are shown up to this many steps; longer runs only get the counter
+const MAX_DOTS = 40;
+
+function escapeHtml(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function toHex(n: number, width: 8 | 16): string {
+    const mask = width === 16 ? 0xFFFF : 0xFF;
+    return '0x' + (n & mask).toString(16).toUpperCase().padStart(width / 4, '0');
+}
+
+function isBranch(step: Step): boolean {
+    return step.op === 'if' || step.op === 'while' || step.op === 'for' || isAssemblyBranch(step.op);
+}
+
+// Registers use their own width; variables (and conditions) need 16 bits once they leave a byte
+function widthOf(step: Step): 8 | 16 {
+    const device = getActiveDevice();
+    if (device.allRegisterNames.has(step.register) && !isBranch(step)) return registerWidth(device, step.register);
+    return [step.before, step.after, step.exprValue].some(v => v < 0 || v > 0xFF) ? 16 : 8;
+}
+
+// One row of bits; `changed` marks the bits that differ from the step's start
+function renderBitRow(label: string, value: number, width: 8 | 16, changed = 0, kind = ''): string {
+    const bits = Array.from({ length: width }, (_, i) => width - 1 - i).map(bit => {
+        const set = (value >> bit) & 1;
+        const mark = (changed >> bit) & 1 ? ' timeline-bit-changed' : '';
+        return `<span class="timeline-bit ${set ? 'timeline-bit-set' : ''}${mark}">${set}</span>`;
+    });
+    return `
+        <div class="timeline-row ${kind}">
+            <span class="timeline-row-label">${escapeHtml(label)}</span>
+            <span class="timeline-bits">${bits.join('')}</span>
+            <span class="timeline-row-hex">${toHex(value, width)}</span>
+        </div>`;
+}
+
+// What the step did, e.g. "PORTB |= 0x24" or "while: (PORTB < 5) is true → iteration 2";
+// an instruction is shown as written, e.g. "sbis PINB, 2: PINB bit 2 is set → skips …"
+function describeStep(step: Step, width: 8 | 16, code: string): string {
+    if (isAssemblyOp(step.op)) {
+        const instruction = code.slice(step.span.start, step.span.end).replace(/\s+/g, ' ');
+        return isBranch(step) ? `${instruction}: ${step.note ?? ''}` : instruction;
+    }
+    if (isBranch(step)) return `${step.op}: ${step.note ?? ''}`;
+    if (step.op.startsWith('loop_until')) return `${step.op}(${step.register}, ${toHex(step.exprValue, width)})`;
+    if (step.op === '++' || step.op === '--') return `${step.register}${step.op}`;
+    return `${step.register} ${step.op} ${toHex(step.exprValue, width)}`;
+}
+
+// The answer with line numbers; the lines of the current step are highlighted
+function renderSource(code: string, step: Step): string {
+    const lastLine = step.span.line + (code.slice(step.span.start, step.span.end).match(/\n/g)?.length ?? 0);
+    return code.split('\n').map((text, i) => {
+        const line = i + 1;
+        const current = line >= step.span.line && line <= lastLine;
+        return `<div class="timeline-line ${current ? 'timeline-line-current' : ''}"><span class="timeline-line-number">${line}</span><span class="timeline-line-text">${escapeHtml(text) || ' '}</span></div>`;
+    }).join('');
+}
+
+/**
+ * Render the step at `index` with the controls to move between steps.
+ * Buttons carry data-step-nav (-1 / +1) and the dots data-step (index), for
+ * the caller to wire up.
+ */
+export function renderTimeline(steps: Step[], code: string, index: number): string {
+    if (steps.length === 0) return '';
+    const current = Math.max(0, Math.min(index, steps.length - 1));
+    const step = steps[current];
+    const width = widthOf(step);
+
+    let rows: string;
+    if (isBranch(step)) {
+        rows = renderBitRow(step.register ? `condition (${step.register})` : 'condition', step.exprValue, width, 0, 'timeline-row-operand');
+    } else {
+        const changed = (step.before ^ step.after) & (width === 16 ? 0xFFFF : 0xFF);
+        rows = renderBitRow('before', step.before, width)
+            + renderBitRow(step.op.startsWith('loop_until') ? 'mask' : 'operand', step.exprValue, width, 0, 'timeline-row-operand')
+            + renderBitRow('after', step.after, width, changed, 'timeline-row-after');
+    }
+
+    const dots = steps.length <= MAX_DOTS
+        ? `<div class="timeline-dots">${steps.map((s, i) => `<button class="timeline-dot ${i === current ? 'timeline-dot-current' : ''} ${s.before !== s.after ? 'timeline-dot-change' : ''}" data-step="${i}" title="${escapeHtml(describeStep(s, widthOf(s), code))}"></button>`).join('')}</div>`
+        : '';
+
+    return `
+        <div class="timeline">
+            <div class="timeline-header">
+                <span class="timeline-title">Step through</span>
+                <button class="btn btn-secondary timeline-nav" data-step-nav="-1" ${current === 0 ? 'disabled' : ''}>◀</button>
+                <span class="timeline-counter">Step ${current + 1} / ${steps.length}</span>
+                <button class="btn btn-secondary timeline-nav" data-step-nav="1" ${current === steps.length - 1 ? 'disabled' : ''}>▶</button>
+            </div>
+            ${dots}
+            <div class="timeline-body">
+                <div class="timeline-source">${renderSource(code, step)}</div>
+                <div class="timeline-step">
+                    <div class="timeline-step-title">${escapeHtml(describeStep(step, width, code))}</div>
+                    ${rows}
+                    ${step.note && !isBranch(step) ? `<div class="timeline-note">${escapeHtml(step.note)}</div>` : ''}
+                </div>
+            </div>
+        </div>
+    `;
+}
@@ -1,9 +1,16 @@
 // MCU Practice - Main Application
 // Live evaluation, speed-based scoring, auto-submit on correct
 
-import { generateQuestion, getAvailableTopics, ALL_TOPICS, TOPIC_LABELS, type Question, type QuestionTopic } from './engine/generator';
-import { checkAnswer } from './engine/evaluator';
+import { assemblyVariant, generateQuestion, getAvailableTopics, ALL_TOPICS, TOPIC_LABELS, type Question, type QuestionTopic } from './engine/generator';
+import { checkAnswer, type AnswerLanguage, type CheckOptions, type CpuState, type EvalResult, type RegisterDifference } from './engine/evaluator';
+import type { Diagnostic } from './engine/diagnostics';
+import { formatCanonical } from './engine/formatter';
+import { describeConstraints, type AnswerConstraints } from './engine/constraints';
 import { parseExpression, renderExpressionDisplay } from './engine/expression-display';
+import { renderTimeline } from './engine/timeline';
+import { compileAnswer, renderAssembly } from './engine/compiler';
+import { formatAddress, registerWidth, type DeviceProfile } from './data/device';
+import { devices, getActiveDevice, setActiveDevice, loadAtdfDevice } from './data/devices';
 import { loadStats, recordAnswer, getLevelProgress, resetStats, formatTime, type Stats } from './engine/gamification';
 import './style.css';
 
@@ -12,7 +19,12 @@ import './style.css';
 interface LiveResult {
   value: number | null;
   error: string | null;
+  diagnostics: Diagnostic[];   // located warnings, then the error if any
   isCorrect: boolean;
+  states: Record<string, number>;   // final register values (code questions)
+  differences: RegisterDifference[];
+  steps: EvalResult['steps'];
+  cpu?: CpuState;   // CPU registers and SREG after an assembly answer
 }
 
 interface CompletedResult {
@@ -22,18 +34,21 @@ interface CompletedResult {
   leveledUp: boolean;
   solveTimeMs: number;
   finalValue: number;
+  diagnostics: Diagnostic[];
 }
 
 interface AppState {
   currentQuestion: Question | null;
   stats: Stats;
   selectedTopics: QuestionTopic[] | 'all';
+  language: AnswerLanguage;  // answer in C or AVR assembly, from the next question
   showHint: boolean;
   showDashboard: boolean;
   showAnswer: boolean;
   showCheatsheet: boolean;
   // Live evaluation
   liveResult: LiveResult | null;
+  timelineStep: number;      // step shown in the step-through timeline
   // Completed (auto-submitted) result
   completed: CompletedResult | null;
   // Timer
@@ -45,11 +60,13 @@ const state: AppState = {
   currentQuestion: null,
   stats: loadStats(),
   selectedTopics: 'all',
+  language: 'c',
   showHint: false,
   showDashboard: false,
   showAnswer: false,
   showCheatsheet: false,
   liveResult: null,
+  timelineStep: 0,
   completed: null,
   timerStart: null,
   currentInput: '',
@@ -60,12 +77,26 @@ let timerInterval: ReturnType<typeof setInterval> | null = null;
 
 // ─── HELPERS ────────────────────────────────────────────────────────────
 
-function toBin8(n: number): string {
-  return (n & 0xFF).toString(2).padStart(8, '0');
+function toBin(n: number, width: 8 | 16 = 8): string {
+  const mask = width === 16 ? 0xFFFF : 0xFF;
+  return (n & mask).toString(2).padStart(width, '0');
 }
 
-function toHex(n: number): string {
-  return '0x' + (n & 0xFF).toString(16).toUpperCase().padStart(2, '0');
+function toHex(n: number, width: 8 | 16 = 8): string {
+  const mask = width === 16 ? 0xFFFF : 0xFF;
+  return '0x' + (n & mask).toString(16).toUpperCase().padStart(width / 4, '0');
+}
+
+// Bit width of a register on the active device (8 for unknown names)
+function widthOf(register: string): 8 | 16 {
+  return registerWidth(getActiveDevice(), register);
+}
+
+// Code counts as finished once it ends a statement or closes a block;
+// assembly once the last operand is there
+function isFinishedCode(code: string): boolean {
+  if (state.currentQuestion?.language === 'asm') return /[^,\s]$/.test(code.trim());
+  return /[;}]$/.test(code.trim());
 }
 
 function escapeHtml(s: string): string {
@@ -78,7 +109,7 @@ function simpleMarkdown(text: string): string {
   // Then apply markdown transforms on the escaped text
   html = html
     .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/`{3}c\n([\s\S]*?)`{3}/g, '<pre class="code-block">$1</pre>')
+    .replace(/`{3}(?:c|asm)\n([\s\S]*?)`{3}/g, '<pre class="code-block">$1</pre>')
     .replace(/`([^`]+)`/g, '<code>$1</code>')
     .replace(/\n/g, '<br>');
   return html;
@@ -114,6 +145,7 @@ function evaluateLive(inputValue: string): void {
   if (!trimmed) {
     state.liveResult = null;
     updateLiveDisplay();
+    updateAssembly();
     return;
   }
 
@@ -130,7 +162,10 @@ function evaluateLive(inputValue: string): void {
     let userValue: number | null = null;
     const cleaned = trimmed.toLowerCase().replace(/\s/g, '');
 
-    if (cleaned.startsWith('0x')) {
+    if (q.isPinAnswer) {
+      // Arduino pin numbers are plain decimal
+      userValue = /^\d+$/.test(cleaned) ? parseInt(cleaned, 10) : null;
+    } else if (cleaned.startsWith('0x')) {
       userValue = parseInt(cleaned, 16);
     } else if (cleaned.startsWith('0b')) {
       userValue = parseInt(cleaned.substring(2), 2);
@@ -141,33 +176,54 @@ function evaluateLive(inputValue: string): void {
     }
 
     if (userValue === null || isNaN(userValue)) {
-      result = { value: null, error: null, isCorrect: false };
+      result = { value: null, error: null, diagnostics: [], isCorrect: false, states: {}, differences: [], steps: [] };
     } else {
-      userValue &= 0xFF;
-      result = { value: userValue, error: null, isCorrect: userValue === q.expectedValue };
+      if (!q.isPinAnswer) userValue &= 0xFF;
+      result = { value: userValue, error: null, diagnostics: [], isCorrect: userValue === q.expectedValue, states: {}, differences: [], steps: [] };
     }
   } else {
-    // Evaluate C-style code
+    // Evaluate the code (untrimmed, so diagnostic spans line up with the textarea)
     try {
-      const check = checkAnswer(trimmed, q.register, q.initialValue, q.expectedValue);
+      const options: CheckOptions = {
+        language: q.language,
+        bitNameCheck: q.bitNameCheck ?? 'warn',
+        constraints: q.constraints,
+        initialStates: q.initialStates,
+        expectedStates: q.expectedStates,
+      };
+      let check = checkAnswer(inputValue, q.register, q.initialValue, q.expectedValue, getActiveDevice(), options);
+      // Checking every starting value runs the answer hundreds of times, so
+      // it waits until the answer would be submitted
+      if (check.correct && q.checkAllValues && isFinishedCode(trimmed)) {
+        check = checkAnswer(inputValue, q.register, q.initialValue, q.expectedValue, getActiveDevice(), { ...options, reference: q.sampleAnswer });
+      }
       result = {
         value: check.userResult,
         error: check.error || null,
+        diagnostics: check.diagnostics,
         isCorrect: check.correct,
+        states: check.registerStates,
+        differences: check.differences,
+        steps: check.steps,
+        cpu: check.cpu,
       };
     } catch {
-      result = { value: null, error: null, isCorrect: false };
+      result = { value: null, error: null, diagnostics: [], isCorrect: false, states: {}, differences: [], steps: [] };
     }
   }
 
   state.liveResult = result;
+  state.timelineStep = 0;
   updateLiveDisplay();
   updateExpressionDisplay();
+  updateSquiggles();
+  updateTimeline();
+  updateAssembly();
 
-  // Auto-submit if correct AND semicolon present (for code questions)
+  // Auto-submit if correct AND the code is finished (for code questions)
   if (result.isCorrect) {
-    // Read-state questions don't need semicolons; code questions do
-    if (q.isReadState || trimmed.endsWith(';')) {
+    // Read-state questions don't need semicolons; code questions end with ; or }
+    if (q.isReadState || isFinishedCode(trimmed)) {
       handleAutoSubmit();
     }
   }
@@ -178,7 +234,7 @@ function updateExpressionDisplay(): void {
   if (!container) return;
 
   const q = state.currentQuestion;
-  if (!q || q.isReadState || state.completed) {
+  if (!q || q.isReadState || q.language === 'asm' || state.completed) {
     container.innerHTML = '';
     return;
   }
@@ -189,8 +245,53 @@ function updateExpressionDisplay(): void {
     return;
   }
 
-  const breakdown = parseExpression(trimmed, q.register, q.initialValue);
-  container.innerHTML = renderExpressionDisplay(breakdown, q.initialValue);
+  const breakdown = parseExpression(state.currentInput, { ...q.initialStates, [q.register]: q.initialValue });
+  container.innerHTML = renderExpressionDisplay(breakdown);
+}
+
+// Step-through of the finished answer, under the answer box
+function renderTimelineSection(): string {
+  const q = state.currentQuestion;
+  const steps = state.liveResult?.steps ?? [];
+  if (!q || q.isReadState || !isFinishedCode(state.currentInput)) return '';
+  return renderTimeline(steps, state.currentInput, state.timelineStep);
+}
+
+function updateTimeline(): void {
+  const container = document.getElementById('timeline-container');
+  if (container) container.innerHTML = renderTimelineSection();
+}
+
+// The answer as AVR instructions, with cycles and atomicity, next to the
+// result; an assembly answer shows the CPU registers it left instead
+function renderAssemblySection(): string {
+  const q = state.currentQuestion;
+  if (!q || q.isReadState || !isFinishedCode(state.currentInput)) return '';
+  if (q.language === 'asm') return state.liveResult?.cpu ? renderCpuState(state.liveResult.cpu) : '';
+  const compiled = compileAnswer(state.currentInput, getActiveDevice());
+  return compiled ? renderAssembly(compiled, state.currentInput) : '';
+}
+
+// SREG and every CPU register the answer left non-zero, as bit displays
+function renderCpuState(cpu: CpuState): string {
+  const registers = cpu.registers
+    .map((value, n) => ({ value, n }))
+    .filter(({ value }) => value !== 0)
+    .map(({ value, n }) => renderBitDisplay(value, `r${n} = ${toHex(value)}`));
+  return `
+    <div class="asm">
+      <div class="asm-header">
+        <span class="asm-title">CPU registers</span>
+      </div>
+      ${renderBitDisplay(cpu.sreg, `SREG = ${toHex(cpu.sreg)} · I T H S V N Z C`)}
+      ${registers.join('')}
+    </div>
+  `;
+}
+
+function updateAssembly(): void {
+  const container = document.getElementById('asm-container');
+  if (container) container.innerHTML = renderAssemblySection();
 }
 
 function handleAutoSubmit(): void {
@@ -209,6 +310,7 @@ function handleAutoSubmit(): void {
     leveledUp: result.leveledUp,
     solveTimeMs,
     finalValue: q.expectedValue,
+    diagnostics: (state.liveResult?.diagnostics ?? []).filter(d => d.severity === 'warning'),
   };
 
   // Auto-reveal sample answer
@@ -226,29 +328,122 @@ function updateLiveDisplay(): void {
   const res = state.liveResult;
 
   if (!res || res.value === null) {
-    // Show initial register state
-    liveContainer.innerHTML = renderBitDisplay(q.initialValue, q.register);
+    // Show initial register state, with the reason once the statement is finished
+    liveContainer.innerHTML = renderStartStates(q) + renderEvalNotes(visibleDiagnostics());
     liveContainer.className = 'live-result';
     return;
   }
 
   if (res.error) {
-    liveContainer.innerHTML = renderBitDisplay(q.initialValue, q.register);
+    liveContainer.innerHTML = renderStartStates(q);
     liveContainer.className = 'live-result';
     return;
   }
 
   // Show evaluated result with highlighting
   const isCorrect = res.isCorrect;
-  liveContainer.innerHTML = renderBitDisplay(
-    res.value,
-    `${q.register} = ${toHex(res.value)}`,
-    undefined,
-    isCorrect
-  );
+  if (q.isPinAnswer) {
+    // The port bit stays on screen; the label carries the typed pin number
+    liveContainer.innerHTML = renderBitDisplay(q.initialValue, `${q.register} → pin ${res.value}`, undefined, isCorrect);
+    liveContainer.className = `live-result ${isCorrect ? 'live-correct' : 'live-active'}`;
+    return;
+  }
+  const differences = isFinishedCode(state.currentInput) ? renderDifferences(res.differences) : '';
+  liveContainer.innerHTML = (q.initialStates
+    ? renderRegisterStates(q, res.states, isCorrect)
+    : renderBitDisplay(res.value, `${q.register} = ${toHex(res.value, widthOf(q.register))}`, undefined, isCorrect, widthOf(q.register))
+  ) + differences + renderEvalNotes(visibleDiagnostics());
   liveContainer.className = `live-result ${isCorrect ? 'live-correct' : 'live-active'}`;
 }
 
+// Registers a question sets up, the one it is about first
+function questionRegisters(q: Question): string[] {
+  return [q.register, ...Object.keys(q.initialStates ?? {}).filter(name => name !== q.register)];
+}
+
+function startValue(q: Question, register: string): number {
+  return register === q.register ? q.initialValue : q.initialStates?.[register] ?? 0;
+}
+
+// One bit display per question register, with its value in the label
+function renderRegisterStates(q: Question, states: Record<string, number>, isCorrect = false): string {
+  return questionRegisters(q).map(name => {
+    const value = states[name] ?? startValue(q, name);
+    return renderBitDisplay(value, `${name} = ${toHex(value, widthOf(name))}`, undefined, isCorrect, widthOf(name));
+  }).join('');
+}
+
+function renderStartStates(q: Question): string {
+  if (!q.initialStates) return renderBitDisplay(q.initialValue, q.register, undefined, false, widthOf(q.register));
+  return questionRegisters(q)
+    .map(name => renderBitDisplay(startValue(q, name), name, undefined, false, widthOf(name)))
+    .join('');
+}
+
+// Registers that do not hold what the question asks for, including ones the
+// answer should have left alone
+function renderDifferences(differences: RegisterDifference[]): string {
+  if (differences.length === 0) return '';
+  return `
+    <div class="eval-notes register-differences">
+      ${differences.map(d => {
+        const width = widthOf(d.register);
+        return `
+        <div class="eval-error">
+          ✗ ${d.unintended
+            ? `<strong>${escapeHtml(d.register)}</strong> changed from ${toHex(d.expected, width)} to ${toHex(d.actual, width)} — the question does not ask for this register to change`
+            : `<strong>${escapeHtml(d.register)}</strong> = ${toHex(d.actual, width)} is not the expected value yet`}
+        </div>
+      `;
+      }).join('')}
+    </div>
+  `;
+}
+
+// Live diagnostics to show: warnings always, the error only once the code is
+// finished so half-typed statements stay quiet
+function visibleDiagnostics(): Diagnostic[] {
+  const diagnostics = state.liveResult?.diagnostics ?? [];
+  return isFinishedCode(state.currentInput) ? diagnostics : diagnostics.filter(d => d.severity === 'warning');
+}
+
+// Evaluator diagnostics under the bit display: position, message and suggested fix
+function renderEvalNotes(diagnostics: Diagnostic[]): string {
+  if (diagnostics.length === 0) return '';
+  return `
+    <div class="eval-notes">
+      ${diagnostics.map(d => `
+        <div class="eval-${d.severity}">
+          ${d.severity === 'error' ? '✗' : '⚠'}
+          <span class="eval-location">${d.span.line}:${d.span.column}</span>
+          ${escapeHtml(d.message)}${d.fix ? ` <span class="eval-fix">— ${simpleMarkdown(d.fix)}</span>` : ''}
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+// Mirror of the answer text with each diagnostic's range wrapped for a wavy
+// underline. The text itself is transparent; only the underlines show.
+function renderSquiggles(code: string, diagnostics: Diagnostic[]): string {
+  let html = '';
+  let pos = 0;
+  for (const d of [...diagnostics].sort((a, b) => a.span.start - b.span.start)) {
+    if (d.span.start < pos) continue;   // overlaps one already marked
+    html += escapeHtml(code.slice(pos, d.span.start));
+    // An empty range (e.g. a missing ')' at the end) marks the gap after it
+    const text = d.span.end > d.span.start ? escapeHtml(code.slice(d.span.start, d.span.end)) : ' ';
+    html += `<span class="squiggle squiggle-${d.severity}">${text}</span>`;
+    pos = Math.max(d.span.end, d.span.start);
+  }
+  return html + escapeHtml(code.slice(pos));
+}
+
+function updateSquiggles(): void {
+  const overlay = document.getElementById('answer-squiggles');
+  if (overlay) overlay.innerHTML = renderSquiggles(state.currentInput, visibleDiagnostics());
+}
+
 // ─── RENDER ─────────────────────────────────────────────────────────────
 
 function render(): void {
@@ -277,6 +472,15 @@ function renderHeader(): string {
           <button class="nav-btn ${!state.showDashboard ? 'active' : ''}" id="nav-practice">Practice</button>
           <button class="nav-btn ${state.showDashboard ? 'active' : ''}" id="nav-dashboard">Dashboard</button>
         </nav>
+        <select class="device-select" id="device-select" title="Target device">
+          ${devices.map(d => `
+            <option value="${d.id}" ${d.id === getActiveDevice().id ? 'selected' : ''}>${d.name} · ${escapeHtml(d.board)}</option>
+          `).join('')}
+        </select>
+        <label class="device-load-btn" title="Load a Microchip .atdf device file">
+          📂
+          <input type="file" id="atdf-input" accept=".atdf,.xml" hidden />
+        </label>
       </div>
       <div class="header-stats">
         <div class="stat-pill level-pill">
@@ -321,18 +525,26 @@ function renderTopicSelector(): string {
           `;
   }).join('')}
       </div>
+      <div class="topic-selector-label">Answer in:</div>
+      <div class="topic-chips">
+        <button class="topic-chip language-chip ${state.language === 'c' ? 'active' : ''}" data-language="c">C</button>
+        <button class="topic-chip language-chip ${state.language === 'asm' ? 'active' : ''}" data-language="asm">AVR Assembly</button>
+      </div>
     </div>
   `;
 }
 
-function renderBitDisplay(value: number, label: string, highlightBits?: number[], isCorrect?: boolean): string {
-  const bits = toBin8(value);
+function renderBitDisplay(value: number, label: string, highlightBits?: number[], isCorrect?: boolean, width: 8 | 16 = 8): string {
+  const bits = toBin(value, width);
+  // 16-bit registers show the high byte above the low byte
+  const rows = width === 16 ? [bits.substring(0, 8), bits.substring(8)] : [bits];
   return `
     <div class="bit-display ${isCorrect ? 'bit-display-correct' : ''}">
       <div class="bit-display-label">${escapeHtml(label)}</div>
+      ${rows.map((row, r) => `
       <div class="bit-display-row">
-        ${bits.split('').map((b, i) => {
-    const bitIdx = 7 - i;
+        ${row.split('').map((b, i) => {
+    const bitIdx = (rows.length - 1 - r) * 8 + 7 - i;
     const isHighlight = highlightBits?.includes(bitIdx);
     return `
             <div class="bit-cell ${b === '1' ? 'bit-on' : 'bit-off'} ${isHighlight ? 'bit-highlight' : ''}">
@@ -341,7 +553,20 @@ function renderBitDisplay(value: number, label: string, highlightBits?: number[]
             </div>
           `;
   }).join('')}
-      </div>
+      </div>`).join('')}
+    </div>
+  `;
+}
+
+function renderRegisterInfo(name: string): string {
+  const info = getActiveDevice().registerMap[name];
+  if (!info) return '';
+  return `
+    <div class="register-info">
+      <span class="register-info-name">${escapeHtml(info.name)}</span>
+      <span>I/O ${info.ioAddress !== null ? formatAddress(info.ioAddress) : '—'}</span>
+      <span>data ${formatAddress(info.dataAddress)}</span>
+      <span>reset ${toHex(info.resetValue, info.width)}</span>
     </div>
   `;
 }
@@ -373,18 +598,24 @@ function renderPractice(): string {
           </div>
         </div>
         <div class="question-prompt">${simpleMarkdown(q.prompt)}</div>
+        ${q.constraints ? renderConstraintRules(q.constraints) : ''}
+        ${renderRegisterInfo(q.register)}
         ${state.showHint ? `<div class="hint-box">💡 ${escapeHtml(q.hint)}</div>` : ''}
       </div>
 
       <div id="live-result" class="live-result">
-        ${renderBitDisplay(q.initialValue, q.register)}
+        ${renderStartStates(q)}
       </div>
 
+      <div id="asm-container" class="asm-container">${renderAssemblySection()}</div>
+
       <div id="expr-display-container" class="expr-display-container"></div>
 
       ${state.completed ? renderCompletedSection() : ''}
 
       ${renderInputSection(q)}
+
+      <div id="timeline-container" class="timeline-container">${renderTimelineSection()}</div>
     </div>
   `;
 }
@@ -395,17 +626,20 @@ function renderInputSection(q: Question): string {
     <div class="answer-section ${isCompleted ? 'answer-completed' : ''}">
       ${q.isReadState ? `
         <div class="input-group">
-          <label class="input-label">${isCompleted ? 'Your answer:' : 'Your answer (hex or binary):'}</label>
+          <label class="input-label">${isCompleted ? 'Your answer:' : q.isPinAnswer ? 'Your answer (Arduino pin number):' : 'Your answer (hex or binary):'}</label>
           <input type="text" id="answer-input" class="code-input ${isCompleted ? 'input-readonly' : ''}" 
-                 placeholder="e.g. 0xAB or 10101011" autocomplete="off" spellcheck="false" 
+                 placeholder="${q.isPinAnswer ? 'e.g. 13' : 'e.g. 0xAB or 10101011'}" autocomplete="off" spellcheck="false" 
                  value="${escapeHtml(state.currentInput)}" ${isCompleted ? 'readonly' : ''} />
         </div>
       ` : `
         <div class="input-group">
           <label class="input-label">${isCompleted ? 'Your code:' : 'Your code:'}</label>
-          <textarea id="answer-input" class="code-input code-textarea ${isCompleted ? 'input-readonly' : ''}" 
-                    placeholder="e.g. ${escapeHtml(q.register)} |= (1&lt;&lt;3);" 
-                    rows="3" autocomplete="off" spellcheck="false" ${isCompleted ? 'readonly' : ''}>${escapeHtml(state.currentInput)}</textarea>
+          <div class="code-input-wrap">
+            <textarea id="answer-input" class="code-input code-textarea ${isCompleted ? 'input-readonly' : ''}" 
+                      placeholder="${q.language === 'asm' ? `e.g. sbi ${escapeHtml(q.register)}, 3` : `e.g. ${escapeHtml(q.register)} |= (1&lt;&lt;3);`}" 
+                      rows="3" autocomplete="off" spellcheck="false" ${isCompleted ? 'readonly' : ''}>${escapeHtml(state.currentInput)}</textarea>
+            <div class="code-squiggles" id="answer-squiggles" aria-hidden="true">${renderSquiggles(state.currentInput, isCompleted ? state.completed!.diagnostics : visibleDiagnostics())}</div>
+          </div>
         </div>
       `}
       ${!isCompleted ? `
@@ -460,14 +694,16 @@ function renderCompletedSection(): string {
         ${r.streakBonus > 0 ? `<span class="xp-streak-bonus">🔥 +${r.streakBonus} streak</span>` : ''}
       </div>
       ${r.leveledUp ? '<div class="level-up-banner">🎉 Level Up!</div>' : ''}
-      ${renderBitDisplay(r.finalValue, `${q.register} (result)`)}
+      ${q.isPinAnswer
+        ? renderBitDisplay(q.initialValue, `${q.register} → digital pin ${r.finalValue}`)
+        : q.expectedStates
+          ? renderRegisterStates(q, q.expectedStates)
+          : renderBitDisplay(r.finalValue, `${q.register} (result)`, undefined, false, widthOf(q.register))}
+      ${renderEvalNotes(r.diagnostics)}
     </div>
 
     <div class="next-section">
-      <div class="sample-answer-box">
-        <div class="sample-answer-label">Sample Answer:</div>
-        <pre class="code-block">${escapeHtml(q.sampleAnswer || 'N/A')}</pre>
-      </div>
+      ${renderAnswerComparison(q)}
       <button class="btn btn-primary btn-large" id="btn-next">
         Next Question →
       </button>
@@ -476,6 +712,48 @@ function renderCompletedSection(): string {
   `;
 }
 
+// What the answer must look like, as chips under the prompt
+function renderConstraintRules(constraints: AnswerConstraints): string {
+  const rules = describeConstraints(constraints);
+  if (rules.length === 0) return '';
+  return `
+    <div class="question-rules">
+      ${rules.map(rule => `<span class="rule-chip">${simpleMarkdown(rule)}</span>`).join('')}
+    </div>
+  `;
+}
+
+// The answer as typed next to the canonical form of the sample answer, both
+// run through the formatter so only real differences show. Value answers
+// (hex, pin numbers) and assembly just get the sample.
+function renderAnswerComparison(q: Question): string {
+  const device = getActiveDevice();
+  const yours = q.language === 'asm' ? null : formatCanonical(state.currentInput, device);
+  const canonical = q.sampleAnswer ? formatCanonical(q.sampleAnswer, device) : null;
+  if (yours === null || canonical === null) {
+    return `
+      <div class="sample-answer-box">
+        <div class="sample-answer-label">Sample Answer:</div>
+        <pre class="code-block">${escapeHtml(q.sampleAnswer || 'N/A')}</pre>
+      </div>
+    `;
+  }
+
+  return `
+    <div class="answer-compare">
+      <div class="sample-answer-box">
+        <div class="sample-answer-label">Your answer:</div>
+        <pre class="code-block">${escapeHtml(yours)}</pre>
+      </div>
+      <div class="sample-answer-box">
+        <div class="sample-answer-label">Canonical answer:</div>
+        <pre class="code-block">${escapeHtml(canonical)}</pre>
+      </div>
+      ${yours === canonical ? '<div class="answer-compare-match">✓ Same as the canonical answer</div>' : ''}
+    </div>
+  `;
+}
+
 function renderDashboard(): string {
   const s = state.stats;
   const progress = getLevelProgress(s);
@@ -571,12 +849,42 @@ function renderDashboard(): string {
   `;
 }
 
+// Prefer a register with two enable bits (e.g. RXEN0|TXEN0), else the first question register
+function cheatsheetNamedBitExample(device: DeviceProfile): string {
+  const entries = Object.entries(device.namedRegisterBits);
+  const enables = entries
+    .map(([reg, bits]) => [reg, Object.keys(bits).filter(b => /EN\d*$/.test(b))] as const)
+    .find(([, bits]) => bits.length >= 2);
+  const [reg, bits] = enables ?? [entries[0][0], Object.keys(entries[0][1])];
+  return `${reg} = ${bits.slice(-2).map(b => `(1<<${b})`).join('|')};`;
+}
+
+// The instruction idioms, with the device's own registers
+function cheatsheetAssemblyExample(device: DeviceProfile): string {
+  const port = device.commonPorts[0];
+  const extended = device.registers.find(r => r.ioAddress === null && r.width === 8);
+  const lines: [string, string][] = [
+    [`sbi ${port.port}, ${port.bits[3]}`, 'set one bit (low I/O only)'],
+    [`cbi ${port.port}, ${port.bits[3]}`, 'clear one bit'],
+    [`in r24, ${port.port}`, 'read-modify-write'],
+    ['ori r24, 0x0C', 'andi clears, eor toggles'],
+    [`out ${port.port}, r24`, ''],
+    ...(extended ? [[`lds r24, ${extended.name}`, 'lds/sts above the I/O space'] as [string, string]] : []),
+    [`1: sbis ${port.pin}, ${port.pinBits[3]}`, 'skip the next one if set'],
+    ['rjmp 1b', 'so loop until it is'],
+  ];
+  const width = Math.max(...lines.map(([code]) => code.length)) + 2;
+  return lines.map(([code, comment]) => comment ? `${code.padEnd(width)}; ${comment}` : code).join('\n');
+}
+
 function renderCheatsheet(): string {
+  const device = getActiveDevice();
+  const namedBitExample = cheatsheetNamedBitExample(device);
   return `
     <div class="cheatsheet-overlay" id="cheatsheet-overlay">
       <div class="cheatsheet-panel">
         <div class="cheatsheet-header">
-          <h2>Bit Manipulation Cheatsheet</h2>
+          <h2>Bit Manipulation Cheatsheet · ${device.name}</h2>
           <button class="cheatsheet-close" id="btn-close-cheatsheet">✕</button>
         </div>
         <div class="cheatsheet-content">
@@ -607,8 +915,48 @@ REGISTER ^= (1&lt;&lt;0)|(1&lt;&lt;2);  // toggle bits 0 & 2</pre>
           </div>
           <div class="cheat-section">
             <h3>Using named bits</h3>
-            <pre class="code-block">UCSR0B = (1&lt;&lt;RXEN0)|(1&lt;&lt;TXEN0);  // named bits
-DDRA = 0xFF;                        // data direction</pre>
+            <pre class="code-block">${escapeHtml(namedBitExample)}  // named bits
+${device.commonPorts[0].ddr} = 0xFF;  // data direction</pre>
+          </div>
+          <div class="cheat-section">
+            <h3>avr-libc macros</h3>
+            <pre class="code-block">${device.commonPorts[0].port} |= _BV(${device.commonPorts[0].bits[3]});              // _BV(n) is (1&lt;&lt;n)
+if (bit_is_set(${device.commonPorts[0].pin}, ${device.commonPorts[0].pinBits[3]})) …   // non-zero if set
+loop_until_bit_is_clear(${device.commonPorts[0].pin}, ${device.commonPorts[0].pinBits[3]});  // busy-wait</pre>
+          </div>
+          <div class="cheat-section">
+            <h3>AVR assembly</h3>
+            <pre class="code-block">${escapeHtml(cheatsheetAssemblyExample(device))}</pre>
+          </div>
+          <div class="cheat-section">
+            <h3>${escapeHtml(device.board)} pin mapping</h3>
+            <table class="cheat-table pin-map-table">
+              ${device.ports.map(p => `
+                <tr>
+                  <td>PORT${p.name}</td>
+                  <td>${p.bits.map((b, i) => p.arduinoPins[i] !== null ? `${b}=${p.arduinoPins[i]}` : '').filter(Boolean).join(' · ') || '—'}</td>
+                </tr>
+              `).join('')}
+            </table>
+          </div>
+          <div class="cheat-section">
+            <h3>Register lookup</h3>
+            <input type="text" id="register-lookup" class="code-input register-lookup-input"
+                   placeholder="Filter by name or address, e.g. PORTB or 0x25" autocomplete="off" spellcheck="false" />
+            <div class="register-lookup-scroll">
+              <table class="cheat-table register-table">
+                <tr><th>Register</th><th>I/O</th><th>Data</th><th>Reset</th></tr>
+                ${device.registers.map(r => {
+    const io = r.ioAddress !== null ? formatAddress(r.ioAddress) : '—';
+    const data = formatAddress(r.dataAddress);
+    return `
+                  <tr class="register-row" data-search="${`${r.name} ${io} ${data}`.toLowerCase()}">
+                    <td>${r.name}</td><td>${io}</td><td>${data}</td><td>${toHex(r.resetValue, r.width)}</td>
+                  </tr>
+                `;
+  }).join('')}
+              </table>
+            </div>
           </div>
           <div class="cheat-section">
             <h3>Operators</h3>
@@ -641,6 +989,35 @@ function attachEventListeners(): void {
     render();
   });
 
+  // Device switcher — a new device means a new register set, so start a fresh question
+  const deviceSelect = document.getElementById('device-select') as HTMLSelectElement | null;
+  deviceSelect?.addEventListener('change', () => {
+    setActiveDevice(deviceSelect.value);
+    if (state.currentQuestion) {
+      generateNext();
+    } else {
+      render();
+    }
+  });
+
+  // Load a device from a local .atdf file (parsed in the browser, nothing is uploaded)
+  const atdfInput = document.getElementById('atdf-input') as HTMLInputElement | null;
+  atdfInput?.addEventListener('change', async () => {
+    const file = atdfInput.files?.[0];
+    if (!file) return;
+    try {
+      const profile = loadAtdfDevice(await file.text());
+      setActiveDevice(profile.id);
+      if (state.currentQuestion) {
+        generateNext();
+      } else {
+        render();
+      }
+    } catch (e: any) {
+      alert(`Could not load ${file.name}: ${e.message || e}`);
+    }
+  });
+
   // Start / Next question
   document.getElementById('btn-start')?.addEventListener('click', generateNext);
   document.getElementById('btn-next')?.addEventListener('click', generateNext);
@@ -668,6 +1045,15 @@ function attachEventListeners(): void {
     }
   });
 
+  // Register lookup filter (filters rows in place so the input keeps focus)
+  const lookup = document.getElementById('register-lookup') as HTMLInputElement | null;
+  lookup?.addEventListener('input', () => {
+    const query = lookup.value.trim().toLowerCase();
+    document.querySelectorAll<HTMLElement>('.register-row').forEach(row => {
+      row.hidden = !!query && !row.dataset.search!.includes(query);
+    });
+  });
+
   // Show answer
   document.getElementById('btn-show-answer')?.addEventListener('click', () => {
     state.showAnswer = true;
@@ -680,12 +1066,29 @@ function attachEventListeners(): void {
     input.addEventListener('input', () => {
       evaluateLive(input.value);
     });
+    // Keep the squiggle overlay aligned with the text as it scrolls
+    input.addEventListener('scroll', () => {
+      const overlay = document.getElementById('answer-squiggles');
+      if (overlay) overlay.scrollTop = input.scrollTop;
+    });
     // Restore cursor position after render
     const len = input.value.length;
     input.setSelectionRange(len, len);
     setTimeout(() => input.focus(), 10);
   }
 
+  // Timeline: ◀ ▶ and the step dots
+  document.getElementById('timeline-container')?.addEventListener('click', (e) => {
+    const target = (e.target as HTMLElement).closest<HTMLElement>('[data-step-nav], [data-step]');
+    if (!target) return;
+    const steps = state.liveResult?.steps.length ?? 0;
+    const next = target.dataset.step !== undefined
+      ? Number(target.dataset.step)
+      : state.timelineStep + Number(target.dataset.stepNav);
+    state.timelineStep = Math.max(0, Math.min(steps - 1, next));
+    updateTimeline();
+  });
+
   // Global keyboard shortcuts
   // When completed: Enter or Space advances to next question
   if (state.completed) {
@@ -713,8 +1116,16 @@ function attachEventListeners(): void {
     }
   }
 
+  // Answer language, from the next question on
+  document.querySelectorAll('.language-chip').forEach(chip => {
+    chip.addEventListener('click', () => {
+      state.language = (chip as HTMLElement).dataset.language as AnswerLanguage;
+      render();
+    });
+  });
+
   // Topic chips
-  document.querySelectorAll('.topic-chip').forEach(chip => {
+  document.querySelectorAll('.topic-chip[data-topic]').forEach(chip => {
     chip.addEventListener('click', () => {
       const topic = (chip as HTMLElement).dataset.topic;
       if (!topic) return;
@@ -768,7 +1179,9 @@ function generateNext(): void {
     document.removeEventListener('keydown', (window as any).__mcuKeyHandler);
     (window as any).__mcuKeyHandler = null;
   }
-  state.currentQuestion = generateQuestion(state.selectedTopics, state.stats.level);
+  const question = generateQuestion(state.selectedTopics, state.stats.level);
+  // Questions without an assembly form stay in C
+  state.currentQuestion = state.language === 'asm' ? assemblyVariant(question) ?? question : question;
   state.liveResult = null;
   state.completed = null;
   state.showHint = false;
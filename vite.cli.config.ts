@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite';
+import { atdfLoader } from './vite.config';
+
+// Node build of the mcu-eval and mcu-grade command line tools: npm run build:cli
+export default defineConfig({
+    plugins: [atdfLoader()],
+    publicDir: false,
+    build: {
+        ssr: true,
+        outDir: 'dist-cli',
+        target: 'node20',
+        rollupOptions: {
+            input: {
+                'mcu-eval': 'src/cli/mcu-eval.ts',
+                'mcu-grade': 'src/cli/mcu-grade.ts',
+            },
+            output: {
+                entryFileNames: '[name].js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
@@ -1,8 +1,23 @@
-import { defineConfig } from 'vite';
+import { readFileSync } from 'node:fs';
+import { defineConfig, type Plugin } from 'vite';
 import { VitePWA } from 'vite-plugin-pwa';
+import { parseAtdf } from './src/data/atdf';
+
+// Import Microchip .atdf device files as parsed JSON, so dropping a file into
+// src/data/atdf/ adds the device at build time without any network access
+export function atdfLoader(): Plugin {
+    return {
+        name: 'atdf-loader',
+        load(id) {
+            if (!id.endsWith('.atdf')) return null;
+            return `export default ${JSON.stringify(parseAtdf(readFileSync(id, 'utf8')))};`;
+        },
+    };
+}
 
 export default defineConfig({
     plugins: [
+        atdfLoader(),
         VitePWA({
             registerType: 'autoUpdate',
             manifest: {